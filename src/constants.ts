@@ -38,12 +38,54 @@ export const RABBITMQ_SUBSCRIBE_METADATA = 'RABBITMQ_SUBSCRIBE_METADATA';
  */
 export const RABBITMQ_SERVICE_DISCOVERY = 'RABBITMQ_SERVICE_DISCOVERY';
 
+/**
+ * Default size in bytes from which serialized payloads are compressed.
+ * @default 1024
+ */
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+/**
+ * Default size in bytes a compressed message may decompress to, guarding consumers against compression bombs.
+ * @default 134217728 (128 MiB)
+ */
+export const DEFAULT_MAX_DECOMPRESSED_SIZE = 128 * 1024 * 1024;
+
 /**
  * Default connection name used when no custom name is specified.
  * @default 'default'
  */
 export const DEFAULT_CONNECTION_NAME = 'default';
 
+/**
+ * Default time in milliseconds an idempotent consumer remembers a processed message.
+ * @default 86400000 (24 hours)
+ */
+export const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Default time in milliseconds an idempotent consumer holds a message it is processing.
+ * @default 30000 (30 seconds)
+ */
+export const DEFAULT_IDEMPOTENCY_LEASE_DURATION = 30 * 1000;
+
+/**
+ * Version of consumed messages without an `x-message-version` header.
+ * @default 1
+ */
+export const DEFAULT_MESSAGE_VERSION = 1;
+
+/**
+ * Default number of streamed RPC replies a handler may send ahead of the `requestStream()` consumer.
+ * @default 1000
+ */
+export const DEFAULT_RPC_STREAM_MAX_BUFFERED_REPLIES = 1000;
+
+/**
+ * Default time in milliseconds `scatter()` collects replies.
+ * @default 5000
+ */
+export const DEFAULT_SCATTER_TIMEOUT = 5000;
+
 /**
  * Metadata key for the `@RabbitHandler` decorator.
  * Stores handler options on decorated methods.
@@ -58,9 +100,121 @@ export const RABBIT_HANDLER_METADATA = 'RABBIT_HANDLER_METADATA';
  */
 export const RABBIT_RPC_METADATA = 'RABBIT_RPC_METADATA';
 
+/**
+ * Metadata key for the `@MessageContract` decorator.
+ * Stores the payload contract on decorated handler methods.
+ * @internal
+ */
+export const MESSAGE_CONTRACT_METADATA = 'MESSAGE_CONTRACT_METADATA';
+
 /**
  * Metadata key for the `@RabbitController` decorator.
  * Marks a class as containing RabbitMQ handlers.
  * @internal
  */
 export const RABBIT_CONTROLLER_KEY = 'RABBIT_CONTROLLER';
+
+/**
+ * Message header counting the failed delivery attempts of a message.
+ * Set when a failed message is republished to a retry delay queue or parked.
+ */
+export const RETRY_ATTEMPT_HEADER = 'x-retry-attempt';
+
+/**
+ * Message header carrying the error message of the last failed attempt.
+ * Set on retried and parked messages.
+ */
+export const RETRY_ERROR_HEADER = 'x-retry-last-error';
+
+/**
+ * Message header carrying the error message that got a message dead-lettered.
+ */
+export const FAILURE_REASON_HEADER = 'x-failure-reason';
+
+/**
+ * Message header naming the handler that failed to process a dead-lettered message.
+ */
+export const FAILURE_HANDLER_HEADER = 'x-failure-handler';
+
+/**
+ * Message header carrying the stack trace of the error that got a message dead-lettered.
+ */
+export const FAILURE_STACK_HEADER = 'x-failure-stack';
+
+/**
+ * Message header keeping the exchange a dead-lettered message was originally published to.
+ */
+export const ORIGINAL_EXCHANGE_HEADER = 'x-original-exchange';
+
+/**
+ * Message header keeping the routing key a dead-lettered message was originally published with.
+ */
+export const ORIGINAL_ROUTING_KEY_HEADER = 'x-original-routing-key';
+
+/**
+ * Fanout exchange carrying RPC cancellations to every instance handling RPC requests.
+ */
+export const RPC_CANCELLATION_EXCHANGE = 'rabbitmq.rpc.cancellations';
+
+/**
+ * Message header carrying the absolute deadline of an RPC request, in epoch milliseconds.
+ */
+export const RPC_DEADLINE_HEADER = 'x-rpc-deadline';
+
+/**
+ * Message header marking an RPC reply as an error reply.
+ */
+export const RPC_ERROR_HEADER = 'x-rpc-error';
+
+/**
+ * Message header naming the queue of the handler that sent an RPC reply.
+ */
+export const RPC_RESPONDER_HEADER = 'x-rpc-responder';
+
+/**
+ * Message header marking an RPC request made with `requestStream()`, whose caller accepts streamed replies.
+ * Carries the number of replies the handler may send before the caller grants more credit.
+ */
+export const RPC_STREAM_HEADER = 'x-rpc-stream';
+
+/**
+ * Message header carrying the {@link RpcStreamFrame} of a streamed RPC reply.
+ */
+export const RPC_STREAM_FRAME_HEADER = 'x-rpc-stream-frame';
+
+/**
+ * Message header of a streamed RPC reply naming the queue its caller grants credit on.
+ */
+export const RPC_STREAM_CREDIT_QUEUE_HEADER = 'x-rpc-stream-credit-queue';
+
+/**
+ * Message header of a credit message, granting the handler of a streamed RPC that many more replies.
+ * A credit of 0 tells the handler that the caller stopped consuming the stream.
+ */
+export const RPC_STREAM_CREDIT_HEADER = 'x-rpc-stream-credit';
+
+/**
+ * Message header carrying the `<id>@<version>` of the contract a published payload was validated against.
+ */
+export const SCHEMA_ID_HEADER = 'x-schema-id';
+
+/**
+ * Message header listing why a message routed to the invalid-message queue did not match its contract.
+ */
+export const CONTRACT_ERRORS_HEADER = 'x-contract-errors';
+
+/**
+ * Message header naming the queue a message routed to the invalid-message queue was consumed from.
+ */
+export const CONTRACT_QUEUE_HEADER = 'x-contract-queue';
+
+/**
+ * Message header carrying the version of a message's payload, used to pick the upcasters of its `type`.
+ */
+export const MESSAGE_VERSION_HEADER = 'x-message-version';
+
+/**
+ * Message header carrying the `@MessagePattern()`/`@EventPattern()` pattern a message is sent with,
+ * for messages sent to a `RabbitMQServer` queue directly rather than with the pattern as routing key.
+ */
+export const PATTERN_HEADER = 'x-pattern';
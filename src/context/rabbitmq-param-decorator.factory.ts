@@ -0,0 +1,36 @@
+import type { PipeTransform, Type } from '@nestjs/common';
+
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { assignMetadata } from '@nestjs/common/decorators/http/route-params.decorator';
+
+import type { RabbitMQParamtype } from './rabbitmq-paramtype.enum';
+
+/**
+ * Creates a parameter decorator for a built-in RabbitMQ parameter type.
+ * Unlike `createParamDecorator`, the metadata carries the numeric paramtype,
+ * so pipes such as `ValidationPipe` treat the value like an RPC payload
+ * instead of skipping it as a custom decorator.
+ *
+ * @param {RabbitMQParamtype} paramtype - The parameter type to resolve
+ * @returns A decorator factory accepting an optional property path followed by pipes
+ * @internal
+ */
+export function createRabbitMQParamDecorator(paramtype: RabbitMQParamtype) {
+    return (
+            data?: PipeTransform | string | Type<PipeTransform>,
+            ...pipes: (PipeTransform | Type<PipeTransform>)[]
+        ): ParameterDecorator =>
+        (target, key, index) => {
+            const args = Reflect.getMetadata(ROUTE_ARGS_METADATA, target.constructor, key!) || {};
+            const hasParamData = data === undefined || data === null || typeof data === 'string';
+            const paramData = hasParamData ? (data as string | undefined) : undefined;
+            const paramPipes = hasParamData ? pipes : [data, ...pipes];
+
+            Reflect.defineMetadata(
+                ROUTE_ARGS_METADATA,
+                assignMetadata(args, paramtype, index, paramData, ...paramPipes),
+                target.constructor,
+                key!,
+            );
+        };
+}
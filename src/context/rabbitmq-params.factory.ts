@@ -0,0 +1,40 @@
+import type { ParamData } from '@nestjs/common';
+
+import type { ParamsFactory } from '@nestjs/core/helpers/external-context-creator';
+
+import { extractRabbitPayload } from '../decorators/rabbit-payload.decorator';
+
+import { RabbitMQParamtype } from './rabbitmq-paramtype.enum';
+
+import type { ConsumeMessage } from 'amqplib';
+
+/**
+ * Resolves built-in RabbitMQ handler parameters from the arguments passed
+ * to a handler created by Nest's `ExternalContextCreator`.
+ * The first argument is always the raw AMQP `ConsumeMessage`, the second its `RabbitMQContext`.
+ * @internal
+ */
+export class RabbitMQParamsFactory implements ParamsFactory {
+    /**
+     * Maps a parameter type to its value for the current invocation.
+     *
+     * @param {number} type - The {@link RabbitMQParamtype} of the parameter
+     * @param {ParamData | undefined} data - Optional property path passed to the decorator
+     * @param {unknown[]} args - The handler invocation arguments
+     * @returns {unknown} The resolved parameter value
+     */
+    exchangeKeyForValue(type: number, data: ParamData | undefined, args: unknown[]): unknown {
+        if (!args) {
+            return null;
+        }
+
+        const message = args[0] as ConsumeMessage | undefined;
+
+        switch (type as RabbitMQParamtype) {
+            case RabbitMQParamtype.PAYLOAD:
+                return extractRabbitPayload(message, data as string | undefined, args[1]);
+            default:
+                return null;
+        }
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * Built-in parameter types resolved by {@link RabbitMQParamsFactory}.
+ * Values mirror Nest's `RpcParamtype` so pipes receive familiar metadata.
+ * @internal
+ */
+export enum RabbitMQParamtype {
+    /** Deserialized message payload */
+    PAYLOAD = 3,
+}
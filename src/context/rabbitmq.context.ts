@@ -0,0 +1,201 @@
+import { MessageDisposition } from '../interfaces/message-handling.interface';
+import { getRemainingRpcTime, getRpcDeadline } from '../utils/deadline-utils';
+import { createErrorReply } from '../utils/message-utils';
+
+import type { PublishOptions } from '../interfaces/rabbitmq-options.interface';
+import type { Serializer } from '../interfaces/serializer.interface';
+import type { RabbitMQService } from '../services/rabbitmq.service';
+import type { ChannelWrapper } from 'amqp-connection-manager';
+import type { ConsumeMessage } from 'amqplib';
+
+/**
+ * AMQP host context of a discovered handler invocation.
+ * Exposed as the RPC context (`host.switchToRpc().getContext()`) to guards,
+ * interceptors and exception filters, which can use it to decide the message fate.
+ *
+ * @example
+ * ```typescript
+ * @Catch(OrderNotFoundError)
+ * export class OrderNotFoundFilter implements ExceptionFilter {
+ *   catch(error: OrderNotFoundError, host: ArgumentsHost) {
+ *     host.switchToRpc().getContext<RabbitMQContext>().ack();
+ *   }
+ * }
+ * ```
+ */
+export class RabbitMQContext {
+    private disposition?: MessageDisposition;
+    private response?: { isError?: boolean; value: unknown };
+
+    /**
+     * Creates the context of a consumed message.
+     *
+     * @param {ConsumeMessage} message - The consumed message
+     * @param {RabbitMQService} rabbitService - The service of the connection the message was consumed from
+     * @param {AbortSignal} [abortSignal] - Signal aborted when the RPC caller cancels the request
+     * @param {Serializer} [serializer] - Serializer decoding messages without a known content type
+     * @param {{ value: unknown }} [payload] - The payload, when already decoded by the consumer
+     */
+    constructor(
+        private readonly message: ConsumeMessage,
+        private readonly rabbitService: RabbitMQService,
+        private readonly abortSignal: AbortSignal = new AbortController().signal,
+        private readonly serializer?: Serializer,
+        private payload?: { value: unknown },
+    ) {}
+
+    /**
+     * Acknowledges the message, dropping it.
+     */
+    ack(): void {
+        this.disposition = MessageDisposition.ACK;
+    }
+
+    /**
+     * Returns the signal aborted when the RPC caller cancels the request.
+     * Never aborts for `@RabbitSubscribe` handlers.
+     *
+     * @returns {AbortSignal} The abort signal of the message
+     */
+    getAbortSignal(): AbortSignal {
+        return this.abortSignal;
+    }
+
+    /**
+     * Returns the channel of the connection the message was consumed from.
+     *
+     * @returns {ChannelWrapper} The channel wrapper
+     */
+    getChannel(): ChannelWrapper {
+        return this.rabbitService.getChannel();
+    }
+
+    /**
+     * Returns the deadline of the RPC request, after which its caller stops waiting.
+     *
+     * @returns {number | undefined} The deadline in epoch milliseconds, or undefined if the message has none
+     */
+    getDeadline(): number | undefined {
+        return getRpcDeadline(this.message);
+    }
+
+    /**
+     * Returns the disposition decided through this context, if any.
+     *
+     * @returns {MessageDisposition | undefined} The decided disposition
+     */
+    getDisposition(): MessageDisposition | undefined {
+        return this.disposition;
+    }
+
+    /**
+     * Returns the raw AMQP message being handled.
+     *
+     * @returns {ConsumeMessage} The consumed message
+     */
+    getMessage(): ConsumeMessage {
+        return this.message;
+    }
+
+    /**
+     * Returns the message payload, decoded by the serializer matching its `contentType`,
+     * or by the handler's serializer when the message has no known content type,
+     * then upcast to the latest version of its `type`.
+     *
+     * @returns {unknown} The decoded payload
+     */
+    getPayload(): unknown {
+        this.payload ??= { value: this.rabbitService.decodeMessage(this.message, this.serializer) };
+
+        return this.payload.value;
+    }
+
+    /**
+     * Returns the milliseconds left until the deadline of the RPC request, never less than 0.
+     *
+     * @returns {number | undefined} The remaining time, or undefined if the message has no deadline
+     */
+    getRemainingTime(): number | undefined {
+        const deadline = this.getDeadline();
+
+        return deadline === undefined ? undefined : getRemainingRpcTime(deadline);
+    }
+
+    /**
+     * Returns the reply set with {@link reply} or {@link replyWithError}.
+     * `isError` marks replies set with {@link replyWithError}.
+     *
+     * @returns {{ isError?: boolean; value: unknown } | undefined} The wrapped reply, or undefined if none was set
+     */
+    getResponse(): { isError?: boolean; value: unknown } | undefined {
+        return this.response;
+    }
+
+    /**
+     * Returns the service of the connection the message was consumed from.
+     *
+     * @returns {RabbitMQService} The RabbitMQ service
+     */
+    getService(): RabbitMQService {
+        return this.rabbitService;
+    }
+
+    /**
+     * Whether a disposition has been decided through this context.
+     *
+     * @returns {boolean} True once the message fate is decided
+     */
+    isSettled(): boolean {
+        return this.disposition !== undefined;
+    }
+
+    /**
+     * Rejects the message without requeue, dead-lettering it if the queue has a DLX.
+     */
+    nack(): void {
+        this.disposition = MessageDisposition.NACK;
+    }
+
+    /**
+     * Publishes a message on the same connection, e.g. to forward the failed
+     * message elsewhere. Does not settle the original message.
+     *
+     * @param {string} exchange - The exchange name
+     * @param {string} routingKey - The routing key
+     * @param {unknown} message - The message payload
+     * @param {PublishOptions} [options] - Publishing options
+     * @returns {Promise<boolean>} True if the message was published successfully
+     */
+    async publish(exchange: string, routingKey: string, message: unknown, options?: PublishOptions): Promise<boolean> {
+        return this.rabbitService.publish(exchange, routingKey, message, options);
+    }
+
+    /**
+     * Replies to the RPC caller and acknowledges the request.
+     * For `@RabbitSubscribe` handlers this rejects the message like {@link nack}.
+     *
+     * @param {unknown} response - The reply payload
+     */
+    reply(response: unknown): void {
+        this.disposition = MessageDisposition.REPLY;
+        this.response = { value: response };
+    }
+
+    /**
+     * Replies to the RPC caller with a structured error and acknowledges the request.
+     * The caller's `request()` rejects with an `RpcRemoteError`.
+     *
+     * @param {unknown} error - The error to report
+     */
+    replyWithError(error: unknown): void {
+        this.disposition = MessageDisposition.REPLY;
+        this.response = { isError: true, value: createErrorReply(error) };
+    }
+
+    /**
+     * Rejects the message and puts it back on the queue.
+     */
+    requeue(): void {
+        this.disposition = MessageDisposition.REQUEUE;
+    }
+}
@@ -0,0 +1,63 @@
+import { ContractRegistry } from './contract.registry';
+
+import { ContractViolationError } from '../errors/contract-violation.error';
+
+import type { JsonSchema } from '../interfaces/contract.interface';
+
+describe('ContractRegistry', () => {
+    const schema: JsonSchema = { required: ['id'], type: 'object' };
+
+    it('should find contracts by queue first, then by routing key pattern and exchange', () => {
+        const byQueue = { queue: 'billing', schema, version: 1 };
+        const byPattern = { exchange: 'orders', routingKey: 'order.#', schema, version: 1 };
+        const registry = new ContractRegistry([byPattern, byQueue]);
+
+        expect(registry.find({ exchange: 'orders', queue: 'billing', routingKey: 'order.created' })).toBe(byQueue);
+        expect(registry.find({ exchange: 'orders', routingKey: 'order.created.eu' })).toBe(byPattern);
+        expect(registry.find({ exchange: 'orders', routingKey: 'order' })).toBe(byPattern);
+        expect(registry.find({ exchange: 'audit', routingKey: 'order.created' })).toBeUndefined();
+        expect(registry.find({ exchange: 'orders', routingKey: 'invoice.created' })).toBeUndefined();
+    });
+
+    it('should prefer contracts registered later', () => {
+        const registry = new ContractRegistry([{ routingKey: 'order.*', schema, version: 1 }]);
+        const latest = { routingKey: 'order.created', schema, version: 2 };
+
+        registry.register(latest);
+
+        expect(registry.find({ routingKey: 'order.created' })).toBe(latest);
+        expect(registry.getSchemaId(latest)).toBe('order.created@2');
+        expect(registry.getSchemaId({ id: 'OrderCreated', queue: 'billing', schema, version: '1.1' })).toBe(
+            'OrderCreated@1.1',
+        );
+    });
+
+    it('should reject contracts without a queue or routing key', () => {
+        expect(() => new ContractRegistry([{ id: 'OrderCreated', schema, version: 1 }])).toThrow(
+            'Message contract OrderCreated@1 needs a queue or routing key',
+        );
+    });
+
+    it('should validate with JSON Schemas, safeParse schemas and custom validators', async () => {
+        const registry = new ContractRegistry();
+        const zodLike = {
+            safeParse: (value: any) =>
+                typeof value?.id === 'string'
+                    ? { success: true }
+                    : { error: { issues: [{ message: 'Expected string', path: ['id'] }] }, success: false },
+        };
+        const custom = { validate: async (value: any) => (value?.id ? [] : ['id is missing']) };
+
+        await expect(registry.assertValid({ queue: 'q', schema, version: 1 }, { id: 1 })).resolves.toBeUndefined();
+        await expect(registry.assertValid({ queue: 'q', schema, version: 1 }, {})).rejects.toThrow(
+            "Payload does not match contract q@1: / must have required property 'id'",
+        );
+        await expect(registry.assertValid({ queue: 'q', schema: zodLike, version: 1 }, { id: 1 })).rejects.toEqual(
+            new ContractViolationError('q@1', ['/id Expected string']),
+        );
+        await expect(registry.assertValid({ queue: 'q', schema: custom, version: 1 }, {})).rejects.toMatchObject({
+            errors: ['id is missing'],
+            schemaId: 'q@1',
+        });
+    });
+});
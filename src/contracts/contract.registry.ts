@@ -0,0 +1,144 @@
+import { JsonSchemaValidator } from './json-schema.validator';
+
+import { ContractViolationError } from '../errors/contract-violation.error';
+import { matchesRoutingKey } from '../utils/message-utils';
+
+import type {
+    ContractSchema,
+    ContractTarget,
+    ContractValidator,
+    JsonSchema,
+    MessageContractDefinition,
+    SafeParseSchema,
+} from '../interfaces/contract.interface';
+
+/**
+ * Adapts a contract schema to a validator: custom validators as-is,
+ * Zod-style schemas through `safeParse`, anything else as a JSON Schema.
+ */
+function toValidator(schema: ContractSchema): ContractValidator {
+    if (typeof (schema as ContractValidator).validate === 'function') {
+        return schema as ContractValidator;
+    }
+
+    if (typeof (schema as SafeParseSchema).safeParse === 'function') {
+        return {
+            validate: (value) => {
+                const result = (schema as SafeParseSchema).safeParse(value);
+
+                if (result.success) {
+                    return [];
+                }
+
+                return (
+                    result.error?.issues?.map((issue) => `/${(issue.path ?? []).join('/')} ${issue.message}`) ?? [
+                        result.error?.message ?? 'Invalid payload',
+                    ]
+                );
+            },
+        };
+    }
+
+    return new JsonSchemaValidator(schema as JsonSchema);
+}
+
+/**
+ * Message contracts of a connection, looked up by queue or routing key.
+ * Built from the module `contracts` option; `@MessageContract()` handlers register theirs on discovery.
+ *
+ * @example
+ * ```typescript
+ * const contracts = rabbitMQ.getContracts();
+ *
+ * contracts.register({ routingKey: 'order.*', schema: orderSchema, version: 1 });
+ * await contracts.assertValid(contracts.find({ routingKey: 'order.created' })!, order);
+ * ```
+ */
+export class ContractRegistry {
+    private readonly definitions: MessageContractDefinition[] = [];
+    private readonly validators = new WeakMap<MessageContractDefinition, ContractValidator>();
+
+    /**
+     * Creates an instance of ContractRegistry.
+     *
+     * @param {MessageContractDefinition[]} [definitions=[]] - Contracts to register
+     */
+    constructor(definitions: MessageContractDefinition[] = []) {
+        definitions.forEach((definition) => this.register(definition));
+    }
+
+    /**
+     * Validates a payload against a contract.
+     *
+     * @param {MessageContractDefinition} contract - The contract to validate against
+     * @param {unknown} payload - The payload to validate
+     * @returns {Promise<void>}
+     * @throws {ContractViolationError} If the payload does not match the contract
+     */
+    async assertValid(contract: MessageContractDefinition, payload: unknown): Promise<void> {
+        let validator = this.validators.get(contract);
+
+        if (!validator) {
+            validator = toValidator(contract.schema);
+            this.validators.set(contract, validator);
+        }
+
+        const errors = await validator.validate(payload);
+
+        if (errors.length > 0) {
+            throw new ContractViolationError(this.getSchemaId(contract), errors);
+        }
+    }
+
+    /**
+     * Finds the contract of a queue, or else of an exchange and routing key.
+     * Contracts registered later win over earlier ones for the same target.
+     *
+     * @param {ContractTarget} target - Where the message is published to or consumed from
+     * @returns {MessageContractDefinition | undefined} The contract, if any
+     */
+    find(target: ContractTarget): MessageContractDefinition | undefined {
+        const definitions = [...this.definitions].reverse();
+
+        return (
+            (target.queue !== undefined &&
+                definitions.find(
+                    (definition) => definition.queue !== undefined && definition.queue === target.queue,
+                )) ||
+            (target.routingKey !== undefined &&
+                definitions.find(
+                    (definition) =>
+                        definition.routingKey !== undefined &&
+                        matchesRoutingKey(definition.routingKey, target.routingKey!) &&
+                        (definition.exchange === undefined || definition.exchange === target.exchange),
+                )) ||
+            undefined
+        );
+    }
+
+    /**
+     * Returns the `x-schema-id` header value of a contract, `<id>@<version>`.
+     *
+     * @param {MessageContractDefinition} contract - The contract
+     * @returns {string} The schema id
+     */
+    getSchemaId(contract: MessageContractDefinition): string {
+        return `${contract.id ?? contract.routingKey ?? contract.queue}@${contract.version}`;
+    }
+
+    /**
+     * Registers a contract.
+     *
+     * @param {MessageContractDefinition} definition - The contract and the queue or routing key it applies to
+     * @throws {Error} If the contract names neither a queue nor a routing key
+     */
+    register(definition: MessageContractDefinition): void {
+        if (definition.queue === undefined && definition.routingKey === undefined) {
+            throw new Error(
+                `Message contract ${definition.id ?? ''}@${definition.version} needs a queue or routing key`,
+            );
+        }
+
+        this.definitions.push(definition);
+    }
+}
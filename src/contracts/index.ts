@@ -0,0 +1,3 @@
+export * from './contract.registry';
+
+export * from './json-schema.validator';
@@ -0,0 +1,64 @@
+import { JsonSchemaValidator } from './json-schema.validator';
+
+describe('JsonSchemaValidator', () => {
+    const validator = new JsonSchemaValidator({
+        additionalProperties: false,
+        properties: {
+            items: {
+                items: { properties: { quantity: { minimum: 1, type: 'integer' } }, required: ['quantity'] },
+                minItems: 1,
+                type: 'array',
+            },
+            note: { type: ['string', 'null'] },
+            orderId: { pattern: '^ord-', type: 'string' },
+            placedAt: { type: 'string' },
+            status: { enum: ['new', 'paid'] },
+        },
+        required: ['orderId', 'items'],
+        type: 'object',
+    });
+
+    it('should accept valid payloads, validating dates as strings', () => {
+        expect(
+            validator.validate({
+                items: [{ quantity: 2 }],
+                note: null,
+                orderId: 'ord-1',
+                placedAt: new Date(0),
+                status: 'new',
+            }),
+        ).toEqual([]);
+    });
+
+    it('should report every mismatch by JSON pointer', () => {
+        expect(
+            validator.validate({ extra: true, items: [{ quantity: 0 }, {}, { quantity: 1.5 }], status: 'lost' }),
+        ).toEqual([
+            "/ must have required property 'orderId'",
+            "/ must not have additional property 'extra'",
+            '/items/0/quantity must be >= 1',
+            "/items/1 must have required property 'quantity'",
+            '/items/2/quantity must be integer',
+            '/status must be one of ["new","paid"]',
+        ]);
+        expect(validator.validate({ items: [], orderId: 'x-1' })).toEqual([
+            '/items must have at least 1 items',
+            '/orderId must match pattern "^ord-"',
+        ]);
+        expect(validator.validate('order')).toEqual(['/ must be object']);
+    });
+
+    it('should apply combinators', () => {
+        const idValidator = new JsonSchemaValidator({
+            anyOf: [{ type: 'string' }, { type: 'integer' }],
+            not: { const: 0 },
+        });
+
+        expect(idValidator.validate('a')).toEqual([]);
+        expect(idValidator.validate(0)).toEqual(['/ must not match the schema in not']);
+        expect(idValidator.validate(true)).toEqual(['/ must match a schema in anyOf']);
+        expect(new JsonSchemaValidator({ oneOf: [{ type: 'number' }, { minimum: 0 }] }).validate(1)).toEqual([
+            '/ must match exactly one schema in oneOf',
+        ]);
+    });
+});
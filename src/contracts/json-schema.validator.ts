@@ -0,0 +1,247 @@
+import type { ContractValidator, JsonSchema, JsonSchemaType } from '../interfaces/contract.interface';
+
+/**
+ * Returns the JSON Schema type of a value; integers are reported as `number`.
+ */
+function getJsonType(value: unknown): JsonSchemaType | 'undefined' {
+    if (value === null) return 'null';
+
+    if (Array.isArray(value)) return 'array';
+
+    const type = typeof value;
+
+    return type === 'bigint' ? 'number' : (type as JsonSchemaType | 'undefined');
+}
+
+/**
+ * Determines whether a value is of a JSON Schema type.
+ */
+function isOfType(value: unknown, type: JsonSchemaType): boolean {
+    if (type === 'integer') {
+        return typeof value === 'bigint' || Number.isInteger(value);
+    }
+
+    return getJsonType(value) === type;
+}
+
+/**
+ * Compares JSON values structurally, for `const` and `enum`.
+ */
+function isEqual(left: unknown, right: unknown): boolean {
+    if (left === right) return true;
+
+    if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) return false;
+
+    if (Array.isArray(left) !== Array.isArray(right)) return false;
+
+    const leftKeys = Object.keys(left);
+
+    return (
+        leftKeys.length === Object.keys(right).length &&
+        leftKeys.every((key) =>
+            isEqual((left as Record<string, unknown>)[key], (right as Record<string, unknown>)[key]),
+        )
+    );
+}
+
+/**
+ * Validates payloads against the JSON Schema subset described by {@link JsonSchema},
+ * with no extra dependency. Payloads are validated as they serialize to JSON, e.g. dates as strings.
+ * Errors name the offending value by JSON pointer, e.g. `/items/0/sku must be string`.
+ *
+ * @example
+ * ```typescript
+ * const validator = new JsonSchemaValidator({
+ *   type: 'object',
+ *   required: ['orderId'],
+ *   properties: { orderId: { type: 'string' } },
+ * });
+ *
+ * validator.validate({ orderId: 42 }); // ['/orderId must be string']
+ * ```
+ */
+export class JsonSchemaValidator implements ContractValidator {
+    /**
+     * Creates an instance of JsonSchemaValidator.
+     *
+     * @param {JsonSchema} schema - The schema to validate against
+     */
+    constructor(private readonly schema: JsonSchema) {}
+
+    validate(value: unknown): string[] {
+        return this.validateValue(this.schema, value, '');
+    }
+
+    /**
+     * Validates the keywords of a schema that apply to arrays.
+     *
+     * @private
+     */
+    private validateArray(schema: JsonSchema, value: unknown[], path: string): string[] {
+        const errors: string[] = [];
+
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path || '/'} must have at least ${schema.minItems} items`);
+        }
+
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path || '/'} must have at most ${schema.maxItems} items`);
+        }
+
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...this.validateValue(schema.items!, item, `${path}/${index}`)));
+        }
+
+        return errors;
+    }
+
+    /**
+     * Validates the `allOf`, `anyOf`, `oneOf` and `not` keywords of a schema.
+     *
+     * @private
+     */
+    private validateCombinators(schema: JsonSchema, value: unknown, path: string): string[] {
+        const errors: string[] = [];
+        const matches = (subschema: JsonSchema) => this.validateValue(subschema, value, path).length === 0;
+
+        for (const subschema of schema.allOf ?? []) {
+            errors.push(...this.validateValue(subschema, value, path));
+        }
+
+        if (schema.anyOf && !schema.anyOf.some(matches)) {
+            errors.push(`${path || '/'} must match a schema in anyOf`);
+        }
+
+        if (schema.oneOf && schema.oneOf.filter(matches).length !== 1) {
+            errors.push(`${path || '/'} must match exactly one schema in oneOf`);
+        }
+
+        if (schema.not && matches(schema.not)) {
+            errors.push(`${path || '/'} must not match the schema in not`);
+        }
+
+        return errors;
+    }
+
+    /**
+     * Validates the keywords of a schema that apply to numbers.
+     *
+     * @private
+     */
+    private validateNumber(schema: JsonSchema, value: number | bigint, path: string): string[] {
+        const errors: string[] = [];
+        const name = path || '/';
+
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${name} must be >= ${schema.minimum}`);
+
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${name} must be <= ${schema.maximum}`);
+
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            errors.push(`${name} must be > ${schema.exclusiveMinimum}`);
+        }
+
+        if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+            errors.push(`${name} must be < ${schema.exclusiveMaximum}`);
+        }
+
+        return errors;
+    }
+
+    /**
+     * Validates the keywords of a schema that apply to objects.
+     *
+     * @private
+     */
+    private validateObject(schema: JsonSchema, value: Record<string, unknown>, path: string): string[] {
+        const errors: string[] = [];
+        const properties = schema.properties ?? {};
+
+        for (const key of schema.required ?? []) {
+            if (value[key] === undefined) {
+                errors.push(`${path || '/'} must have required property '${key}'`);
+            }
+        }
+
+        for (const [key, propertyValue] of Object.entries(value)) {
+            if (propertyValue === undefined) {
+                continue;
+            }
+
+            if (Object.prototype.hasOwnProperty.call(properties, key)) {
+                errors.push(...this.validateValue(properties[key], propertyValue, `${path}/${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path || '/'} must not have additional property '${key}'`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...this.validateValue(schema.additionalProperties, propertyValue, `${path}/${key}`));
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Validates the keywords of a schema that apply to strings.
+     *
+     * @private
+     */
+    private validateString(schema: JsonSchema, value: string, path: string): string[] {
+        const errors: string[] = [];
+        const name = path || '/';
+
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${name} must have at least ${schema.minLength} characters`);
+        }
+
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${name} must have at most ${schema.maxLength} characters`);
+        }
+
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+            errors.push(`${name} must match pattern "${schema.pattern}"`);
+        }
+
+        return errors;
+    }
+
+    /**
+     * Validates a value against a schema, stopping at a type mismatch.
+     *
+     * @private
+     */
+    private validateValue(schema: JsonSchema, rawValue: unknown, path: string): string[] {
+        const name = path || '/';
+        // Dates are validated as the strings they serialize to
+        const value = rawValue instanceof Date ? rawValue.toISOString() : rawValue;
+
+        if (schema.type !== undefined) {
+            const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+            if (!types.some((type) => isOfType(value, type))) {
+                return [`${name} must be ${types.join(' or ')}`];
+            }
+        }
+
+        if (schema.const !== undefined && !isEqual(value, schema.const)) {
+            return [`${name} must be equal to ${JSON.stringify(schema.const)}`];
+        }
+
+        if (schema.enum && !schema.enum.some((option) => isEqual(value, option))) {
+            return [`${name} must be one of ${JSON.stringify(schema.enum)}`];
+        }
+
+        const errors = this.validateCombinators(schema, value, path);
+
+        switch (getJsonType(value)) {
+            case 'array':
+                return [...errors, ...this.validateArray(schema, value as unknown[], path)];
+            case 'number':
+                return [...errors, ...this.validateNumber(schema, value as number | bigint, path)];
+            case 'object':
+                return [...errors, ...this.validateObject(schema, value as Record<string, unknown>, path)];
+            case 'string':
+                return [...errors, ...this.validateString(schema, value as string, path)];
+            default:
+                return errors;
+        }
+    }
+}
@@ -1,5 +1,9 @@
 export * from './inject-rabbitmq.decorator';
 
+export * from './message-contract.decorator';
+
+export * from './rabbit-abort-signal.decorator';
+
 export * from './rabbit-controller.decorator';
 
 export * from './rabbit-handler.decorator';
@@ -8,6 +12,8 @@ export * from './rabbit-message.decorator';
 
 export * from './rabbit-payload.decorator';
 
+export * from './rabbit-remaining-time.decorator';
+
 export * from './rabbit-rpc.decorator';
 
 export * from './rabbit-subscribe.decorator';
@@ -0,0 +1,26 @@
+import { MESSAGE_CONTRACT_METADATA } from '../constants';
+
+import { MessageContract } from './message-contract.decorator';
+
+import type { MessageContractOptions } from '../interfaces/contract.interface';
+
+describe('MessageContract Decorator', () => {
+    it('should set the contract metadata on the method', () => {
+        const contract: MessageContractOptions = {
+            invalidMessageQueue: 'orders.invalid',
+            schema: { required: ['orderId'], type: 'object' },
+            version: 2,
+        };
+
+        class TestClass {
+            @MessageContract(contract)
+            handleOrder(_message?: any): void {
+                // Test method
+            }
+        }
+
+        const metadata = Reflect.getMetadata(MESSAGE_CONTRACT_METADATA, TestClass.prototype.handleOrder);
+
+        expect(metadata).toEqual(contract);
+    });
+});
@@ -0,0 +1,25 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { MESSAGE_CONTRACT_METADATA } from '../constants';
+
+import type { MessageContractOptions } from '../interfaces/contract.interface';
+
+/**
+ * Decorator declaring the payload contract of a `@RabbitSubscribe`, `@RabbitHandler` or `@RabbitRPC` handler.
+ * Incoming messages are validated before the handler runs, and the contract is registered
+ * for the handler's queue and routing key, so publishers on the same connection validate against it too.
+ *
+ * @param {MessageContractOptions} contract - The schema, its version and, optionally, an invalid-message queue
+ * @returns {MethodDecorator} A method decorator that sets the message contract metadata
+ *
+ * @example
+ * ```typescript
+ * @RabbitSubscribe({ exchange: 'orders', queue: 'billing.orders', routingKey: 'order.created' })
+ * @MessageContract({ schema: OrderCreatedSchema, version: 2, invalidMessageQueue: 'billing.invalid' })
+ * async handleOrderCreated(@RabbitPayload() order: OrderCreated): Promise<void> {
+ *   await this.billing.open(order);
+ * }
+ * ```
+ */
+export const MessageContract = (contract: MessageContractOptions): MethodDecorator =>
+    SetMetadata(MESSAGE_CONTRACT_METADATA, contract);
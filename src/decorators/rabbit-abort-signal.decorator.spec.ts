@@ -0,0 +1,16 @@
+import { RabbitAbortSignal, resolveRabbitAbortSignal } from './rabbit-abort-signal.decorator';
+import 'reflect-metadata';
+
+describe('RabbitAbortSignal Decorator', () => {
+    it('should be defined', () => {
+        expect(RabbitAbortSignal).toBeDefined();
+        expect(typeof RabbitAbortSignal).toBe('function');
+    });
+
+    it('should return the abort signal of the RabbitMQ context', () => {
+        const signal = new AbortController().signal;
+        const ctx: any = { switchToRpc: () => ({ getContext: () => ({ getAbortSignal: () => signal }) }) };
+
+        expect(resolveRabbitAbortSignal(undefined, ctx)).toBe(signal);
+    });
+});
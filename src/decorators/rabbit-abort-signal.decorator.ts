@@ -0,0 +1,33 @@
+import type { ExecutionContext } from '@nestjs/common';
+import { createParamDecorator } from '@nestjs/common';
+
+import type { RabbitMQContext } from '../context/rabbitmq.context';
+
+/**
+ * Resolves the abort signal of the message being handled from the execution context.
+ * This is the internal function used by the RabbitAbortSignal decorator.
+ *
+ * @param {unknown} _data - Unused
+ * @param {ExecutionContext} ctx - The NestJS execution context
+ * @returns {AbortSignal} The abort signal of the current message
+ */
+export function resolveRabbitAbortSignal(_data: unknown, ctx: ExecutionContext): AbortSignal {
+    return ctx.switchToRpc().getContext<RabbitMQContext>().getAbortSignal();
+}
+
+/**
+ * Parameter decorator injecting an `AbortSignal` that aborts when the RPC caller
+ * cancels the request (see `RpcOptions.publishCancellation`).
+ * Requires the module `rpcCancellation` option; the signal never aborts for subscribers.
+ *
+ * @returns {ParameterDecorator} A parameter decorator that injects the abort signal
+ *
+ * @example
+ * ```typescript
+ * @RabbitRPC({ queue: 'reports.generate' })
+ * async generate(@RabbitPayload() query: ReportQuery, @RabbitAbortSignal() signal: AbortSignal) {
+ *   return this.reports.generate(query, { signal });
+ * }
+ * ```
+ */
+export const RabbitAbortSignal = createParamDecorator(resolveRabbitAbortSignal);
@@ -1,3 +1,9 @@
+import { ParseIntPipe } from '@nestjs/common';
+
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+
+import { RabbitMQParamtype } from '../context/rabbitmq-paramtype.enum';
+
 import { RabbitPayload, resolveRabbitPayload } from './rabbit-payload.decorator';
 import 'reflect-metadata';
 
@@ -7,7 +13,7 @@ describe('RabbitPayload Decorator', () => {
     });
 
     it('should return null when message is falsy', () => {
-        const ctx: any = { switchToRpc: () => ({ getData: () => null }) };
+        const ctx: any = { switchToRpc: () => ({ getContext: () => undefined, getData: () => null }) };
         const result = resolveRabbitPayload(undefined, ctx);
 
         expect(result).toBeNull();
@@ -16,7 +22,7 @@ describe('RabbitPayload Decorator', () => {
     it('should parse JSON from message.content buffer', () => {
         const payload = { id: 1, name: 'test' };
         const msg = { content: Buffer.from(JSON.stringify(payload)) };
-        const ctx: any = { switchToRpc: () => ({ getData: () => msg }) };
+        const ctx: any = { switchToRpc: () => ({ getContext: () => undefined, getData: () => msg }) };
 
         const result = resolveRabbitPayload(undefined, ctx);
 
@@ -26,7 +32,7 @@ describe('RabbitPayload Decorator', () => {
     it('should extract property from parsed JSON when path provided', () => {
         const payload = { id: 2, name: 'alice' };
         const msg = { content: Buffer.from(JSON.stringify(payload)) };
-        const ctx: any = { switchToRpc: () => ({ getData: () => msg }) };
+        const ctx: any = { switchToRpc: () => ({ getContext: () => undefined, getData: () => msg }) };
 
         const name = resolveRabbitPayload('name', ctx);
 
@@ -36,7 +42,7 @@ describe('RabbitPayload Decorator', () => {
     it('should return raw string if JSON parse fails', () => {
         const raw = 'not-json';
         const msg = { content: Buffer.from(raw) };
-        const ctx: any = { switchToRpc: () => ({ getData: () => msg }) };
+        const ctx: any = { switchToRpc: () => ({ getContext: () => undefined, getData: () => msg }) };
 
         const result = resolveRabbitPayload(undefined, ctx);
 
@@ -45,7 +51,7 @@ describe('RabbitPayload Decorator', () => {
 
     it('should return message itself when no content field', () => {
         const msg = { id: 3, name: 'bob' };
-        const ctx: any = { switchToRpc: () => ({ getData: () => msg }) };
+        const ctx: any = { switchToRpc: () => ({ getContext: () => undefined, getData: () => msg }) };
 
         const full = resolveRabbitPayload(undefined, ctx);
         const id = resolveRabbitPayload('id', ctx);
@@ -53,4 +59,26 @@ describe('RabbitPayload Decorator', () => {
         expect(full).toEqual(msg);
         expect(id).toBe(3);
     });
+    it('should store payload metadata with property and pipes', () => {
+        class TestClass {
+            handle(@RabbitPayload() _payload: unknown, @RabbitPayload('count', ParseIntPipe) _count: number) {}
+        }
+
+        const metadata = Reflect.getMetadata(ROUTE_ARGS_METADATA, TestClass, 'handle');
+
+        expect(metadata[`${RabbitMQParamtype.PAYLOAD}:0`]).toEqual({ data: undefined, index: 0, pipes: [] });
+        expect(metadata[`${RabbitMQParamtype.PAYLOAD}:1`]).toEqual({ data: 'count', index: 1, pipes: [ParseIntPipe] });
+    });
+
+    it('should treat a leading pipe as a pipe rather than a property path', () => {
+        const pipe = new ParseIntPipe();
+
+        class TestClass {
+            handle(@RabbitPayload(pipe) _payload: number) {}
+        }
+
+        const metadata = Reflect.getMetadata(ROUTE_ARGS_METADATA, TestClass, 'handle');
+
+        expect(metadata[`${RabbitMQParamtype.PAYLOAD}:0`]).toEqual({ data: undefined, index: 0, pipes: [pipe] });
+    });
 });
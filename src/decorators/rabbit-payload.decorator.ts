@@ -1,9 +1,15 @@
-import type { ExecutionContext } from '@nestjs/common';
-import { createParamDecorator } from '@nestjs/common';
+import type { ExecutionContext, PipeTransform, Type } from '@nestjs/common';
+
+import { RabbitMQContext } from '../context/rabbitmq.context';
+import { createRabbitMQParamDecorator } from '../context/rabbitmq-param-decorator.factory';
+import { RabbitMQParamtype } from '../context/rabbitmq-paramtype.enum';
+import { SerializerRegistry } from '../serializers/serializer.registry';
+
+const defaultSerializers = new SerializerRegistry();
 
 /**
  * Resolves the payload from a RabbitMQ message.
- * Automatically parses JSON content from message.content buffer.
+ * Decodes message.content with the serializer matching its `contentType` (JSON by default).
  *
  * @param {string | undefined} data - Optional property path to extract from the parsed payload
  * @param {ExecutionContext} ctx - The NestJS execution context
@@ -21,22 +27,32 @@ import { createParamDecorator } from '@nestjs/common';
  * ```
  */
 export function resolveRabbitPayload(data: string | undefined, ctx: ExecutionContext): unknown {
-    const message = ctx.switchToRpc().getData();
+    const rpc = ctx.switchToRpc();
+
+    return extractRabbitPayload(rpc.getData(), data, rpc.getContext());
+}
 
+/**
+ * Extracts the payload from a raw or pre-parsed RabbitMQ message.
+ * Shared by the `@RabbitPayload` decorator and the handler params factory.
+ * With a {@link RabbitMQContext}, the payload is decoded by the serializers of its connection and handler.
+ *
+ * @param {unknown} message - The raw AMQP message or an already parsed payload
+ * @param {string | undefined} data - Optional property path to extract from the parsed payload
+ * @param {unknown} [context] - The RPC context of the invocation
+ * @returns {unknown} The parsed payload, a specific property, or null if message is falsy
+ */
+export function extractRabbitPayload(message: any, data?: string, context?: unknown): unknown {
     if (!message) {
         return null;
     }
 
     // Handle raw AMQP message with content buffer
     if ('content' in message && message.content) {
-        try {
-            const payload = JSON.parse(message.content.toString()) as Record<string, unknown>;
+        const payload =
+            context instanceof RabbitMQContext ? context.getPayload() : defaultSerializers.deserialize(message);
 
-            return data ? payload?.[data] : payload;
-        } catch {
-            // Return raw string if JSON parse fails
-            return message.content.toString();
-        }
+        return data ? (payload as Record<string, unknown> | null)?.[data] : payload;
     }
 
     // Handle pre-parsed message
@@ -45,9 +61,11 @@ export function resolveRabbitPayload(data: string | undefined, ctx: ExecutionCon
 
 /**
  * Parameter decorator to extract the payload from a RabbitMQ message.
- * Automatically handles JSON parsing from the message content buffer.
+ * Decodes the message content with the serializer matching its `contentType` (JSON by default).
+ * Accepts pipes (e.g. `ValidationPipe`, `ParseIntPipe`) that run before the handler.
  *
- * @param {string} [data] - Optional property path to extract from the payload
+ * @param {string | PipeTransform} [propertyOrPipe] - Optional property path to extract from the payload, or a pipe
+ * @param {...PipeTransform} pipes - Pipes applied to the extracted value
  * @returns {ParameterDecorator} A parameter decorator that injects the payload
  *
  * @example
@@ -67,7 +85,20 @@ export function resolveRabbitPayload(data: string | undefined, ctx: ExecutionCon
  *     console.log('Processing order:', orderId);
  *     console.log('Total items:', payload.items.length);
  *   }
+ *
+ *   @RabbitSubscribe({ queue: 'validated-orders' })
+ *   async handleValidated(@RabbitPayload(new ValidationPipe()) order: CreateOrderDto): Promise<void> {
+ *     await this.orders.create(order);
+ *   }
  * }
  * ```
  */
-export const RabbitPayload = createParamDecorator(resolveRabbitPayload);
+export function RabbitPayload(): ParameterDecorator;
+export function RabbitPayload(...pipes: (PipeTransform | Type<PipeTransform>)[]): ParameterDecorator;
+export function RabbitPayload(property?: string, ...pipes: (PipeTransform | Type<PipeTransform>)[]): ParameterDecorator;
+export function RabbitPayload(
+    propertyOrPipe?: PipeTransform | string | Type<PipeTransform>,
+    ...pipes: (PipeTransform | Type<PipeTransform>)[]
+): ParameterDecorator {
+    return createRabbitMQParamDecorator(RabbitMQParamtype.PAYLOAD)(propertyOrPipe, ...pipes);
+}
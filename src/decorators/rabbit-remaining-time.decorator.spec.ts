@@ -0,0 +1,15 @@
+import { RabbitRemainingTime, resolveRabbitRemainingTime } from './rabbit-remaining-time.decorator';
+import 'reflect-metadata';
+
+describe('RabbitRemainingTime Decorator', () => {
+    it('should be defined', () => {
+        expect(RabbitRemainingTime).toBeDefined();
+        expect(typeof RabbitRemainingTime).toBe('function');
+    });
+
+    it('should return the remaining time of the RabbitMQ context', () => {
+        const ctx: any = { switchToRpc: () => ({ getContext: () => ({ getRemainingTime: () => 1500 }) }) };
+
+        expect(resolveRabbitRemainingTime(undefined, ctx)).toBe(1500);
+    });
+});
@@ -0,0 +1,33 @@
+import type { ExecutionContext } from '@nestjs/common';
+import { createParamDecorator } from '@nestjs/common';
+
+import type { RabbitMQContext } from '../context/rabbitmq.context';
+
+/**
+ * Resolves the time left until the deadline of the RPC request being handled.
+ * This is the internal function used by the RabbitRemainingTime decorator.
+ *
+ * @param {unknown} _data - Unused
+ * @param {ExecutionContext} ctx - The NestJS execution context
+ * @returns {number | undefined} The remaining time in milliseconds, or undefined if the request has no deadline
+ */
+export function resolveRabbitRemainingTime(_data: unknown, ctx: ExecutionContext): number | undefined {
+    return ctx.switchToRpc().getContext<RabbitMQContext>().getRemainingTime();
+}
+
+/**
+ * Parameter decorator injecting the milliseconds left until the caller of an RPC request
+ * stops waiting, as stamped by `RabbitMQService.request()`.
+ * Undefined for messages without a deadline, e.g. those consumed by `@RabbitSubscribe` handlers.
+ *
+ * @returns {ParameterDecorator} A parameter decorator that injects the remaining time
+ *
+ * @example
+ * ```typescript
+ * @RabbitRPC({ queue: 'reports.generate' })
+ * async generate(@RabbitPayload() query: ReportQuery, @RabbitRemainingTime() remaining?: number) {
+ *   return remaining !== undefined && remaining < 1000 ? this.reports.cached(query) : this.reports.generate(query);
+ * }
+ * ```
+ */
+export const RabbitRemainingTime = createParamDecorator(resolveRabbitRemainingTime);
@@ -0,0 +1,29 @@
+/**
+ * Raised by `RabbitMQService.request()` when the request's `signal` is aborted,
+ * and used as the abort reason of a handler's signal when the caller cancels.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await rabbitMQ.request('reports.generate', query, { signal: request.signal });
+ * } catch (error) {
+ *   if (error instanceof AbortError) {
+ *     return; // the HTTP client went away
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class AbortError extends Error {
+    /**
+     * @param {string} [message] - The error message
+     * @param {unknown} [reason] - The abort reason of the signal, if any
+     */
+    constructor(
+        message = 'The operation was aborted',
+        readonly reason?: unknown,
+    ) {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
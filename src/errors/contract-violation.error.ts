@@ -0,0 +1,30 @@
+/**
+ * Raised when a payload does not match its message contract: by `publish()` and `sendToQueue()`
+ * before anything is sent, and by consumers for incoming messages.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await rabbitMQ.publish('orders', 'order.created', { orderId: 42 });
+ * } catch (error) {
+ *   if (error instanceof ContractViolationError) {
+ *     logger.error(`Payload does not match ${error.schemaId}: ${error.errors.join('; ')}`);
+ *   }
+ * }
+ * ```
+ */
+export class ContractViolationError extends Error {
+    /**
+     * @param {string} schemaId - The `<id>@<version>` of the contract
+     * @param {string[]} errors - The reasons the payload is invalid
+     * @param {string} [invalidMessageQueue] - The queue an invalid consumed message was routed to, if any
+     */
+    constructor(
+        readonly schemaId: string,
+        readonly errors: string[],
+        readonly invalidMessageQueue?: string,
+    ) {
+        super(`Payload does not match contract ${schemaId}: ${errors.join('; ')}`);
+        this.name = 'ContractViolationError';
+    }
+}
@@ -0,0 +1,9 @@
+export * from './contract-violation.error';
+
+export * from './abort.error';
+
+export * from './insufficient-responses.error';
+
+export * from './rpc-remote.error';
+
+export * from './unroutable-message.error';
@@ -0,0 +1,30 @@
+import type { ScatterResponse } from '../interfaces/scatter.interface';
+
+/**
+ * Raised by `RabbitMQService.scatter()` when fewer replies than `minResponses`
+ * arrived within the window. The replies that did arrive are kept on the error.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await rabbitMQ.scatter<Quote>('pricing', 'quote.request', order, { minResponses: 2 });
+ * } catch (error) {
+ *   if (error instanceof InsufficientResponsesError) {
+ *     logger.warn(`Only ${error.responses.length} of ${error.minResponses} pricing engines answered`);
+ *   }
+ * }
+ * ```
+ */
+export class InsufficientResponsesError extends Error {
+    /**
+     * @param {ScatterResponse[]} responses - The replies received within the window
+     * @param {number} minResponses - The number of replies required
+     */
+    constructor(
+        readonly responses: ScatterResponse[],
+        readonly minResponses: number,
+    ) {
+        super(`Received ${responses.length} of at least ${minResponses} responses`);
+        this.name = 'InsufficientResponsesError';
+    }
+}
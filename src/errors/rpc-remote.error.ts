@@ -0,0 +1,46 @@
+import type { RpcErrorReply } from '../interfaces/message-handling.interface';
+
+/**
+ * Raised by `RabbitMQService.request()` when the RPC handler failed and replied with an error.
+ * Carries the name, message, code and details of the remote error.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await rabbitMQ.request('orders.get', { id: 42 });
+ * } catch (error) {
+ *   if (error instanceof RpcRemoteError && error.code === 'ORDER_NOT_FOUND') {
+ *     throw new NotFoundException(error.message);
+ *   }
+ * }
+ * ```
+ */
+export class RpcRemoteError extends Error {
+    /**
+     * @param {string} remoteName - The class name of the error thrown by the handler
+     * @param {string} message - The message of the remote error
+     * @param {number | string} [code] - The application error code, if any
+     * @param {unknown} [details] - Additional details, e.g. validation messages
+     */
+    constructor(
+        readonly remoteName: string,
+        message: string,
+        readonly code?: number | string,
+        readonly details?: unknown,
+    ) {
+        super(message);
+        this.name = 'RpcRemoteError';
+    }
+
+    /**
+     * Creates the error from an RPC error reply.
+     *
+     * @param {RpcErrorReply} reply - The error reply sent by the handler
+     * @returns {RpcRemoteError} The error describing the remote failure
+     */
+    static fromReply(reply: RpcErrorReply): RpcRemoteError {
+        const { code, details, message, name }: Partial<RpcErrorReply['error']> = reply?.error ?? {};
+
+        return new RpcRemoteError(name ?? 'Error', message ?? 'RPC request failed', code, details);
+    }
+}
@@ -0,0 +1,51 @@
+import type { Message } from 'amqplib';
+
+/**
+ * Raised when the broker returns a message published with `mandatory: true`
+ * because no queue is bound to receive it.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await rabbitMQ.publish('events', 'order.created', order, { mandatory: true });
+ * } catch (error) {
+ *   if (error instanceof UnroutableMessageError) {
+ *     logger.warn(`No binding for ${error.exchange}/${error.routingKey} (${error.replyCode})`);
+ *   }
+ * }
+ * ```
+ */
+export class UnroutableMessageError extends Error {
+    /**
+     * @param {string} exchange - The exchange the message was published to
+     * @param {string} routingKey - The routing key the message was published with
+     * @param {number} replyCode - The AMQP reply code of the return, e.g. 312 (NO_ROUTE)
+     * @param {string} replyText - The reply text of the return, e.g. 'NO_ROUTE'
+     */
+    constructor(
+        readonly exchange: string,
+        readonly routingKey: string,
+        readonly replyCode: number,
+        readonly replyText: string,
+    ) {
+        super(`Message to ${exchange || '(default exchange)'}/${routingKey} was returned: ${replyCode} ${replyText}`);
+        this.name = 'UnroutableMessageError';
+    }
+
+    /**
+     * Creates the error from a message returned by the broker.
+     *
+     * @param {Message} message - The returned message
+     * @returns {UnroutableMessageError} The error describing the return
+     */
+    static fromReturnedMessage(message: Message): UnroutableMessageError {
+        const fields = message.fields as Message['fields'] & { replyCode?: number; replyText?: string };
+
+        return new UnroutableMessageError(
+            fields.exchange,
+            fields.routingKey,
+            fields.replyCode ?? 312,
+            fields.replyText ?? 'NO_ROUTE',
+        );
+    }
+}
@@ -0,0 +1,61 @@
+import { defineEvents, event } from './define-events';
+
+import { RABBITMQ_SUBSCRIBE_METADATA } from '../constants';
+
+class OrderCreated {
+    orderId!: string;
+    total!: number;
+}
+
+interface OrderShipped {
+    carrier: string;
+    orderId: string;
+}
+
+describe('defineEvents', () => {
+    const OrderEvents = defineEvents(
+        { 'order.created': OrderCreated, 'order.shipped': event<OrderShipped>() },
+        { exchange: 'orders' },
+    );
+    const { OnEvent } = OrderEvents;
+
+    it('should keep the events and exchange, defaulting to the events exchange', () => {
+        expect(OrderEvents.exchange).toBe('orders');
+        expect(OrderEvents.events['order.created']).toBe(OrderCreated);
+        expect(defineEvents({ 'user.created': event<{ id: string }>() }).exchange).toBe('events');
+    });
+
+    it('should subscribe @OnEvent handlers to the event on the events exchange', () => {
+        class Billing {
+            @OnEvent('order.created', { idempotency: true, queue: 'billing.order-created' })
+            handleCreated(_order: OrderCreated): void {}
+
+            @OnEvent('order.shipped', { queue: 'billing.order-shipped' })
+            async handleShipped(_shipment: OrderShipped, _message?: unknown): Promise<void> {}
+        }
+
+        expect(Reflect.getMetadata(RABBITMQ_SUBSCRIBE_METADATA, Billing.prototype.handleCreated)).toEqual({
+            exchange: 'orders',
+            idempotency: true,
+            queue: 'billing.order-created',
+            routingKey: 'order.created',
+        });
+        expect(Reflect.getMetadata(RABBITMQ_SUBSCRIBE_METADATA, Billing.prototype.handleShipped)).toMatchObject({
+            routingKey: 'order.shipped',
+        });
+    });
+
+    it('should reject handlers whose payload parameter does not match the event at compile time', () => {
+        class Mismatched {
+            // @ts-expect-error the payload of order.shipped is not a number
+            @OnEvent('order.shipped', { queue: 'q' })
+            handle(_shipment: number): void {}
+
+            // @ts-expect-error unknown event
+            @OnEvent('order.cancelled', { queue: 'q' })
+            handleUnknown(_payload: unknown): void {}
+        }
+
+        expect(Mismatched).toBeDefined();
+    });
+});
@@ -0,0 +1,63 @@
+import { RabbitSubscribe } from '../decorators/rabbit-subscribe.decorator';
+
+import type {
+    DefineEventsOptions,
+    EventMap,
+    EventPayload,
+    EventsDefinition,
+    EventType,
+    OnEventDecorator,
+} from '../interfaces/events.interface';
+
+const DEFAULT_EVENTS_EXCHANGE = 'events';
+
+/**
+ * Declares the payload type of an event whose payload is an interface or type alias.
+ *
+ * @returns {EventType<T>} A marker carrying the payload type
+ *
+ * @example
+ * ```typescript
+ * defineEvents({ 'order.shipped': event<{ orderId: string; carrier: string }>() });
+ * ```
+ */
+export function event<T>(): EventType<T> {
+    return {};
+}
+
+/**
+ * Defines events once, linking each routing key to its payload type.
+ * The definition yields a typed `@OnEvent()` decorator, and a typed publisher
+ * through `RabbitMQService.getEventPublisher()`.
+ * Assert the exchange, e.g. with the module `exchanges` option.
+ *
+ * @param {E} events - Payload types keyed by routing key: classes, or `event<T>()` for interfaces
+ * @param {DefineEventsOptions} [options] - The exchange of the events
+ * @returns {EventsDefinition<E>} The events definition
+ *
+ * @example
+ * ```typescript
+ * export const OrderEvents = defineEvents(
+ *   { 'order.created': OrderCreated, 'order.shipped': event<OrderShipped>() },
+ *   { exchange: 'orders' },
+ * );
+ * export const { OnEvent } = OrderEvents;
+ *
+ * await rabbitMQ.getEventPublisher(OrderEvents).publish('order.created', { orderId: '42' });
+ *
+ * @OnEvent('order.created', { queue: 'billing.order-created' })
+ * async handleOrderCreated(order: OrderCreated) {}
+ * ```
+ */
+export function defineEvents<E extends EventMap>(events: E, options: DefineEventsOptions = {}): EventsDefinition<E> {
+    const exchange = options.exchange ?? DEFAULT_EVENTS_EXCHANGE;
+
+    return {
+        events,
+        exchange,
+        OnEvent: (name, subscribeOptions) =>
+            RabbitSubscribe({ ...subscribeOptions, exchange, routingKey: name }) as OnEventDecorator<
+                EventPayload<E, typeof name>
+            >,
+    };
+}
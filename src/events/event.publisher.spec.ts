@@ -0,0 +1,40 @@
+import { defineEvents, event } from './define-events';
+import { EventPublisher } from './event.publisher';
+
+import type { RabbitMQService } from '../services/rabbitmq.service';
+
+describe('EventPublisher', () => {
+    const OrderEvents = defineEvents(
+        { 'order.created': event<{ orderId: string }>(), 'order.shipped': event<{ carrier: string }>() },
+        { exchange: 'orders' },
+    );
+    let rabbitService: { publish: jest.Mock };
+    let publisher: EventPublisher<typeof OrderEvents.events>;
+
+    beforeEach(() => {
+        rabbitService = { publish: jest.fn().mockResolvedValue(true) };
+        publisher = new EventPublisher(rabbitService as unknown as RabbitMQService, OrderEvents);
+    });
+
+    it('should publish events to the events exchange with the event name as routing key', async () => {
+        await expect(publisher.publish('order.created', { orderId: '42' }, { priority: 5 })).resolves.toBe(true);
+
+        expect(rabbitService.publish).toHaveBeenCalledWith(
+            'orders',
+            'order.created',
+            { orderId: '42' },
+            { priority: 5 },
+        );
+    });
+
+    it('should reject payloads that do not match the event at compile time', async () => {
+        // @ts-expect-error orderId is a string
+        await publisher.publish('order.created', { orderId: 42 });
+        // @ts-expect-error the payload of order.shipped has no orderId
+        await publisher.publish('order.shipped', { orderId: '42' });
+        // @ts-expect-error unknown event
+        await publisher.publish('order.cancelled', {});
+
+        expect(rabbitService.publish).toHaveBeenCalledTimes(3);
+    });
+});
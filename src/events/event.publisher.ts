@@ -0,0 +1,43 @@
+import {
+    EventMap,
+    EventName,
+    EventPayload,
+    EventsDefinition,
+    TypedEventPublisher,
+} from '../interfaces/events.interface';
+import { PublishOptions } from '../interfaces/rabbitmq-options.interface';
+
+import type { RabbitMQService } from '../services/rabbitmq.service';
+
+/**
+ * Publishes the events of a definition to its exchange, with the event name as routing key.
+ * Obtained from `RabbitMQService.getEventPublisher()`.
+ *
+ * @example
+ * ```typescript
+ * const orderEvents = rabbitMQ.getEventPublisher(OrderEvents);
+ *
+ * await orderEvents.publish('order.created', { orderId: '42', total: 99 });
+ * await orderEvents.publish('order.created', { orderId: 42 }); // compile error: orderId is a string
+ * ```
+ */
+export class EventPublisher<E extends EventMap> implements TypedEventPublisher<E> {
+    /**
+     * Creates an instance of EventPublisher.
+     *
+     * @param {RabbitMQService} rabbitService - The service events are published through
+     * @param {EventsDefinition<E>} definition - The events and their exchange
+     */
+    constructor(
+        private readonly rabbitService: RabbitMQService,
+        private readonly definition: EventsDefinition<E>,
+    ) {}
+
+    async publish<K extends EventName<E>>(
+        event: K,
+        payload: EventPayload<E, K>,
+        options?: PublishOptions,
+    ): Promise<boolean> {
+        return this.rabbitService.publish(this.definition.exchange, event, payload, options);
+    }
+}
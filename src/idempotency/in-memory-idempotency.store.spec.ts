@@ -0,0 +1,61 @@
+import { IdempotencyClaim } from '../interfaces/idempotency.interface';
+
+import { InMemoryIdempotencyStore } from './in-memory-idempotency.store';
+
+describe('InMemoryIdempotencyStore', () => {
+    let store: InMemoryIdempotencyStore;
+
+    beforeEach(() => {
+        store = new InMemoryIdempotencyStore({ maxSize: 2 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should claim a key only once while it is being processed', async () => {
+        await expect(store.claim('orders:1', 1000)).resolves.toBe(IdempotencyClaim.CLAIMED);
+        await expect(store.claim('orders:1', 1000)).resolves.toBe(IdempotencyClaim.PROCESSING);
+    });
+
+    it('should report a key marked processed until its TTL has passed', async () => {
+        jest.useFakeTimers();
+
+        await store.claim('orders:1', 1000);
+        await store.markProcessed('orders:1', 5000);
+        jest.advanceTimersByTime(1000);
+
+        await expect(store.claim('orders:1', 1000)).resolves.toBe(IdempotencyClaim.PROCESSED);
+
+        jest.advanceTimersByTime(4000);
+
+        await expect(store.claim('orders:1', 1000)).resolves.toBe(IdempotencyClaim.CLAIMED);
+    });
+
+    it('should claim a key again once its lease has expired', async () => {
+        jest.useFakeTimers();
+
+        await store.claim('orders:1', 1000);
+        jest.advanceTimersByTime(1000);
+
+        await expect(store.claim('orders:1', 1000)).resolves.toBe(IdempotencyClaim.CLAIMED);
+    });
+
+    it('should claim a key again once released', async () => {
+        await store.claim('orders:1', 1000);
+        await store.release('orders:1');
+
+        await expect(store.claim('orders:1', 1000)).resolves.toBe(IdempotencyClaim.CLAIMED);
+    });
+
+    it('should evict the least recently seen key when full', async () => {
+        await store.claim('orders:1', 1000);
+        await store.claim('orders:2', 1000);
+        await store.claim('orders:1', 1000);
+        await store.claim('orders:3', 1000);
+
+        expect(store.size()).toBe(2);
+        await expect(store.claim('orders:1', 1000)).resolves.toBe(IdempotencyClaim.PROCESSING);
+        await expect(store.claim('orders:2', 1000)).resolves.toBe(IdempotencyClaim.CLAIMED);
+    });
+});
@@ -0,0 +1,86 @@
+import { IdempotencyClaim, IdempotencyStore } from '../interfaces/idempotency.interface';
+
+/**
+ * Options for `InMemoryIdempotencyStore`.
+ */
+export interface InMemoryIdempotencyStoreOptions {
+    /**
+     * Maximum number of keys kept; the least recently seen keys are evicted first.
+     * @default 10000
+     */
+    maxSize?: number;
+}
+
+/**
+ * Idempotency store keeping claimed and processed keys in process memory, as an LRU with per-key expiry.
+ * Only deduplicates deliveries to the same process and forgets keys on restart;
+ * implement `IdempotencyStore` on shared storage to deduplicate across instances.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   idempotencyStore: new InMemoryIdempotencyStore({ maxSize: 50000 }),
+ * });
+ * ```
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+    private readonly entries = new Map<string, { expiresAt: number; state: IdempotencyClaim }>();
+    private readonly maxSize: number;
+
+    /**
+     * Creates an instance of InMemoryIdempotencyStore.
+     *
+     * @param {InMemoryIdempotencyStoreOptions} [options] - The store capacity
+     */
+    constructor(options: InMemoryIdempotencyStoreOptions = {}) {
+        this.maxSize = options.maxSize ?? 10000;
+    }
+
+    async claim(key: string, leaseDuration: number): Promise<IdempotencyClaim> {
+        const now = Date.now();
+        const entry = this.entries.get(key);
+
+        if (entry && entry.expiresAt > now) {
+            this.set(key, entry);
+
+            return entry.state;
+        }
+
+        this.set(key, { expiresAt: now + leaseDuration, state: IdempotencyClaim.PROCESSING });
+
+        return IdempotencyClaim.CLAIMED;
+    }
+
+    async markProcessed(key: string, ttl: number): Promise<void> {
+        this.set(key, { expiresAt: Date.now() + ttl, state: IdempotencyClaim.PROCESSED });
+    }
+
+    async release(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Returns the number of keys currently held, including expired ones not yet evicted.
+     *
+     * @returns {number} The number of keys
+     */
+    size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Stores the entry of a key as the most recently seen one, evicting the least recently seen keys when full.
+     *
+     * @private
+     */
+    private set(key: string, entry: { expiresAt: number; state: IdempotencyClaim }): void {
+        // Re-inserting moves the key to the most recently seen end of the map
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+}
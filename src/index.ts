@@ -1,27 +1,79 @@
 // Constants
 export * from './constants';
 
+// Contracts
+export * from './contracts';
+
+// Context
+export * from './context/rabbitmq.context';
+
 // Decorators
 export * from './decorators';
 
+// Errors
+export * from './errors';
+
+// Events
+export * from './events';
+
 // Health
 export * from './health/rabbitmq.health';
 
+// Idempotency
+export * from './idempotency';
+
 // Interfaces
 export type * from './interfaces/rabbitmq-options.interface';
 
+export * from './interfaces/compression.interface';
+
+export type * from './interfaces/contract.interface';
+
+export * from './interfaces/dead-letter-replay.interface';
+
+export type * from './interfaces/events.interface';
+
+export * from './interfaces/idempotency.interface';
+
+export * from './interfaces/message-handling.interface';
+
+export * from './interfaces/outbox.interface';
+
+export * from './interfaces/publish-batch.interface';
+
+export type * from './interfaces/rabbitmq-client.interface';
+
+export type * from './interfaces/rabbitmq-server.interface';
+
+export type * from './interfaces/scatter.interface';
+
+export type * from './interfaces/serializer.interface';
+
 export * from './interfaces/service-discovery.interface';
 
+export type * from './interfaces/upcaster.interface';
+
+// Outbox
+export * from './outbox';
+
 export * from './rabbitmq-core.module';
 
 // Main exports
 export * from './rabbitmq.module';
 
+// Serializers
+export * from './serializers';
+
 // Services
 export * from './services/rabbitmq.service';
 
 export * from './services/service-discovery.service';
 
+// Upcasting
+export * from './upcasting';
+
 // Utilities
+export * from './utils/deadline-utils';
+
 export * from './utils/log-utils';
 // trigger build
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Payload compression interfaces.
+ * Defines the compression algorithms and options applied to published payloads.
+ */
+
+/**
+ * Compression algorithm of a payload.
+ * Values are the `contentEncoding` tokens stamped on compressed messages.
+ */
+export enum CompressionAlgorithm {
+    /** Brotli, the best ratio for text payloads at a higher CPU cost */
+    BROTLI = 'br',
+
+    /** Zlib-wrapped deflate, as in HTTP `Content-Encoding: deflate` */
+    DEFLATE = 'deflate',
+
+    /** Gzip, the most widely supported */
+    GZIP = 'gzip',
+}
+
+/**
+ * Options for compressing published payloads.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   compression: { algorithm: CompressionAlgorithm.BROTLI, level: 5, threshold: 16 * 1024 },
+ * });
+ * ```
+ */
+export interface CompressionOptions {
+    /** The compression algorithm */
+    algorithm: CompressionAlgorithm;
+
+    /**
+     * Compression level: 0-9 for gzip and deflate, 0-11 (quality) for brotli.
+     * @default zlib's default for the algorithm
+     */
+    level?: number;
+
+    /**
+     * Serialized payloads smaller than this many bytes are sent uncompressed.
+     * @default 1024
+     */
+    threshold?: number;
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Message contract interfaces.
+ * Defines the schemas payloads are validated against, and how contracts are bound to queues and routing keys.
+ */
+
+/**
+ * Validates payloads with custom logic, e.g. Ajv or class-validator.
+ *
+ * @example
+ * ```typescript
+ * // class-validator
+ * const schema: ContractValidator = {
+ *   validate: async (value) =>
+ *     (await validate(plainToInstance(OrderCreatedDto, value))).flatMap((error) =>
+ *       Object.values(error.constraints ?? {}),
+ *     ),
+ * };
+ * ```
+ */
+export interface ContractValidator {
+    /** Returns the reasons the value is invalid; an empty array if it is valid */
+    validate(value: unknown): Promise<string[]> | string[];
+}
+
+/**
+ * The subset of JSON Schema validated by the built-in `JsonSchemaValidator`.
+ * Other keywords, e.g. `$ref` or `format`, are ignored; plug a {@link ContractValidator} (e.g. Ajv) for full support.
+ */
+export interface JsonSchema {
+    [keyword: string]: unknown;
+    additionalProperties?: boolean | JsonSchema;
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    const?: unknown;
+    enum?: unknown[];
+    exclusiveMaximum?: number;
+    exclusiveMinimum?: number;
+    items?: JsonSchema;
+    maximum?: number;
+    maxItems?: number;
+    maxLength?: number;
+    minimum?: number;
+    minItems?: number;
+    minLength?: number;
+    not?: JsonSchema;
+    oneOf?: JsonSchema[];
+    pattern?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    type?: JsonSchemaType | JsonSchemaType[];
+}
+
+/**
+ * A JSON Schema `type` keyword value.
+ */
+export type JsonSchemaType = 'array' | 'boolean' | 'integer' | 'null' | 'number' | 'object' | 'string';
+
+/**
+ * A schema exposing `safeParse`, e.g. a Zod schema.
+ */
+export interface SafeParseSchema {
+    safeParse(value: unknown): {
+        error?: { issues?: Array<{ message: string; path?: PropertyKey[] }>; message?: string };
+        success: boolean;
+    };
+}
+
+/**
+ * The schema of a message contract: a JSON Schema, a Zod-style schema or a custom validator.
+ */
+export type ContractSchema = ContractValidator | JsonSchema | SafeParseSchema;
+
+/**
+ * A payload contract, as declared by `@MessageContract()`.
+ */
+export interface MessageContractOptions {
+    /**
+     * Identifies the contract in the `x-schema-id` header, as `<id>@<version>`.
+     * @default the routing key, else the queue
+     */
+    id?: string;
+
+    /** Queue receiving invalid messages, overriding the module-level `invalidMessageQueue` */
+    invalidMessageQueue?: string;
+
+    /** The schema payloads must match */
+    schema: ContractSchema;
+
+    /** Version of the schema, stamped in the `x-schema-id` header */
+    version: number | string;
+}
+
+/**
+ * A payload contract bound to a queue, or to a routing key (optionally of one exchange).
+ * Routing keys may be topic patterns such as `order.*`.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   exchange: 'orders',
+ *   routingKey: 'order.created',
+ *   schema: { type: 'object', required: ['orderId'], properties: { orderId: { type: 'string' } } },
+ *   version: 2,
+ * }
+ * ```
+ */
+export interface MessageContractDefinition extends MessageContractOptions {
+    /** Restricts the routing key match to messages published to this exchange */
+    exchange?: string;
+
+    /** Messages sent to or consumed from this queue must match the contract */
+    queue?: string;
+
+    /** Messages published with a routing key matching this one must match the contract */
+    routingKey?: string;
+}
+
+/**
+ * Module options enabling message contracts.
+ * Publishers validate payloads and stamp `x-schema-id`; consumers validate incoming messages.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   contracts: {
+ *     definitions: [{ routingKey: 'order.created', schema: orderCreatedSchema, version: 2 }],
+ *     invalidMessageQueue: 'invalid-messages',
+ *   },
+ * });
+ * ```
+ */
+export interface ContractsOptions {
+    /** Contracts known to the connection, in addition to those declared by `@MessageContract()` */
+    definitions?: MessageContractDefinition[];
+
+    /**
+     * Queue receiving consumed messages that do not match their contract, with the reasons in `x-contract-errors`.
+     * Without one, invalid messages fail like validation errors (see `validationErrorDisposition`).
+     */
+    invalidMessageQueue?: string;
+}
+
+/**
+ * Where a message is published to or consumed from, used to look up its contract.
+ */
+export interface ContractTarget {
+    exchange?: string;
+    queue?: string;
+    routingKey?: string;
+}
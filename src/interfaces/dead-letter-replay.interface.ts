@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Dead-letter replay interfaces.
+ * Defines the options and report of `RabbitMQService.replayDeadLetters()`.
+ */
+
+import type { GetMessage } from 'amqplib';
+
+/**
+ * Outcome of a single message during a dead-letter replay.
+ */
+export interface DeadLetterReplayEntry {
+    /** Error message if the message could not be replayed */
+    error?: string;
+
+    /** Exchange the message was (or would be) republished to */
+    exchange?: string;
+
+    /** The message id, if the message has one */
+    messageId?: string;
+
+    /** Routing key the message was (or would be) republished with */
+    routingKey?: string;
+
+    /**
+     * What happened to the message.
+     * - `replayed`: republished and removed from the DLQ (or would be, on a dry run)
+     * - `skipped`: rejected by the filter and left in the DLQ
+     * - `failed`: could not be republished and left in the DLQ
+     */
+    status: 'failed' | 'replayed' | 'skipped';
+}
+
+/**
+ * Options for `RabbitMQService.replayDeadLetters()`.
+ *
+ * @example
+ * ```typescript
+ * const report = await rabbitMQ.replayDeadLetters('orders.dlq', {
+ *   limit: 100,
+ *   filter: (payload, message) => message.properties.headers?.['x-failure-reason'] !== 'Invalid order',
+ *   dryRun: true,
+ * });
+ * ```
+ */
+export interface ReplayDeadLettersOptions {
+    /**
+     * Report what would be replayed without republishing anything.
+     * All inspected messages stay in the DLQ.
+     * @default false
+     */
+    dryRun?: boolean;
+
+    /** Decides which messages to replay; rejected messages stay in the DLQ */
+    filter?: (payload: unknown, message: GetMessage) => boolean | Promise<boolean>;
+
+    /**
+     * Maximum number of messages to take from the DLQ.
+     * @default undefined (drain the queue)
+     */
+    limit?: number;
+
+    /** Exchange to republish to instead of the original one */
+    targetExchange?: string;
+
+    /** Routing key to republish with instead of the original one */
+    targetRoutingKey?: string;
+
+    /** Returns the payload to republish; the original content is kept when omitted */
+    transform?: (payload: unknown, message: GetMessage) => unknown;
+}
+
+/**
+ * Summary of a dead-letter replay.
+ */
+export interface ReplayDeadLettersResult {
+    /** Whether this was a dry run */
+    dryRun: boolean;
+
+    /** Per-message outcomes, in the order the messages were taken */
+    entries: DeadLetterReplayEntry[];
+
+    /** Number of messages that could not be replayed */
+    failed: number;
+
+    /** Number of messages taken from the DLQ */
+    inspected: number;
+
+    /** Number of messages replayed (or that would be, on a dry run) */
+    replayed: number;
+
+    /** Number of messages rejected by the filter */
+    skipped: number;
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Typed event interfaces.
+ * Defines event maps linking routing keys to payload types, and the typed publisher and `@OnEvent()` built from them.
+ */
+
+import type { PublishOptions, RabbitSubscribeOptions } from './rabbitmq-options.interface';
+
+/**
+ * Marks the payload type of an event declared with `event<T>()`, for payloads that are interfaces or type aliases.
+ * Carries no runtime value.
+ */
+export interface EventType<T> {
+    readonly __payload?: T;
+}
+
+/**
+ * Declares the payload type of an event: a class, whose instances are the payloads, or `event<T>()`.
+ */
+export type EventDeclaration<T = any> = (abstract new (...args: any[]) => T) | EventType<T>;
+
+/**
+ * Maps routing keys to the payload types of their events.
+ */
+export type EventMap = Record<string, EventDeclaration>;
+
+/**
+ * The routing keys of an event map.
+ */
+export type EventName<E extends EventMap> = Extract<keyof E, string>;
+
+/**
+ * The payload type of an event.
+ *
+ * @example
+ * ```typescript
+ * type Created = EventPayload<typeof OrderEvents.events, 'order.created'>; // OrderCreated
+ * ```
+ */
+export type EventPayload<E extends EventMap, K extends keyof E> = E[K] extends abstract new (...args: any[]) => infer T
+    ? T
+    : E[K] extends EventType<infer T>
+      ? T
+      : never;
+
+/**
+ * Options of `defineEvents()`.
+ */
+export interface DefineEventsOptions {
+    /**
+     * The exchange events are published to and subscribed from.
+     * @default 'events'
+     */
+    exchange?: string;
+}
+
+/**
+ * Options of `@OnEvent()`; the exchange and routing key come from the event definition.
+ */
+export type OnEventOptions = Omit<RabbitSubscribeOptions, 'exchange' | 'routingKey'>;
+
+/**
+ * A method decorator accepting only handlers whose first parameter takes the payload of its event.
+ */
+export type OnEventDecorator<T> = (
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: TypedPropertyDescriptor<(payload: T, ...args: any[]) => unknown>,
+) => void;
+
+/**
+ * Events defined with `defineEvents()`: their exchange, their payload types and a typed `@OnEvent()`.
+ */
+export interface EventsDefinition<E extends EventMap> {
+    /** The exchange events are published to */
+    readonly exchange: string;
+
+    /** The event map, keyed by routing key */
+    readonly events: E;
+
+    /**
+     * Subscribes the decorated method to an event, like `@RabbitSubscribe()` on the events exchange
+     * with the event name as routing key. The handler's payload parameter is checked against the event's type.
+     *
+     * @example
+     * ```typescript
+     * @OnEvent('order.created', { queue: 'billing.order-created' })
+     * async handleOrderCreated(order: OrderCreated) {}
+     * ```
+     */
+    OnEvent<K extends EventName<E>>(event: K, options: OnEventOptions): OnEventDecorator<EventPayload<E, K>>;
+}
+
+/**
+ * Publishes the events of a definition, checking each payload against its event's type.
+ */
+export interface TypedEventPublisher<E extends EventMap> {
+    /**
+     * Publishes an event to the events exchange, with the event name as routing key.
+     *
+     * @returns {Promise<boolean>} True once the broker confirmed the message
+     */
+    publish<K extends EventName<E>>(event: K, payload: EventPayload<E, K>, options?: PublishOptions): Promise<boolean>;
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Idempotent consumer interfaces.
+ * Defines the options and the pluggable store used to skip duplicate deliveries.
+ */
+
+import type { ConsumeMessage } from 'amqplib';
+
+/**
+ * Options for skipping messages a subscriber has already processed.
+ *
+ * @example
+ * ```typescript
+ * @RabbitSubscribe({
+ *   queue: 'orders',
+ *   idempotency: {
+ *     key: (message) => message.properties.headers?.['x-order-id'],
+ *     ttl: 60 * 60 * 1000,
+ *   },
+ * })
+ * async handleOrder(order: Order): Promise<void> {}
+ * ```
+ */
+export interface IdempotencyOptions {
+    /**
+     * Extracts the deduplication key from a message.
+     * Messages without a key are always processed.
+     * @default (message) => message.properties.messageId
+     */
+    key?: (message: ConsumeMessage) => string | undefined;
+
+    /**
+     * How long a message is claimed while its handler runs, in milliseconds.
+     * Duplicates delivered meanwhile are requeued; once the lease expires, e.g. because the
+     * consumer crashed mid-handler, the next delivery is processed. Should exceed the longest handler run.
+     * @default 30000 (30 seconds)
+     */
+    leaseDuration?: number;
+
+    /**
+     * Store recording processed keys.
+     * Overrides the module-level `idempotencyStore`.
+     * @default an InMemoryIdempotencyStore shared by the connection
+     */
+    store?: IdempotencyStore;
+
+    /**
+     * How long a processed key is remembered, in milliseconds.
+     * @default 86400000 (24 hours)
+     */
+    ttl?: number;
+}
+
+/**
+ * State of a key returned by `IdempotencyStore.claim()`.
+ */
+export enum IdempotencyClaim {
+    /** The key was free and is now claimed for processing */
+    CLAIMED = 'claimed',
+
+    /** Another delivery holds an unexpired claim on the key */
+    PROCESSING = 'processing',
+
+    /** A delivery with the key was processed */
+    PROCESSED = 'processed',
+}
+
+/**
+ * Persistence recording which messages are being processed and which have been processed.
+ * Implement this on Redis (`SET key processing NX PX lease`) or a table with a unique key
+ * to deduplicate across instances, or use `InMemoryIdempotencyStore`.
+ */
+export interface IdempotencyStore {
+    /**
+     * Claims a key for processing unless it is claimed or processed already.
+     * The claim expires after `leaseDuration` unless the key is marked processed or released first.
+     * Must be atomic so that concurrent deliveries of one message claim it only once.
+     *
+     * @returns {@link IdempotencyClaim.CLAIMED} if the key was claimed now, else its current state
+     */
+    claim(key: string, leaseDuration: number): Promise<IdempotencyClaim>;
+
+    /** Records a claimed key as processed for `ttl` milliseconds, so later deliveries are skipped */
+    markProcessed(key: string, ttl: number): Promise<void>;
+
+    /** Forgets a key, so the message is processed again when redelivered */
+    release(key: string): Promise<void>;
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Message handling interfaces.
+ * Defines how consumed messages are settled when handling does not complete normally.
+ */
+
+/**
+ * Outcome applied to a consumed message.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   validationErrorDisposition: MessageDisposition.REQUEUE,
+ * });
+ * ```
+ */
+export enum MessageDisposition {
+    /** Acknowledge the message and drop it */
+    ACK = 'ack',
+
+    /** Reject the message without requeue (routes to the dead letter exchange if configured) */
+    NACK = 'nack',
+
+    /**
+     * Reply to the RPC caller with an error and acknowledge the request.
+     * Only applies to `@RabbitRPC` requests carrying `replyTo`; behaves like `NACK` otherwise.
+     */
+    REPLY = 'reply',
+
+    /** Reject the message and put it back on the queue */
+    REQUEUE = 'requeue',
+}
+
+/**
+ * Reply body sent to an RPC caller whose request failed.
+ * Marked with the `x-rpc-error` header; `request()` rejects with an `RpcRemoteError` carrying these fields.
+ *
+ * @example
+ * ```typescript
+ * { error: { code: 'ORDER_NOT_FOUND', message: 'Order 42 not found', name: 'OrderNotFoundError' } }
+ * ```
+ */
+export interface RpcErrorReply {
+    error: {
+        /** Application error code, taken from the error's `code` property */
+        code?: number | string;
+
+        /** Additional details, e.g. the response of an `HttpException` */
+        details?: unknown;
+
+        /** The error message */
+        message: string;
+
+        /** The error class name */
+        name: string;
+    };
+}
+
+/**
+ * What happens to `request()` calls still waiting for a reply when the RPC channel reconnects.
+ * Replies to requests sent before the reconnect are lost with the old channel.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   rpcReconnectPolicy: RpcReconnectPolicy.RETRY,
+ * });
+ * ```
+ */
+export enum RpcReconnectPolicy {
+    /** Reject the request right away instead of waiting for its timeout */
+    FAIL = 'fail',
+
+    /** Send the request again with the same correlation id; only for idempotent handlers */
+    RETRY = 'retry',
+}
+
+/**
+ * Kind of a streamed RPC reply, sent in the `x-rpc-stream-frame` header.
+ * A stream is a series of `CHUNK` replies ended by an `END` reply or an error reply.
+ */
+export enum RpcStreamFrame {
+    /** A value emitted by the handler */
+    CHUNK = 'chunk',
+
+    /** The handler completed; carries no value */
+    END = 'end',
+}
+
+/**
+ * Flow control of a streamed RPC reply, opened by the handler side of `requestStream()`.
+ * The caller grants one credit per reply it consumed on `queue`; the handler takes one
+ * before sending each reply.
+ * @internal
+ */
+export interface RpcStreamCredit {
+    /** Stops receiving credit and deletes the credit queue */
+    close: () => Promise<void>;
+
+    /** Queue the caller grants credit on, advertised in the replies */
+    queue: string;
+
+    /**
+     * Waits for credit and takes it. Resolves to false, without taking credit, once the caller
+     * stopped consuming, `signal` is aborted or `deadline` (epoch milliseconds) has passed.
+     */
+    waitForCredit: (signal: AbortSignal, deadline?: number) => Promise<boolean>;
+}
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Transactional outbox interfaces.
+ * Defines the outbox message record, the pluggable store contract and the relay options.
+ */
+
+import type { RetryOptions } from './rabbitmq-options.interface';
+import type { Options } from 'amqplib';
+
+/**
+ * Delivery state of an outbox message.
+ */
+export enum OutboxMessageStatus {
+    /** Gave up after exhausting the relay's attempts; holds back the later messages of its aggregate key */
+    FAILED = 'failed',
+    /** Waiting to be published by the relay */
+    PENDING = 'pending',
+    /** Published and confirmed by the broker */
+    SENT = 'sent',
+}
+
+/**
+ * Outcome of a failed relay attempt, recorded on the outbox message.
+ */
+export interface OutboxFailure {
+    /** Total attempts made so far */
+    attempts: number;
+
+    /** Why the last attempt failed */
+    lastError: string;
+
+    /** When to try again; undefined marks the message as permanently failed */
+    nextAttemptAt?: Date;
+}
+
+/**
+ * A message waiting in (or delivered from) the outbox.
+ */
+export interface OutboxMessage {
+    /**
+     * Messages sharing an aggregate key are published in the order they were written,
+     * and a failing message holds back the later ones.
+     */
+    aggregateKey?: string;
+
+    /** Number of publish attempts made by the relay */
+    attempts: number;
+
+    /** The payload, serialized and compressed when it was written */
+    content: Buffer;
+
+    /** The content type of `content`, selecting the serializer of consumers */
+    contentType?: string;
+
+    /** When the message was written */
+    createdAt: Date;
+
+    /** The exchange to publish to */
+    exchange: string;
+
+    /** Unique identifier of the outbox record */
+    id: string;
+
+    /** Why the last attempt failed, if any */
+    lastError?: string;
+
+    /** Earliest time the relay may (re)try the message */
+    nextAttemptAt: Date;
+
+    /** Message properties the relay publishes with, e.g. `messageId`, `headers` and `contentEncoding` */
+    options?: Options.Publish;
+
+    /** The routing key to publish with */
+    routingKey: string;
+
+    /** Delivery state */
+    status: OutboxMessageStatus;
+}
+
+/**
+ * Module options enabling the transactional outbox.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   outbox: {
+ *     store: new SqlOutboxStore({ client: pgClient }),
+ *     relay: { pollInterval: 500, retry: { maxAttempts: 20, maxDelay: 60000 } },
+ *   },
+ * });
+ * ```
+ */
+export interface OutboxOptions {
+    /**
+     * Relay that publishes pending outbox messages.
+     * Set to `false` when another process relays the same store.
+     * @default true
+     */
+    relay?: boolean | OutboxRelayOptions;
+
+    /** Where outbox messages are written */
+    store: OutboxStore;
+}
+
+/**
+ * Options for writing a message to the outbox.
+ */
+export interface OutboxPublishOptions {
+    /** Publishes messages with the same key in order */
+    aggregateKey?: string;
+
+    /** Transaction handle passed through to the store, e.g. a database client in a transaction */
+    transaction?: unknown;
+}
+
+/**
+ * Options for the outbox relay.
+ */
+export interface OutboxRelayOptions {
+    /**
+     * Maximum number of pending messages read per poll.
+     * @default 100
+     */
+    batchSize?: number;
+
+    /**
+     * Delay between polls of the store, in milliseconds.
+     * @default 1000
+     */
+    pollInterval?: number;
+
+    /**
+     * Backoff between attempts of a message that failed to publish.
+     * `parkingQueue` does not apply; exhausted messages are marked failed in the store.
+     * @default { maxAttempts: 10 }
+     */
+    retry?: Omit<RetryOptions, 'parkingQueue'>;
+}
+
+/**
+ * Persistence used by the transactional outbox.
+ * Implement this for your database, or use `InMemoryOutboxStore` / `SqlOutboxStore`.
+ */
+export interface OutboxStore {
+    /**
+     * Saves new messages.
+     * Must write through `transaction` when one is given, so messages commit with the caller's changes.
+     */
+    add(messages: OutboxMessage[], transaction?: unknown): Promise<void>;
+
+    /**
+     * Claims up to `limit` pending messages whose `nextAttemptAt` has passed, oldest first.
+     * A message with an aggregate key is only claimed once every earlier unsent message of the key is claimed with it,
+     * so one waiting for its next attempt, failed or claimed by another relay holds back the later ones.
+     * Stores shared by several relays must not hand the same message to two of them at once.
+     */
+    claimPending(limit: number): Promise<OutboxMessage[]>;
+
+    /** Records a failed attempt */
+    markFailed(id: string, failure: OutboxFailure): Promise<void>;
+
+    /** Marks a message as published */
+    markSent(id: string): Promise<void>;
+}
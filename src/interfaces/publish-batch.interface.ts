@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Batch publishing interfaces.
+ * Defines the items, options and report of `RabbitMQService.publishBatch()`.
+ */
+
+import type { PublishOptions } from './rabbitmq-options.interface';
+
+/**
+ * A message to publish as part of a batch.
+ */
+export interface PublishBatchItem {
+    /** The exchange name to publish to */
+    exchange: string;
+
+    /** The message payload (serialized like `publish()` does) */
+    message: unknown;
+
+    /** Additional publish options */
+    options?: PublishOptions;
+
+    /** The routing key for message routing */
+    routingKey: string;
+}
+
+/**
+ * Outcome of a single batch item.
+ */
+export interface PublishBatchItemResult {
+    /** Why the item failed, e.g. a broker nack or an `UnroutableMessageError` */
+    error?: unknown;
+
+    /** Position of the item in the batch */
+    index: number;
+
+    /** Whether the broker confirmed the item */
+    success: boolean;
+}
+
+/**
+ * Options for `RabbitMQService.publishBatch()`.
+ */
+export interface PublishBatchOptions {
+    /**
+     * Maximum number of messages awaiting a broker confirm at once.
+     * Further messages are published as confirms arrive.
+     * @default 1000
+     */
+    maxInFlight?: number;
+}
+
+/**
+ * Summary of a batch publish.
+ *
+ * @example
+ * ```typescript
+ * const report = await rabbitMQ.publishBatch(items);
+ * const failedItems = report.results.filter((result) => !result.success).map(({ index }) => items[index]);
+ * ```
+ */
+export interface PublishBatchResult {
+    /** Number of items that failed */
+    failed: number;
+
+    /** Number of items confirmed by the broker */
+    published: number;
+
+    /** Per-item outcomes, in batch order */
+    results: PublishBatchItemResult[];
+}
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview RabbitMQ client proxy interfaces.
+ * Defines the clients registered with `RabbitMQClientsModule`, Nest `ClientProxy`s backed by `RabbitMQService`.
+ */
+
+import type { PublishOptions } from './rabbitmq-options.interface';
+
+/**
+ * Options of a `RabbitMQClientProxy`.
+ *
+ * @example
+ * ```typescript
+ * const options: RabbitMQClientOptions = { name: 'BILLING', queue: 'billing', exchange: 'orders' };
+ * ```
+ */
+export interface RabbitMQClientOptions {
+    /**
+     * Connection of `RabbitMQModule` the client sends through.
+     * @default 'default'
+     */
+    connectionName?: string;
+
+    /**
+     * Exchange `emit()` publishes events to, with the pattern as routing key.
+     * Without it, events are sent to `queue`.
+     */
+    exchange?: string;
+
+    /** Injection token of the client, e.g. `@Inject('BILLING') client: ClientProxy` */
+    name: string | symbol;
+
+    /** Options of every message the client sends */
+    publishOptions?: PublishOptions;
+
+    /** Queue `send()` sends requests to, and `emit()` events when no `exchange` is set */
+    queue?: string;
+
+    /**
+     * Timeout in milliseconds to wait for the reply to `send()`.
+     * @default 30000 (30 seconds)
+     */
+    timeout?: number;
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Scatter-gather interfaces.
+ * Defines the options and responses of `RabbitMQService.scatter()`.
+ */
+
+import type { PublishOptions } from './rabbitmq-options.interface';
+
+/**
+ * Options for `RabbitMQService.scatter()`.
+ *
+ * @example
+ * ```typescript
+ * const quotes = await rabbitMQ.scatter<Quote>('pricing', 'quote.request', order, {
+ *   timeout: 2000,
+ *   minResponses: 1,
+ *   maxResponses: 5,
+ * });
+ * ```
+ */
+export interface ScatterOptions {
+    /**
+     * Stop collecting as soon as this many replies arrived.
+     * @default undefined (collect until the timeout)
+     */
+    maxResponses?: number;
+
+    /**
+     * Fewer replies than this by the end of the window reject with an `InsufficientResponsesError`.
+     * @default 0
+     */
+    minResponses?: number;
+
+    /** Options for publishing the request message */
+    publishOptions?: PublishOptions;
+
+    /**
+     * Time in milliseconds to collect replies for.
+     * Inside an RPC handler it is capped by the deadline of the request being handled.
+     * @default 5000
+     */
+    timeout?: number;
+}
+
+/**
+ * A reply collected by `RabbitMQService.scatter()`.
+ */
+export interface ScatterResponse<T = unknown> {
+    /** Milliseconds between publishing the request and receiving this reply */
+    elapsed: number;
+
+    /** The error the responder failed with, e.g. an `RpcRemoteError`; `value` is unset */
+    error?: Error;
+
+    /** The queue of the handler that replied, if it sent one */
+    responder?: string;
+
+    /** The reply of a successful responder */
+    value?: T;
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Serializer interfaces.
+ * Defines the codec contract used to encode published payloads and decode consumed ones.
+ */
+
+import type { MessageProperties, Options } from 'amqplib';
+
+/**
+ * A payload encoded for publishing, with the content properties describing it.
+ */
+export interface SerializedMessage {
+    /** The encoded payload */
+    content: Buffer;
+
+    /** The `contentEncoding` property to publish with, if any */
+    contentEncoding?: string;
+
+    /** The `contentType` property to publish with; undefined for content passed through as-is */
+    contentType?: string;
+}
+
+/**
+ * Encodes and decodes message payloads of one content type.
+ * Consumers pick the serializer matching the message `contentType` property,
+ * and publishers stamp `contentType` and `contentEncoding` on what it encodes.
+ *
+ * @example
+ * ```typescript
+ * const yamlSerializer: Serializer = {
+ *   contentType: 'application/yaml',
+ *   deserialize: (content) => yaml.parse(content.toString()),
+ *   serialize: (value) => Buffer.from(yaml.stringify(value)),
+ * };
+ *
+ * RabbitMQModule.forRoot({ uri: 'amqp://localhost', serializers: [yamlSerializer] });
+ * ```
+ */
+export interface Serializer {
+    /** The `contentEncoding` property set on published messages, if any */
+    contentEncoding?: string;
+
+    /** The MIME type this serializer handles, matched case-insensitively without parameters */
+    contentType: string;
+
+    /**
+     * Decodes the content of a consumed message.
+     * `properties` carries e.g. the message `type` for schema-based codecs.
+     */
+    deserialize(content: Buffer, properties?: Partial<MessageProperties>): unknown;
+
+    /**
+     * Encodes a payload for publishing.
+     * `properties` are the publish options, e.g. the message `type` for schema-based codecs.
+     */
+    serialize(value: unknown, properties?: Options.Publish): Buffer;
+}
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Upcaster interfaces.
+ * Defines the functions that migrate consumed payloads of an older version to the next one.
+ */
+
+import type { Message } from 'amqplib';
+
+/**
+ * Migrates a payload of one version to the next.
+ * Receives the decoded payload and the raw message, e.g. to read other headers.
+ */
+export type UpcastFunction = (payload: any, message: Pick<Message, 'content' | 'properties'>) => unknown;
+
+/**
+ * Migrates payloads of a message type from one version to the next.
+ *
+ * @example
+ * ```typescript
+ * // v1 had a single `name`; v2 splits it
+ * const orderCreatedV1: Upcaster = {
+ *   type: 'order.created',
+ *   fromVersion: 1,
+ *   upcast: ({ name, ...order }) => ({ ...order, firstName: name.split(' ')[0], lastName: name.split(' ')[1] }),
+ * };
+ * ```
+ */
+export interface Upcaster {
+    /** The version of the payloads this upcaster accepts; it returns version `fromVersion + 1` */
+    fromVersion: number;
+
+    /** The message `type` property the upcaster applies to */
+    type: string;
+
+    /** Migrates the payload */
+    upcast: UpcastFunction;
+}
@@ -0,0 +1,72 @@
+import { OutboxMessage, OutboxMessageStatus } from '../interfaces/outbox.interface';
+
+import { InMemoryOutboxStore } from './in-memory-outbox.store';
+
+describe('InMemoryOutboxStore', () => {
+    let store: InMemoryOutboxStore;
+
+    const createMessage = (id: string, overrides: Partial<OutboxMessage> = {}): OutboxMessage => ({
+        attempts: 0,
+        content: Buffer.from(id),
+        createdAt: new Date(),
+        exchange: 'events',
+        id,
+        nextAttemptAt: new Date(),
+        routingKey: 'order.created',
+        status: OutboxMessageStatus.PENDING,
+        ...overrides,
+    });
+
+    beforeEach(async () => {
+        store = new InMemoryOutboxStore();
+        await store.add([createMessage('1'), createMessage('2'), createMessage('3')]);
+    });
+
+    it('should claim pending messages in insertion order up to the limit', async () => {
+        const pending = await store.claimPending(2);
+
+        expect(pending.map((message) => message.id)).toEqual(['1', '2']);
+    });
+
+    it('should hold back later messages of a key behind a waiting or failed message', async () => {
+        store = new InMemoryOutboxStore();
+        await store.add([
+            createMessage('1', { aggregateKey: 'order-1', nextAttemptAt: new Date(Date.now() + 60000) }),
+            createMessage('2', { aggregateKey: 'order-1' }),
+            createMessage('3', { aggregateKey: 'order-2', status: OutboxMessageStatus.FAILED }),
+            createMessage('4', { aggregateKey: 'order-2' }),
+            createMessage('5', { aggregateKey: 'order-3' }),
+            createMessage('6'),
+        ]);
+
+        expect((await store.claimPending(10)).map((message) => message.id)).toEqual(['5', '6']);
+    });
+
+    it('should remove sent messages', async () => {
+        await store.markSent('1');
+
+        expect(store.getMessages().map((message) => message.id)).toEqual(['2', '3']);
+    });
+
+    it('should reschedule failed messages while a next attempt is set', async () => {
+        const nextAttemptAt = new Date(Date.now() + 1000);
+
+        await store.markFailed('1', { attempts: 1, lastError: 'Channel closed', nextAttemptAt });
+
+        expect(store.getMessages()[0]).toEqual(
+            expect.objectContaining({
+                attempts: 1,
+                lastError: 'Channel closed',
+                nextAttemptAt,
+                status: OutboxMessageStatus.PENDING,
+            }),
+        );
+    });
+
+    it('should mark messages failed once no next attempt is set', async () => {
+        await store.markFailed('1', { attempts: 10, lastError: 'Channel closed' });
+
+        expect(store.getMessages()[0].status).toBe(OutboxMessageStatus.FAILED);
+        expect((await store.claimPending(10)).map((message) => message.id)).toEqual(['2', '3']);
+    });
+});
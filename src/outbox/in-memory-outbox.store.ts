@@ -0,0 +1,79 @@
+import { OutboxFailure, OutboxMessage, OutboxMessageStatus, OutboxStore } from '../interfaces/outbox.interface';
+
+/**
+ * Outbox store keeping messages in process memory.
+ * Ignores transactions and loses pending messages on restart,
+ * so it suits tests and local development only.
+ * Sent messages are removed; failed ones are kept for inspection.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   outbox: { store: new InMemoryOutboxStore() },
+ * });
+ * ```
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+    private readonly messages = new Map<string, OutboxMessage>();
+
+    async add(messages: OutboxMessage[]): Promise<void> {
+        for (const message of messages) {
+            this.messages.set(message.id, { ...message });
+        }
+    }
+
+    /**
+     * Returns all messages still held by the store, in insertion order.
+     *
+     * @returns {OutboxMessage[]} The pending and failed messages
+     */
+    getMessages(): OutboxMessage[] {
+        return Array.from(this.messages.values(), (message) => ({ ...message }));
+    }
+
+    async claimPending(limit: number): Promise<OutboxMessage[]> {
+        const now = Date.now();
+        const heldKeys = new Set<string>();
+        const claimed: OutboxMessage[] = [];
+
+        for (const message of this.getMessages()) {
+            if (claimed.length >= limit) {
+                break;
+            }
+
+            if (message.aggregateKey !== undefined && heldKeys.has(message.aggregateKey)) {
+                continue;
+            }
+
+            if (message.status === OutboxMessageStatus.PENDING && message.nextAttemptAt.getTime() <= now) {
+                claimed.push(message);
+            } else if (message.aggregateKey !== undefined) {
+                // Waiting or failed: the later messages of its key wait behind it
+                heldKeys.add(message.aggregateKey);
+            }
+        }
+
+        return claimed;
+    }
+
+    async markFailed(id: string, failure: OutboxFailure): Promise<void> {
+        const message = this.messages.get(id);
+
+        if (!message) {
+            return;
+        }
+
+        this.messages.set(id, {
+            ...message,
+            attempts: failure.attempts,
+            lastError: failure.lastError,
+            nextAttemptAt: failure.nextAttemptAt ?? message.nextAttemptAt,
+            status: failure.nextAttemptAt ? OutboxMessageStatus.PENDING : OutboxMessageStatus.FAILED,
+        });
+    }
+
+    async markSent(id: string): Promise<void> {
+        this.messages.delete(id);
+    }
+}
@@ -0,0 +1,7 @@
+export * from './in-memory-outbox.store';
+
+export * from './outbox.publisher';
+
+export * from './outbox.relay';
+
+export * from './sql-outbox.store';
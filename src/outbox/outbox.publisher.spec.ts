@@ -0,0 +1,58 @@
+import { OutboxMessageStatus, OutboxStore } from '../interfaces/outbox.interface';
+
+import { OutboxPublisher } from './outbox.publisher';
+
+import type { PublishOptions } from '../interfaces/rabbitmq-options.interface';
+
+describe('OutboxPublisher', () => {
+    let encode: jest.Mock;
+    let publisher: OutboxPublisher;
+    let store: jest.Mocked<OutboxStore>;
+
+    beforeEach(() => {
+        encode = jest.fn(async (message: unknown, options: PublishOptions) => ({
+            content: Buffer.from(JSON.stringify(message)),
+            options: { contentType: 'application/json', ...options },
+        }));
+        store = {
+            add: jest.fn().mockResolvedValue(undefined),
+            claimPending: jest.fn(),
+            markFailed: jest.fn(),
+            markSent: jest.fn(),
+        };
+        publisher = new OutboxPublisher(store, encode);
+    });
+
+    it('should write the encoded message as pending through the given transaction', async () => {
+        const transaction = { id: 'tx' };
+
+        const record = await publisher.publish(
+            'events',
+            'order.created',
+            { id: 1 },
+            { priority: 5 },
+            { aggregateKey: 'order-1', transaction },
+        );
+
+        expect(encode).toHaveBeenCalledWith({ id: 1 }, { messageId: record.id, priority: 5 });
+        expect(store.add).toHaveBeenCalledWith([record], transaction);
+        expect(record).toEqual(
+            expect.objectContaining({
+                aggregateKey: 'order-1',
+                attempts: 0,
+                content: Buffer.from('{"id":1}'),
+                contentType: 'application/json',
+                exchange: 'events',
+                options: { messageId: record.id, priority: 5 },
+                routingKey: 'order.created',
+                status: OutboxMessageStatus.PENDING,
+            }),
+        );
+    });
+
+    it('should keep an explicit message id and drop the outbox option', async () => {
+        const record = await publisher.publish('events', 'order.created', {}, { messageId: 'order-1', outbox: true });
+
+        expect(record.options).toEqual({ messageId: 'order-1' });
+    });
+});
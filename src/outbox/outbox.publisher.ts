@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+
+import { OutboxMessage, OutboxMessageStatus, OutboxPublishOptions, OutboxStore } from '../interfaces/outbox.interface';
+
+import type { PublishOptions } from '../interfaces/rabbitmq-options.interface';
+import type { Options } from 'amqplib';
+
+/**
+ * Writes messages to the transactional outbox instead of publishing them.
+ * Payloads are encoded when written, so the outbox holds the exact bytes the relay
+ * publishes once the surrounding transaction has committed.
+ * `RabbitMQService.publish()` uses it for publishes with the `outbox` option.
+ *
+ * @example
+ * ```typescript
+ * await dataSource.transaction(async (manager) => {
+ *   await manager.save(order);
+ *   await rabbitMQ.getOutboxPublisher().publish('events', 'order.created', order, undefined, {
+ *     aggregateKey: order.id,
+ *     transaction: manager,
+ *   });
+ * });
+ * ```
+ */
+export class OutboxPublisher {
+    /**
+     * Creates an instance of OutboxPublisher.
+     *
+     * @param {OutboxStore} store - The store messages are written to
+     * @param {(message: unknown, options: PublishOptions) => Promise<{ content: Buffer; options: Options.Publish }>} encode - Serializes and compresses a payload as for a direct publish
+     */
+    constructor(
+        private readonly store: OutboxStore,
+        private readonly encode: (
+            message: unknown,
+            options: PublishOptions,
+        ) => Promise<{ content: Buffer; options: Options.Publish }>,
+    ) {}
+
+    /**
+     * Writes a message to the outbox.
+     * The outbox record id doubles as the message id unless `options.messageId` is set.
+     *
+     * @param {string} exchange - The exchange to publish to
+     * @param {string} routingKey - The routing key
+     * @param {unknown} message - The message payload
+     * @param {PublishOptions} [options] - Options the relay publishes with
+     * @param {OutboxPublishOptions} [outbox] - The aggregate key and transaction
+     * @returns {Promise<OutboxMessage>} The written outbox message
+     */
+    async publish(
+        exchange: string,
+        routingKey: string,
+        message: unknown,
+        options?: PublishOptions,
+        outbox: OutboxPublishOptions = {},
+    ): Promise<OutboxMessage> {
+        const { outbox: _outbox, ...publishOptions } = options ?? {};
+        const id = randomUUID();
+        const now = new Date();
+        const {
+            content,
+            options: { contentType, ...properties },
+        } = await this.encode(message, { messageId: id, ...publishOptions });
+        const record: OutboxMessage = {
+            aggregateKey: outbox.aggregateKey,
+            attempts: 0,
+            content,
+            contentType,
+            createdAt: now,
+            exchange,
+            id,
+            nextAttemptAt: now,
+            options: properties,
+            routingKey,
+            status: OutboxMessageStatus.PENDING,
+        };
+
+        await this.store.add([record], outbox.transaction);
+
+        return record;
+    }
+}
@@ -0,0 +1,104 @@
+import { OutboxMessage, OutboxMessageStatus } from '../interfaces/outbox.interface';
+
+import { InMemoryOutboxStore } from './in-memory-outbox.store';
+import { OutboxRelay } from './outbox.relay';
+
+import type { RabbitMQService } from '../services/rabbitmq.service';
+
+describe('OutboxRelay', () => {
+    let publishEncoded: jest.Mock;
+    let relay: OutboxRelay;
+    let store: InMemoryOutboxStore;
+
+    const createMessage = (id: string, overrides: Partial<OutboxMessage> = {}): OutboxMessage => ({
+        attempts: 0,
+        content: Buffer.from(id),
+        contentType: 'text/plain',
+        createdAt: new Date(),
+        exchange: 'events',
+        id,
+        nextAttemptAt: new Date(0),
+        options: { messageId: id },
+        routingKey: 'order.created',
+        status: OutboxMessageStatus.PENDING,
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        publishEncoded = jest.fn().mockResolvedValue(undefined);
+        store = new InMemoryOutboxStore();
+        relay = new OutboxRelay({ publishEncoded } as unknown as RabbitMQService, store, {
+            retry: { initialDelay: 1000, maxAttempts: 2 },
+        });
+    });
+
+    afterEach(async () => {
+        await relay.stop();
+    });
+
+    it('should publish the encoded content of pending messages and mark them sent', async () => {
+        await store.add([createMessage('1'), createMessage('2')]);
+
+        await expect(relay.drain()).resolves.toBe(2);
+
+        expect(publishEncoded).toHaveBeenCalledWith('events', 'order.created', Buffer.from('1'), {
+            contentType: 'text/plain',
+            messageId: '1',
+        });
+        expect(store.getMessages()).toEqual([]);
+    });
+
+    it('should hold back later messages of an aggregate key after a failure', async () => {
+        await store.add([
+            createMessage('1', { aggregateKey: 'order-1' }),
+            createMessage('2', { aggregateKey: 'order-1' }),
+            createMessage('3', { aggregateKey: 'order-2' }),
+        ]);
+        publishEncoded.mockImplementation((exchange: string, routingKey: string, content: Buffer) =>
+            content.toString() === '1' ? Promise.reject(new Error('Channel closed')) : Promise.resolve(),
+        );
+
+        await expect(relay.drain()).resolves.toBe(1);
+
+        expect(publishEncoded).not.toHaveBeenCalledWith('events', 'order.created', Buffer.from('2'), expect.anything());
+        expect(store.getMessages()).toEqual([
+            expect.objectContaining({ attempts: 1, id: '1', lastError: 'Channel closed' }),
+            expect.objectContaining({ attempts: 0, id: '2' }),
+        ]);
+    });
+
+    it('should not publish messages before their next attempt', async () => {
+        await store.add([createMessage('1', { nextAttemptAt: new Date(Date.now() + 60000) })]);
+
+        await expect(relay.drain()).resolves.toBe(0);
+
+        expect(publishEncoded).not.toHaveBeenCalled();
+    });
+
+    it('should mark messages failed once attempts are exhausted', async () => {
+        await store.add([createMessage('1', { attempts: 1 })]);
+        publishEncoded.mockRejectedValue(new Error('Channel closed'));
+
+        await relay.drain();
+
+        expect(store.getMessages()[0]).toEqual(
+            expect.objectContaining({ attempts: 2, status: OutboxMessageStatus.FAILED }),
+        );
+    });
+
+    it('should poll the store once started', async () => {
+        jest.useFakeTimers();
+
+        try {
+            await store.add([createMessage('1')]);
+
+            relay.start();
+            await jest.advanceTimersByTimeAsync(0);
+
+            expect(publishEncoded).toHaveBeenCalledTimes(1);
+        } finally {
+            await relay.stop();
+            jest.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,203 @@
+import { Logger } from '@nestjs/common';
+
+import { OutboxMessage, OutboxRelayOptions, OutboxStore } from '../interfaces/outbox.interface';
+import { getErrorMessage, getErrorStack, LogLevel, shouldLog } from '../utils/log-utils';
+import { applyRetryJitter, getRetryDelay } from '../utils/retry-utils';
+
+import type { RabbitMQService } from '../services/rabbitmq.service';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_POLL_INTERVAL = 1000;
+
+/**
+ * Publishes pending outbox messages and marks them sent once the broker confirms them.
+ * Messages sharing an aggregate key are published one after another in write order;
+ * a failed message holds back the later messages of its key until it is retried,
+ * and for good once it has exhausted its attempts, until it is removed or reset in the store.
+ * Started by `RabbitMQService` when the module `outbox` option is set.
+ *
+ * @example
+ * ```typescript
+ * const relay = new OutboxRelay(rabbitMQ, store, { pollInterval: 500 });
+ * relay.start();
+ *
+ * // Publish everything pending right now, e.g. from a scheduled job
+ * const published = await relay.drain();
+ * ```
+ */
+export class OutboxRelay {
+    private draining?: Promise<number>;
+    private readonly logger = new Logger(OutboxRelay.name);
+    private pollTimeout?: NodeJS.Timeout;
+    private running = false;
+
+    /**
+     * Creates an instance of OutboxRelay.
+     *
+     * @param {RabbitMQService} rabbitService - The service messages are published through
+     * @param {OutboxStore} store - The store holding the outbox messages
+     * @param {OutboxRelayOptions} [options] - Polling and retry options
+     * @param {LogLevel} [logLevel='error'] - The minimum log level to output
+     */
+    constructor(
+        private readonly rabbitService: RabbitMQService,
+        private readonly store: OutboxStore,
+        private readonly options: OutboxRelayOptions = {},
+        private readonly logLevel: LogLevel = 'error',
+    ) {}
+
+    /**
+     * Publishes the pending messages of one batch.
+     * Concurrent calls share the drain in progress.
+     *
+     * @returns {Promise<number>} The number of messages published
+     */
+    async drain(): Promise<number> {
+        this.draining ??= this.drainPending().finally(() => (this.draining = undefined));
+
+        return this.draining;
+    }
+
+    /**
+     * Starts polling the store.
+     */
+    start(): void {
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        this.schedulePoll(0);
+        this.debug(`Outbox relay started with poll interval: ${this.getPollInterval()}ms`);
+    }
+
+    /**
+     * Stops polling and waits for the drain in progress, if any.
+     *
+     * @returns {Promise<void>}
+     */
+    async stop(): Promise<void> {
+        this.running = false;
+
+        if (this.pollTimeout) {
+            clearTimeout(this.pollTimeout);
+            this.pollTimeout = undefined;
+        }
+
+        await this.draining?.catch(() => undefined);
+    }
+
+    /**
+     * Claims a batch of due messages and publishes them, grouped by aggregate key.
+     *
+     * @private
+     */
+    private async drainPending(): Promise<number> {
+        const messages = await this.store.claimPending(this.options.batchSize ?? DEFAULT_BATCH_SIZE);
+        const groups = new Map<string, OutboxMessage[]>();
+
+        for (const message of messages) {
+            const key = message.aggregateKey ?? message.id;
+
+            groups.set(key, [...(groups.get(key) ?? []), message]);
+        }
+
+        const published = await Promise.all([...groups.values()].map((group) => this.publishInOrder(group)));
+
+        return published.reduce((total, count) => total + count, 0);
+    }
+
+    /**
+     * Returns the delay between polls in milliseconds.
+     *
+     * @private
+     */
+    private getPollInterval(): number {
+        return this.options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    }
+
+    /**
+     * Publishes messages of one aggregate key in order, stopping at the first one that fails.
+     *
+     * @private
+     */
+    private async publishInOrder(messages: OutboxMessage[]): Promise<number> {
+        let published = 0;
+
+        for (const message of messages) {
+            try {
+                await this.rabbitService.publishEncoded(message.exchange, message.routingKey, message.content, {
+                    ...message.options,
+                    ...(message.contentType && { contentType: message.contentType }),
+                });
+            } catch (error: unknown) {
+                await this.recordFailure(message, error);
+                break;
+            }
+
+            await this.store.markSent(message.id);
+            published++;
+        }
+
+        return published;
+    }
+
+    /**
+     * Records a failed attempt, scheduling the next one or giving up once attempts are exhausted.
+     *
+     * @private
+     */
+    private async recordFailure(message: OutboxMessage, error: unknown): Promise<void> {
+        const retry = this.options.retry ?? {};
+        const attempts = message.attempts + 1;
+        const exhausted = attempts >= (retry.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+        const nextAttemptAt = exhausted
+            ? undefined
+            : new Date(Date.now() + applyRetryJitter(getRetryDelay(retry, attempts), retry.jitter));
+
+        if (exhausted) {
+            this.logger.error(
+                `Outbox message ${message.id} to ${message.exchange}/${message.routingKey} failed after ${attempts} attempts`,
+                getErrorStack(error),
+            );
+        } else {
+            this.warn(`Outbox message ${message.id} failed (attempt ${attempts}): ${getErrorMessage(error)}`);
+        }
+
+        await this.store.markFailed(message.id, { attempts, lastError: getErrorMessage(error), nextAttemptAt });
+    }
+
+    /**
+     * Schedules the next poll, draining the store when it fires.
+     *
+     * @private
+     */
+    private schedulePoll(delay: number): void {
+        this.pollTimeout = setTimeout(() => {
+            this.drain()
+                .catch((error: unknown) => this.logger.error('Failed to drain outbox', getErrorStack(error)))
+                .finally(() => {
+                    if (this.running) {
+                        this.schedulePoll(this.getPollInterval());
+                    }
+                });
+        }, delay);
+    }
+
+    /**
+     * Logs a debug message if debug level is enabled.
+     * @private
+     */
+    private debug(message: string): void {
+        if (shouldLog('debug', this.logLevel)) this.logger.debug(message);
+    }
+
+    /**
+     * Logs a warning message if warn level is enabled.
+     * @private
+     */
+    private warn(message: string): void {
+        if (shouldLog('warn', this.logLevel)) this.logger.warn(message);
+    }
+}
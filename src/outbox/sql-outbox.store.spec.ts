@@ -0,0 +1,154 @@
+import { OutboxMessage, OutboxMessageStatus } from '../interfaces/outbox.interface';
+
+import { SqlOutboxClient, SqlOutboxStore } from './sql-outbox.store';
+
+describe('SqlOutboxStore', () => {
+    let client: jest.Mocked<SqlOutboxClient>;
+    let store: SqlOutboxStore;
+
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+    const message: OutboxMessage = {
+        aggregateKey: 'order-1',
+        attempts: 0,
+        content: Buffer.from('{"id":1}'),
+        contentType: 'application/json',
+        createdAt,
+        exchange: 'events',
+        id: 'msg-1',
+        nextAttemptAt: createdAt,
+        options: { messageId: 'msg-1' },
+        routingKey: 'order.created',
+        status: OutboxMessageStatus.PENDING,
+    };
+
+    beforeEach(() => {
+        client = { query: jest.fn().mockResolvedValue([]) };
+        store = new SqlOutboxStore({ client });
+    });
+
+    it('should insert the encoded content of messages through the caller transaction', async () => {
+        const transaction = { id: 'tx' };
+
+        await store.add([message], transaction);
+
+        expect(client.query).toHaveBeenCalledWith(
+            'INSERT INTO rabbitmq_outbox (id, aggregate_key, exchange, routing_key, content, content_type, options, status, attempts, next_attempt_at, created_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)',
+            [
+                'msg-1',
+                'order-1',
+                'events',
+                'order.created',
+                Buffer.from('{"id":1}'),
+                'application/json',
+                '{"messageId":"msg-1"}',
+                'pending',
+                0,
+                createdAt,
+                createdAt,
+            ],
+            transaction,
+        );
+    });
+
+    it('should lease due messages that no earlier message of their key holds back, then read them', async () => {
+        jest.useFakeTimers({ now: createdAt });
+
+        try {
+            store = new SqlOutboxStore({ client, leaseDuration: 5000 });
+            client.query.mockResolvedValueOnce([]).mockResolvedValueOnce([
+                {
+                    aggregate_key: null,
+                    attempts: 2,
+                    content: new Uint8Array(Buffer.from('{"id":1}')),
+                    content_type: 'application/json',
+                    created_at: '2024-01-01T00:00:00.000Z',
+                    exchange: 'events',
+                    id: 'msg-1',
+                    last_error: 'Channel closed',
+                    next_attempt_at: '2024-01-01T00:00:00.000Z',
+                    options: null,
+                    routing_key: 'order.created',
+                    status: 'pending',
+                },
+            ]);
+
+            const pending = await store.claimPending(50);
+            const [[claimSql, claimParams], [selectSql, selectParams]] = client.query.mock.calls;
+            const owner = claimParams[0];
+
+            expect(claimSql).toBe(
+                'UPDATE rabbitmq_outbox SET locked_by = $1, locked_until = $2 WHERE id IN (SELECT id FROM (' +
+                    'SELECT candidate.id FROM rabbitmq_outbox candidate WHERE candidate.status = $3' +
+                    ' AND candidate.next_attempt_at <= $4' +
+                    ' AND (candidate.locked_until IS NULL OR candidate.locked_until <= $5)' +
+                    ' AND NOT EXISTS (SELECT 1 FROM rabbitmq_outbox earlier' +
+                    ' WHERE earlier.aggregate_key = candidate.aggregate_key AND earlier.seq < candidate.seq' +
+                    ' AND earlier.status <> $6 AND (earlier.status <> $7' +
+                    ' OR earlier.next_attempt_at > $8 OR earlier.locked_until > $9))' +
+                    ' ORDER BY candidate.seq LIMIT $10) claimable)' +
+                    ' AND (locked_until IS NULL OR locked_until <= $11)',
+            );
+            expect(claimParams).toEqual([
+                expect.any(String),
+                new Date(createdAt.getTime() + 5000),
+                'pending',
+                createdAt,
+                createdAt,
+                'sent',
+                'pending',
+                createdAt,
+                createdAt,
+                50,
+                createdAt,
+            ]);
+            expect(selectSql).toBe('SELECT * FROM rabbitmq_outbox WHERE locked_by = $1 ORDER BY seq');
+            expect(selectParams).toEqual([owner]);
+            expect(pending).toEqual([
+                {
+                    aggregateKey: undefined,
+                    attempts: 2,
+                    content: Buffer.from('{"id":1}'),
+                    contentType: 'application/json',
+                    createdAt,
+                    exchange: 'events',
+                    id: 'msg-1',
+                    lastError: 'Channel closed',
+                    nextAttemptAt: createdAt,
+                    options: undefined,
+                    routingKey: 'order.created',
+                    status: OutboxMessageStatus.PENDING,
+                },
+            ]);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('should use the configured table name and placeholders', async () => {
+        store = new SqlOutboxStore({ client, placeholder: () => '?', tableName: 'outbox' });
+
+        await store.markSent('msg-1');
+
+        expect(client.query).toHaveBeenCalledWith('UPDATE outbox SET status = ? WHERE id = ?', ['sent', 'msg-1']);
+    });
+
+    it('should reschedule failed messages with their next attempt and release their lease', async () => {
+        const nextAttemptAt = new Date();
+
+        await store.markFailed('msg-1', { attempts: 1, lastError: 'Channel closed', nextAttemptAt });
+
+        expect(client.query).toHaveBeenCalledWith(
+            'UPDATE rabbitmq_outbox SET attempts = $1, last_error = $2, status = $3, next_attempt_at = $4, locked_by = NULL, locked_until = NULL WHERE id = $5',
+            [1, 'Channel closed', 'pending', nextAttemptAt, 'msg-1'],
+        );
+    });
+
+    it('should mark messages failed once no next attempt is set', async () => {
+        await store.markFailed('msg-1', { attempts: 10, lastError: 'Channel closed' });
+
+        expect(client.query).toHaveBeenCalledWith(
+            'UPDATE rabbitmq_outbox SET attempts = $1, last_error = $2, status = $3, locked_by = NULL, locked_until = NULL WHERE id = $4',
+            [10, 'Channel closed', 'failed', 'msg-1'],
+        );
+    });
+});
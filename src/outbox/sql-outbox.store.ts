@@ -0,0 +1,249 @@
+import { randomUUID } from 'crypto';
+
+import { OutboxFailure, OutboxMessage, OutboxMessageStatus, OutboxStore } from '../interfaces/outbox.interface';
+
+const DEFAULT_LEASE_DURATION = 30000;
+
+/**
+ * Minimal query interface the SQL outbox store runs on.
+ * Adapt your driver or ORM to it; `transaction` is whatever the caller
+ * passed to the outbox publish, e.g. a client checked out for a transaction.
+ *
+ * @example
+ * ```typescript
+ * // node-postgres
+ * const client: SqlOutboxClient = {
+ *   query: async (sql, params, transaction) => (await ((transaction as PoolClient) ?? pool).query(sql, params)).rows,
+ * };
+ * ```
+ */
+export interface SqlOutboxClient {
+    query: (sql: string, params: unknown[], transaction?: unknown) => Promise<Array<Record<string, unknown>>>;
+}
+
+/**
+ * Options for `SqlOutboxStore`.
+ */
+export interface SqlOutboxStoreOptions {
+    /** Runs the store's queries */
+    client: SqlOutboxClient;
+
+    /**
+     * How long a claimed message is reserved for the relay that claimed it, in milliseconds.
+     * Messages neither sent nor failed by then, e.g. after a crash, are claimed again,
+     * so keep it well above the time a batch takes to publish.
+     * @default 30000
+     */
+    leaseDuration?: number;
+
+    /**
+     * Returns the bind placeholder for the 1-based parameter index.
+     * @default (index) => `$${index}` (PostgreSQL); use `() => '?'` for MySQL or SQLite
+     */
+    placeholder?: (index: number) => string;
+
+    /**
+     * Outbox table name.
+     * @default 'rabbitmq_outbox'
+     */
+    tableName?: string;
+}
+
+/**
+ * Outbox store on a SQL table, for any database reachable through a {@link SqlOutboxClient}.
+ * Payloads are stored as the encoded bytes and content type they are published with,
+ * and options as JSON text. Messages are claimed in `seq` order, so the table needs
+ * an auto-incrementing `seq` column (`BLOB` instead of `BYTEA` for MySQL or SQLite):
+ *
+ * ```sql
+ * CREATE TABLE rabbitmq_outbox (
+ *   seq             BIGSERIAL PRIMARY KEY,
+ *   id              VARCHAR(36) NOT NULL UNIQUE,
+ *   aggregate_key   VARCHAR(255),
+ *   exchange        VARCHAR(255) NOT NULL,
+ *   routing_key     VARCHAR(255) NOT NULL,
+ *   content         BYTEA NOT NULL,
+ *   content_type    VARCHAR(255),
+ *   options         TEXT,
+ *   status          VARCHAR(16) NOT NULL,
+ *   attempts        INTEGER NOT NULL DEFAULT 0,
+ *   last_error      TEXT,
+ *   next_attempt_at TIMESTAMP NOT NULL,
+ *   created_at      TIMESTAMP NOT NULL,
+ *   locked_by       VARCHAR(36),
+ *   locked_until    TIMESTAMP
+ * );
+ * CREATE INDEX rabbitmq_outbox_pending ON rabbitmq_outbox (status, seq);
+ * CREATE INDEX rabbitmq_outbox_aggregate ON rabbitmq_outbox (aggregate_key, seq);
+ * ```
+ *
+ * Relays claim messages with a single `UPDATE` that leases them (`locked_by`, `locked_until`),
+ * so relays on several instances can share the table without publishing a message twice.
+ * Messages of an aggregate key claimed behind one that then fails stay leased until
+ * `leaseDuration` has passed, and are claimed again once the failed one is sent.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   outbox: { store: new SqlOutboxStore({ client }) },
+ * });
+ * ```
+ */
+export class SqlOutboxStore implements OutboxStore {
+    private readonly placeholder: (index: number) => string;
+    private readonly tableName: string;
+
+    /**
+     * Creates an instance of SqlOutboxStore.
+     *
+     * @param {SqlOutboxStoreOptions} options - The client, lease duration, table name and placeholder style
+     */
+    constructor(private readonly options: SqlOutboxStoreOptions) {
+        this.placeholder = options.placeholder ?? ((index) => `$${index}`);
+        this.tableName = options.tableName ?? 'rabbitmq_outbox';
+    }
+
+    async add(messages: OutboxMessage[], transaction?: unknown): Promise<void> {
+        if (messages.length === 0) {
+            return;
+        }
+
+        const columns = [
+            'id',
+            'aggregate_key',
+            'exchange',
+            'routing_key',
+            'content',
+            'content_type',
+            'options',
+            'status',
+            'attempts',
+            'next_attempt_at',
+            'created_at',
+        ];
+        const params: unknown[] = [];
+        const rows = messages.map((message) => {
+            params.push(
+                message.id,
+                message.aggregateKey ?? null,
+                message.exchange,
+                message.routingKey,
+                message.content,
+                message.contentType ?? null,
+                message.options ? JSON.stringify(message.options) : null,
+                message.status,
+                message.attempts,
+                message.nextAttemptAt,
+                message.createdAt,
+            );
+
+            return `(${this.placeholders(params.length - columns.length + 1, columns.length)})`;
+        });
+
+        await this.options.client.query(
+            `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES ${rows.join(', ')}`,
+            params,
+            transaction,
+        );
+    }
+
+    async claimPending(limit: number): Promise<OutboxMessage[]> {
+        const owner = randomUUID();
+        const now = new Date();
+        const leasedUntil = new Date(now.getTime() + (this.options.leaseDuration ?? DEFAULT_LEASE_DURATION));
+        const params: unknown[] = [];
+        // Binds left to right, so parameters follow their placeholders in the SQL text
+        const bind = (value: unknown): string => this.placeholder(params.push(value));
+        const table = this.tableName;
+
+        // The derived table lets MySQL update the table it selects from. The lease is checked again
+        // on the row itself, so of two relays claiming a message concurrently only one gets it
+        await this.options.client.query(
+            `UPDATE ${table} SET locked_by = ${bind(owner)}, locked_until = ${bind(leasedUntil)}` +
+                ` WHERE id IN (SELECT id FROM (SELECT candidate.id FROM ${table} candidate` +
+                ` WHERE candidate.status = ${bind(OutboxMessageStatus.PENDING)}` +
+                ` AND candidate.next_attempt_at <= ${bind(now)}` +
+                ` AND (candidate.locked_until IS NULL OR candidate.locked_until <= ${bind(now)})` +
+                // Held back by an earlier unsent message of its key that cannot be claimed now
+                ` AND NOT EXISTS (SELECT 1 FROM ${table} earlier` +
+                ` WHERE earlier.aggregate_key = candidate.aggregate_key AND earlier.seq < candidate.seq` +
+                ` AND earlier.status <> ${bind(OutboxMessageStatus.SENT)}` +
+                ` AND (earlier.status <> ${bind(OutboxMessageStatus.PENDING)}` +
+                ` OR earlier.next_attempt_at > ${bind(now)} OR earlier.locked_until > ${bind(now)}))` +
+                ` ORDER BY candidate.seq LIMIT ${bind(limit)}) claimable)` +
+                ` AND (locked_until IS NULL OR locked_until <= ${bind(now)})`,
+            params,
+        );
+
+        const rows = await this.options.client.query(
+            `SELECT * FROM ${table} WHERE locked_by = ${this.placeholder(1)} ORDER BY seq`,
+            [owner],
+        );
+
+        return rows.map((row) => this.toMessage(row));
+    }
+
+    async markFailed(id: string, failure: OutboxFailure): Promise<void> {
+        const status = failure.nextAttemptAt ? OutboxMessageStatus.PENDING : OutboxMessageStatus.FAILED;
+        const columns = ['attempts', 'last_error', 'status'];
+        const params: unknown[] = [failure.attempts, failure.lastError, status];
+
+        if (failure.nextAttemptAt) {
+            columns.push('next_attempt_at');
+            params.push(failure.nextAttemptAt);
+        }
+
+        params.push(id);
+
+        const assignments = [
+            ...columns.map((column, index) => `${column} = ${this.placeholder(index + 1)}`),
+            // Frees the message for its next attempt
+            'locked_by = NULL',
+            'locked_until = NULL',
+        ];
+
+        await this.options.client.query(
+            `UPDATE ${this.tableName} SET ${assignments.join(', ')} WHERE id = ${this.placeholder(params.length)}`,
+            params,
+        );
+    }
+
+    async markSent(id: string): Promise<void> {
+        await this.options.client.query(
+            `UPDATE ${this.tableName} SET status = ${this.placeholder(1)} WHERE id = ${this.placeholder(2)}`,
+            [OutboxMessageStatus.SENT, id],
+        );
+    }
+
+    /**
+     * Returns `count` comma-separated placeholders starting at the 1-based index `start`.
+     *
+     * @private
+     */
+    private placeholders(start: number, count: number): string {
+        return Array.from({ length: count }, (_, offset) => this.placeholder(start + offset)).join(', ');
+    }
+
+    /**
+     * Maps a table row to an outbox message.
+     *
+     * @private
+     */
+    private toMessage(row: Record<string, unknown>): OutboxMessage {
+        return {
+            aggregateKey: (row.aggregate_key as string | null) ?? undefined,
+            attempts: Number(row.attempts ?? 0),
+            content: Buffer.from(row.content as Uint8Array),
+            contentType: (row.content_type as string | null) ?? undefined,
+            createdAt: new Date(row.created_at as Date | string),
+            exchange: String(row.exchange),
+            id: String(row.id),
+            lastError: (row.last_error as string | null) ?? undefined,
+            nextAttemptAt: new Date(row.next_attempt_at as Date | string),
+            options: row.options ? JSON.parse(String(row.options)) : undefined,
+            routingKey: String(row.routing_key),
+            status: row.status as OutboxMessageStatus,
+        };
+    }
+}
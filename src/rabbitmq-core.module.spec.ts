@@ -1,7 +1,58 @@
+import { ExternalContextCreator, ModulesContainer } from '@nestjs/core';
+
+import type {
+    ArgumentsHost,
+    CallHandler,
+    CanActivate,
+    ExceptionFilter,
+    ExecutionContext,
+    NestInterceptor,
+    PipeTransform,
+} from '@nestjs/common';
+import {
+    BadRequestException,
+    Catch,
+    createParamDecorator,
+    ForbiddenException,
+    Injectable,
+    NotFoundException,
+    ParseIntPipe,
+    UseFilters,
+    UseGuards,
+    UseInterceptors,
+    UsePipes,
+} from '@nestjs/common';
+
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { Test } from '@nestjs/testing';
+import { map, of } from 'rxjs';
+import { gunzipSync, gzipSync } from 'zlib';
+
+import { RabbitMQContext } from './context/rabbitmq.context';
+import { ContractRegistry } from './contracts/contract.registry';
+import { ContractViolationError } from './errors/contract-violation.error';
+import { CompressionAlgorithm } from './interfaces/compression.interface';
+import { MessageDisposition } from './interfaces/message-handling.interface';
+
 import type { RabbitMQModuleOptions, RabbitMQOptionsFactory } from './interfaces/rabbitmq-options.interface';
+import type { Serializer } from './interfaces/serializer.interface';
 
 import { RABBITMQ_CONNECTION_MANAGER, RABBITMQ_MODULE_OPTIONS, RABBITMQ_SERVICE } from './constants';
+import {
+    MessageContract,
+    RabbitAbortSignal,
+    RabbitMessage,
+    RabbitPayload,
+    RabbitRemainingTime,
+    RabbitRPC,
+    RabbitSubscribe,
+} from './decorators';
 import { RabbitMQCoreModule } from './rabbitmq-core.module';
+import { MessagePackSerializer } from './serializers/msgpack.serializer';
+import { RawSerializer } from './serializers/raw.serializer';
+import { SerializerRegistry } from './serializers/serializer.registry';
+import { UpcasterRegistry } from './upcasting/upcaster.registry';
+import { getCurrentRpcDeadline } from './utils/deadline-utils';
 
 describe('RabbitMQCoreModule', () => {
     describe('forRoot', () => {
@@ -424,7 +475,7 @@ describe('RabbitMQCoreModule', () => {
 
             const dynamicModule = RabbitMQCoreModule.forRoot({
                 exchanges: [{ name: 'factory-exchange', type: 'fanout' }],
-                queues: [{ name: 'factory-queue', options: { durable: false } }],
+                queues: [{ deadLetter: true, name: 'factory-queue', options: { durable: false } }],
                 uri: 'amqp://localhost',
             });
 
@@ -447,7 +498,7 @@ describe('RabbitMQCoreModule', () => {
 
             expect(mockService.initialize).toHaveBeenCalled();
             expect(mockService.assertExchange).toHaveBeenCalledWith('factory-exchange', 'fanout', undefined);
-            expect(mockService.assertQueue).toHaveBeenCalledWith('factory-queue', { durable: false });
+            expect(mockService.assertQueue).toHaveBeenCalledWith('factory-queue', { durable: false }, true);
         });
 
         it('should expose connection manager factory in forRootAsync', () => {
@@ -505,7 +556,7 @@ describe('RabbitMQCoreModule', () => {
 
             expect(mockService.initialize).toHaveBeenCalled();
             expect(mockService.assertExchange).toHaveBeenCalledWith('async-factory-exchange', 'headers', undefined);
-            expect(mockService.assertQueue).toHaveBeenCalledWith('async-factory-queue', { exclusive: true });
+            expect(mockService.assertQueue).toHaveBeenCalledWith('async-factory-queue', { exclusive: true }, undefined);
         });
 
         it('should call options factory with useFactory in forRootAsync', async () => {
@@ -554,6 +605,14 @@ describe('RabbitMQCoreModule', () => {
         });
 
         describe('internal discovery', () => {
+            const externalContextCreator: any = {
+                create: jest.fn(
+                    (instance: any, callback: any) =>
+                        async (...args: unknown[]) =>
+                            callback.apply(instance, args),
+                ),
+            };
+
             it('should discover @RabbitSubscribe and register consumer', async () => {
                 const mockRabbitService = {
                     assertQueue: jest.fn().mockResolvedValue(undefined),
@@ -584,12 +643,12 @@ describe('RabbitMQCoreModule', () => {
                 const fakeNestModule: any = { providers: new Map([[Symbol('prov'), providerRecord]]) };
                 const modulesContainer: any = { values: () => [fakeNestModule] };
 
-                const core = new RabbitMQCoreModule(moduleRef, modulesContainer);
+                const core = new RabbitMQCoreModule(moduleRef, modulesContainer, externalContextCreator);
 
                 await core.onApplicationBootstrap();
 
                 expect(moduleRef.get).toHaveBeenCalled();
-                expect(mockRabbitService.assertQueue).toHaveBeenCalledWith('q1', undefined);
+                expect(mockRabbitService.assertQueue).toHaveBeenCalledWith('q1', undefined, undefined);
                 expect(mockRabbitService.bindQueue).toHaveBeenCalledWith('q1', 'ex', 'rk');
                 expect(mockRabbitService.consume).toHaveBeenCalled();
             });
@@ -603,7 +662,10 @@ describe('RabbitMQCoreModule', () => {
                 } as any;
                 const mockRabbitService = {
                     assertQueue: jest.fn().mockResolvedValue(undefined),
+                    decodeMessage: jest.fn((message: any) => new SerializerRegistry().deserialize(message)),
                     getChannel: jest.fn().mockReturnValue(channel),
+                    getSerializers: jest.fn().mockReturnValue(new SerializerRegistry()),
+                    trackRpcRequest: jest.fn(() => ({ release: jest.fn(), signal: new AbortController().signal })),
                 } as any;
 
                 const moduleRef: any = { get: jest.fn().mockReturnValue(mockRabbitService) };
@@ -622,7 +684,7 @@ describe('RabbitMQCoreModule', () => {
                 const fakeNestModule: any = { providers: new Map([[Symbol('prov'), providerRecord]]) };
                 const modulesContainer: any = { values: () => [fakeNestModule] };
 
-                const core = new RabbitMQCoreModule(moduleRef, modulesContainer);
+                const core = new RabbitMQCoreModule(moduleRef, modulesContainer, externalContextCreator);
 
                 await core.onApplicationBootstrap();
 
@@ -646,7 +708,7 @@ describe('RabbitMQCoreModule', () => {
                 const fakeNestModule: any = { providers: new Map([[Symbol('prov'), providerRecord]]) };
                 const modulesContainer: any = { values: () => [fakeNestModule] };
 
-                const core: any = new RabbitMQCoreModule(moduleRef, modulesContainer);
+                const core: any = new RabbitMQCoreModule(moduleRef, modulesContainer, externalContextCreator);
                 const errorSpy = jest.spyOn(core['logger'], 'error').mockImplementation(() => undefined as any);
 
                 await core.onApplicationBootstrap();
@@ -654,4 +716,885 @@ describe('RabbitMQCoreModule', () => {
             });
         });
     });
+    describe('execution context', () => {
+        const TenantHeader = createParamDecorator(
+            (name: string, ctx: ExecutionContext) => ctx.switchToRpc().getData().properties.headers[name],
+        );
+
+        class TrimPipe implements PipeTransform {
+            transform(value: unknown) {
+                return typeof value === 'string' ? value.trim() : value;
+            }
+        }
+
+        @Injectable()
+        class UserHeaderGuard implements CanActivate {
+            canActivate(context: ExecutionContext) {
+                return context.getType() === 'rpc' && !!context.switchToRpc().getData().properties.headers['x-user-id'];
+            }
+        }
+
+        class WrapResponseInterceptor implements NestInterceptor {
+            intercept(_context: ExecutionContext, next: CallHandler) {
+                return next.handle().pipe(map((data) => ({ data })));
+            }
+        }
+
+        @Injectable()
+        @UseGuards(UserHeaderGuard)
+        class GuardedConsumer {
+            received: unknown[] = [];
+
+            @RabbitRPC({ queue: 'guarded-rpc-q', guardRejectionDisposition: MessageDisposition.REPLY })
+            @UseInterceptors(WrapResponseInterceptor)
+            handleEcho(@RabbitPayload() payload: unknown) {
+                return payload;
+            }
+
+            @RabbitSubscribe({ queue: 'guarded-q', guardRejectionDisposition: MessageDisposition.ACK })
+            handleGuarded(@RabbitPayload() payload: unknown) {
+                this.received = [payload];
+            }
+        }
+
+        class OrderConflictError extends Error {}
+
+        @Catch(OrderConflictError)
+        class RequeueConflictFilter implements ExceptionFilter {
+            catch(_error: OrderConflictError, host: ArgumentsHost) {
+                host.switchToRpc().getContext<RabbitMQContext>().requeue();
+            }
+        }
+
+        @Catch()
+        class ForwardFilter implements ExceptionFilter {
+            async catch(error: Error, host: ArgumentsHost) {
+                const context = host.switchToRpc().getContext<RabbitMQContext>();
+
+                await context.publish('errors', 'order.failed', { reason: error.message });
+                context.ack();
+            }
+        }
+
+        @Catch()
+        class ReplyErrorFilter implements ExceptionFilter {
+            catch(error: Error, host: ArgumentsHost) {
+                host.switchToRpc().getContext<RabbitMQContext>().replyWithError(error);
+            }
+        }
+
+        @Catch()
+        class NackFilter implements ExceptionFilter {
+            catch(_error: Error, host: ArgumentsHost) {
+                host.switchToRpc().getContext<RabbitMQContext>().nack();
+            }
+        }
+
+        @Injectable()
+        @UseFilters(RequeueConflictFilter)
+        class FilteredConsumer {
+            @RabbitSubscribe({ queue: 'conflict-q' })
+            handleConflict() {
+                throw new OrderConflictError('Order is locked');
+            }
+
+            @RabbitSubscribe({ queue: 'forward-q' })
+            @UseFilters(new ForwardFilter())
+            handleForward() {
+                throw new Error('Order rejected');
+            }
+
+            @RabbitRPC({ queue: 'lookup-q' })
+            @UseFilters(new ReplyErrorFilter())
+            handleLookup() {
+                throw new NotFoundException('Order not found');
+            }
+
+            @RabbitSubscribe({ queue: 'unfiltered-q' })
+            handleUnfiltered() {
+                throw new Error('Unexpected failure');
+            }
+        }
+
+        @Injectable()
+        class ContextConsumer {
+            received: unknown[] = [];
+
+            @RabbitSubscribe({ queue: 'count-q', validationErrorDisposition: MessageDisposition.REQUEUE })
+            handleCount(@RabbitPayload('count', ParseIntPipe) count: number) {
+                this.received = [count];
+            }
+
+            @RabbitRPC({ queue: 'double-q', validationErrorDisposition: MessageDisposition.REPLY })
+            handleDouble(@RabbitPayload('value', ParseIntPipe) value: number) {
+                return value * 2;
+            }
+
+            @RabbitRPC({ errorHandler: () => MessageDisposition.REPLY, queue: 'quote-q' })
+            handleQuote() {
+                throw new Error('Quote unavailable');
+            }
+
+            @RabbitSubscribe({
+                errorHandler: (_error: unknown, _message: unknown, context: RabbitMQContext) => context.requeue(),
+                deadLetter: { queue: 'flaky.failed' },
+                idempotency: { ttl: 60000 },
+                queue: 'flaky-q',
+                retry: { maxAttempts: 5 },
+            })
+            handleFlaky() {
+                throw new Error('Temporary failure');
+            }
+
+            @RabbitSubscribe({ queue: 'legacy-q' })
+            handleLegacy(payload: unknown) {
+                this.received = [payload];
+            }
+
+            @RabbitSubscribe({ queue: 'mixed-q' })
+            handleMixed(payload: unknown, @RabbitMessage('properties') properties: any) {
+                this.received = [payload, properties.messageId];
+            }
+
+            @RabbitSubscribe({ queue: 'blob-q', serializer: new RawSerializer() })
+            handleBlob(@RabbitPayload() blob: Buffer) {
+                this.received = [blob];
+            }
+
+            @RabbitRPC({ queue: 'packed-q', serializer: 'application/msgpack' })
+            handlePacked(@RabbitPayload('items') items: string[]) {
+                return { count: items.length };
+            }
+
+            @RabbitRPC({ queue: 'price-q' })
+            @MessageContract({ schema: { required: ['sku'], type: 'object' }, version: 1 })
+            handlePrice(@RabbitPayload('sku') sku: string) {
+                return { price: 10, sku };
+            }
+
+            @RabbitSubscribe({ queue: 'shipment-q' })
+            @MessageContract({ id: 'Shipment', schema: { type: 'object' }, version: 3 })
+            handleShipment(@RabbitPayload() shipment: unknown) {
+                this.received = [shipment];
+            }
+
+            @RabbitRPC({ queue: 'quota-q' })
+            handleQuota(@RabbitRemainingTime() remaining?: number) {
+                this.received = [remaining, getCurrentRpcDeadline()];
+            }
+
+            @RabbitRPC({ queue: 'rows-q' })
+            async *handleRows(@RabbitPayload('count') count: number) {
+                for (let row = 1; row <= count; row++) {
+                    yield { row };
+                }
+            }
+
+            @RabbitRPC({ queue: 'broken-rows-q' })
+            async *handleBrokenRows() {
+                yield { row: 1 };
+                throw new Error('Cursor closed');
+            }
+
+            @RabbitRPC({ queue: 'ticks-q' })
+            handleTicks() {
+                return of(1, 2, 3);
+            }
+
+            @RabbitRPC({ queue: 'wrapped-ticks-q' })
+            @UseInterceptors(WrapResponseInterceptor)
+            handleWrappedTicks() {
+                return of(1, 2, 3);
+            }
+
+            @RabbitRPC({ queue: 'report-q' })
+            handleReport(@RabbitAbortSignal() signal: AbortSignal) {
+                this.received = [signal];
+
+                return 'report';
+            }
+
+            @RabbitRPC({ queue: 'stock-q' })
+            handleStock() {
+                throw Object.assign(new Error('Out of stock'), { code: 'OUT_OF_STOCK' });
+            }
+
+            @RabbitRPC({ queue: 'sum-q' })
+            handleSum(@RabbitPayload('a') a: number, @RabbitPayload('b') b: number) {
+                return a + b;
+            }
+
+            @RabbitSubscribe({ queue: 'ctx-q' })
+            handleWithDecorators(
+                @RabbitPayload() payload: unknown,
+                @RabbitMessage('properties') properties: any,
+                @TenantHeader('x-tenant') tenant: string,
+            ) {
+                this.received = [payload, properties.messageId, tenant];
+            }
+
+            @RabbitSubscribe({ queue: 'name-q' })
+            @UsePipes(new TrimPipe())
+            handleName(@RabbitPayload('name') name: string) {
+                this.received = [name];
+            }
+        }
+
+        const createMessage = (payload: unknown, headers: Record<string, unknown> = { 'x-tenant': 'acme' }): any => ({
+            content: Buffer.from(JSON.stringify(payload)),
+            fields: { routingKey: 'rk' },
+            properties: {
+                correlationId: 'corr-1',
+                headers,
+                messageId: 'msg-1',
+                replyTo: 'reply-q',
+            },
+        });
+
+        const bootstrap = async (
+            moduleOptions?: Partial<RabbitMQModuleOptions>,
+            globalFilters: ExceptionFilter[] = [],
+        ) => {
+            const channel = {
+                ack: jest.fn(),
+                consume: jest.fn().mockResolvedValue(undefined),
+                nack: jest.fn(),
+                sendToQueue: jest.fn().mockResolvedValue(true),
+            };
+            const serializers = new SerializerRegistry();
+            const streamCredit = {
+                close: jest.fn().mockResolvedValue(undefined),
+                queue: 'amq.gen-credit',
+                waitForCredit: jest.fn().mockResolvedValue(true),
+            };
+            const upcasters = new UpcasterRegistry(moduleOptions?.upcasters);
+            const rabbitService = {
+                assertQueue: jest.fn().mockResolvedValue(undefined),
+                bindQueue: jest.fn().mockResolvedValue(undefined),
+                consume: jest.fn().mockResolvedValue(undefined),
+                decodeMessage: jest.fn((message: any, serializer?: Serializer) =>
+                    upcasters.upcast(serializers.deserialize(message, serializer), message),
+                ),
+                getChannel: jest.fn().mockReturnValue(channel),
+                getContracts: jest.fn().mockReturnValue(new ContractRegistry()),
+                getSerializers: jest.fn().mockReturnValue(serializers),
+                listenForRpcCancellations: jest.fn().mockResolvedValue(undefined),
+                openRpcStreamCredit: jest.fn(async () => streamCredit),
+                publish: jest.fn().mockResolvedValue(true),
+                trackRpcRequest: jest.fn(() => ({ release: jest.fn(), signal: new AbortController().signal })),
+                validateContract: jest.fn().mockResolvedValue(undefined),
+            };
+            const testingModule = await Test.createTestingModule({
+                providers: [ContextConsumer, FilteredConsumer, GuardedConsumer],
+            }).compile();
+
+            if (globalFilters.length > 0) {
+                testingModule.createNestApplication().useGlobalFilters(...globalFilters);
+            }
+
+            const moduleRef: any = {
+                get: jest.fn((token: string) =>
+                    token.startsWith(RABBITMQ_MODULE_OPTIONS) ? moduleOptions : rabbitService,
+                ),
+            };
+            const core = new RabbitMQCoreModule(
+                moduleRef,
+                testingModule.get(ModulesContainer),
+                testingModule.get(ExternalContextCreator),
+            );
+
+            await core.onApplicationBootstrap();
+            await new Promise((resolve) => setImmediate(resolve));
+
+            const consumeCallFor = (queue: string) =>
+                rabbitService.consume.mock.calls.find((call: any[]) => call[0] === queue)!;
+            const consumeFor = (queue: string) => consumeCallFor(queue)[1];
+            const consumeOptionsFor = (queue: string) => consumeCallFor(queue)[2];
+            const rpcConsumeFor = (queue: string) =>
+                channel.consume.mock.calls.find((call: any[]) => call[0] === queue)![1];
+
+            return {
+                channel,
+                consumeFor,
+                consumeOptionsFor,
+                consumer: testingModule.get(ContextConsumer),
+                guardedConsumer: testingModule.get(GuardedConsumer),
+                rabbitService,
+                rpcConsumeFor,
+                streamCredit,
+            };
+        };
+
+        it('should resolve parameter decorators against the raw message', async () => {
+            const { consumeFor, consumer } = await bootstrap();
+            const message = createMessage({ id: 1 });
+
+            await consumeFor('ctx-q')({ id: 1 }, message);
+
+            expect(consumer.received).toEqual([{ id: 1 }, 'msg-1', 'acme']);
+        });
+
+        it('should pass the payload decoded by consume() to handlers without decoding it again', async () => {
+            const { consumeFor, consumer, rabbitService } = await bootstrap();
+
+            await consumeFor('ctx-q')({ id: 1, version: 2 }, createMessage({ id: 1 }));
+
+            expect(consumer.received[0]).toEqual({ id: 1, version: 2 });
+            expect(rabbitService.decodeMessage).not.toHaveBeenCalled();
+        });
+
+        it('should pass the payload to handlers without parameter decorators', async () => {
+            const { consumeFor, consumer } = await bootstrap();
+
+            await consumeFor('legacy-q')({ id: 2 }, createMessage({ id: 2 }));
+
+            expect(consumer.received).toEqual([{ id: 2 }]);
+        });
+
+        it('should pass the payload to an undecorated first parameter followed by decorated ones', async () => {
+            const { consumeFor, consumer } = await bootstrap();
+
+            await consumeFor('mixed-q')({ id: 3 }, createMessage({ id: 3 }));
+
+            expect(consumer.received).toEqual([{ id: 3 }, 'msg-1']);
+        });
+
+        it('should not add parameter metadata to handlers with an undecorated first parameter', async () => {
+            await bootstrap();
+
+            expect(Reflect.getMetadata(ROUTE_ARGS_METADATA, ContextConsumer, 'handleLegacy')).toBeUndefined();
+            expect(Object.values(Reflect.getMetadata(ROUTE_ARGS_METADATA, ContextConsumer, 'handleMixed'))).toEqual([
+                expect.objectContaining({ index: 1 }),
+            ]);
+        });
+
+        it('should decode payloads with the serializer of the handler', async () => {
+            const { consumeFor, consumeOptionsFor, consumer } = await bootstrap();
+            const message = { ...createMessage(null), content: Buffer.from([1, 2, 3]) };
+
+            await consumeFor('blob-q')(message.content, message);
+
+            expect(consumer.received).toEqual([Buffer.from([1, 2, 3])]);
+            expect(consumeOptionsFor('blob-q').serializer).toBeInstanceOf(RawSerializer);
+        });
+
+        it('should encode RPC replies with the serializer of the handler', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+            const msgpack = new MessagePackSerializer();
+
+            const jsonMessage = createMessage({ items: ['a'] });
+
+            jsonMessage.properties.contentType = 'application/json';
+
+            // Messages without a content type are decoded by the handler's serializer
+            await rpcConsumeFor('packed-q')({
+                ...createMessage(null),
+                content: msgpack.serialize({ items: ['a', 'b'] }),
+            });
+            await rpcConsumeFor('packed-q')(jsonMessage);
+
+            expect(channel.sendToQueue).toHaveBeenNthCalledWith(
+                1,
+                'reply-q',
+                msgpack.serialize({ count: 2 }),
+                expect.objectContaining({ contentType: 'application/msgpack' }),
+            );
+            expect(channel.sendToQueue).toHaveBeenNthCalledWith(
+                2,
+                'reply-q',
+                msgpack.serialize({ count: 1 }),
+                expect.objectContaining({ contentType: 'application/msgpack' }),
+            );
+        });
+
+        it('should decompress RPC requests and compress replies with the module compression', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap({ compression: CompressionAlgorithm.GZIP });
+            const message = createMessage(null);
+
+            message.content = gzipSync(Buffer.from('{"count":200}'));
+            message.properties.contentEncoding = 'gzip';
+
+            await rpcConsumeFor('rows-q')(message);
+
+            const [, content, options] = channel.sendToQueue.mock.calls[0];
+
+            expect(options).toEqual(
+                expect.objectContaining({ contentEncoding: 'gzip', contentType: 'application/json' }),
+            );
+            expect(JSON.parse(gunzipSync(content).toString())).toHaveLength(200);
+        });
+
+        it('should register the message contracts of handlers and validate their messages', async () => {
+            const { consumeOptionsFor, rabbitService, rpcConsumeFor } = await bootstrap();
+            const contracts: ContractRegistry = rabbitService.getContracts();
+            const message = createMessage({ sku: 'A-1' });
+
+            await rpcConsumeFor('price-q')(message);
+
+            expect(contracts.getSchemaId(contracts.find({ queue: 'price-q' })!)).toBe('price-q@1');
+            expect(rabbitService.validateContract).toHaveBeenCalledWith(
+                'price-q',
+                message,
+                expect.any(Function),
+                contracts.find({ queue: 'price-q' }),
+            );
+            expect(rabbitService.validateContract.mock.calls[0][2]()).toEqual({ sku: 'A-1' });
+            expect(consumeOptionsFor('shipment-q').contract).toMatchObject({ id: 'Shipment', queue: 'shipment-q' });
+        });
+
+        it('should answer and acknowledge RPC requests routed to the invalid-message queue', async () => {
+            const { channel, rabbitService, rpcConsumeFor } = await bootstrap({
+                validationErrorDisposition: MessageDisposition.REQUEUE,
+            });
+            const message = createMessage({});
+
+            rabbitService.validateContract.mockRejectedValueOnce(
+                new ContractViolationError('price-q@1', ["/ must have required property 'sku'"], 'invalid-q'),
+            );
+
+            await rpcConsumeFor('price-q')(message);
+
+            expect(channel.sendToQueue).toHaveBeenCalledWith(
+                'reply-q',
+                expect.any(Buffer),
+                expect.objectContaining({ headers: { 'x-rpc-error': true, 'x-rpc-responder': 'price-q' } }),
+            );
+            expect(JSON.parse(channel.sendToQueue.mock.calls[0][1].toString()).error.name).toBe(
+                'ContractViolationError',
+            );
+            expect(channel.ack).toHaveBeenCalledWith(message);
+            expect(channel.nack).not.toHaveBeenCalled();
+        });
+
+        it('should upcast payloads of older message versions before RPC handlers see them', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap({
+                upcasters: [{ fromVersion: 1, type: 'sum.request', upcast: ({ x, y }) => ({ a: x, b: y }) }],
+            });
+            const message = createMessage({ x: 2, y: 3 });
+
+            message.properties.type = 'sum.request';
+
+            await rpcConsumeFor('sum-q')(message);
+
+            expect(channel.sendToQueue).toHaveBeenCalledWith('reply-q', Buffer.from('5'), expect.any(Object));
+        });
+
+        it('should resolve parameter decorators for RPC handlers', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+
+            await rpcConsumeFor('sum-q')(createMessage({ a: 2, b: 3 }));
+
+            expect(channel.sendToQueue).toHaveBeenCalledWith('reply-q', Buffer.from('5'), {
+                contentType: 'application/json',
+                correlationId: 'corr-1',
+                headers: { 'x-rpc-responder': 'sum-q' },
+                persistent: false,
+            });
+            expect(channel.ack).toHaveBeenCalled();
+        });
+
+        it('should pass the abort signal of the request to RPC handlers', async () => {
+            const { consumer, rabbitService, rpcConsumeFor } = await bootstrap();
+            const controller = new AbortController();
+            const release = jest.fn();
+
+            rabbitService.trackRpcRequest.mockReturnValueOnce({ release, signal: controller.signal });
+
+            await rpcConsumeFor('report-q')(createMessage({}));
+
+            expect(rabbitService.trackRpcRequest).toHaveBeenCalledWith('corr-1');
+            expect(consumer.received).toEqual([controller.signal]);
+            expect(release).toHaveBeenCalled();
+            expect(rabbitService.listenForRpcCancellations).not.toHaveBeenCalled();
+        });
+
+        it('should skip RPC requests whose deadline has passed', async () => {
+            const { channel, consumer, rabbitService, rpcConsumeFor } = await bootstrap();
+            const message = createMessage({}, { 'x-rpc-deadline': Date.now() - 1 });
+
+            await rpcConsumeFor('quota-q')(message);
+
+            expect(consumer.received).toEqual([]);
+            expect(rabbitService.trackRpcRequest).not.toHaveBeenCalled();
+            expect(channel.sendToQueue).not.toHaveBeenCalled();
+            expect(channel.ack).toHaveBeenCalledWith(message);
+        });
+
+        it('should expose the remaining time and run the handler within the deadline', async () => {
+            const { consumer, rpcConsumeFor } = await bootstrap();
+            const deadline = Date.now() + 5000;
+
+            await rpcConsumeFor('quota-q')(createMessage({}, { 'x-rpc-deadline': deadline }));
+
+            const [remaining, currentDeadline] = consumer.received as [number, number];
+
+            expect(remaining).toBeGreaterThan(0);
+            expect(remaining).toBeLessThanOrEqual(5000);
+            expect(currentDeadline).toBe(deadline);
+        });
+
+        describe('streaming', () => {
+            const streamRequest = (payload: unknown) => createMessage(payload, { 'x-rpc-stream': true });
+            const sentReplies = (channel: any) =>
+                channel.sendToQueue.mock.calls.map((call: any[]) => [
+                    JSON.parse(call[1].toString()),
+                    call[2].headers ?? {},
+                ]);
+
+            it('should stream the values of an async generator followed by an end reply', async () => {
+                const { channel, rpcConsumeFor } = await bootstrap();
+                const message = streamRequest({ count: 2 });
+
+                await rpcConsumeFor('rows-q')(message);
+
+                expect(sentReplies(channel)).toEqual([
+                    [{ row: 1 }, { 'x-rpc-responder': 'rows-q', 'x-rpc-stream-frame': 'chunk' }],
+                    [{ row: 2 }, { 'x-rpc-responder': 'rows-q', 'x-rpc-stream-frame': 'chunk' }],
+                    [null, { 'x-rpc-responder': 'rows-q', 'x-rpc-stream-frame': 'end' }],
+                ]);
+                expect(channel.ack).toHaveBeenCalledWith(message);
+            });
+
+            it('should wait for credit before each chunk of a caller granting credit', async () => {
+                const { channel, rabbitService, rpcConsumeFor, streamCredit } = await bootstrap();
+
+                await rpcConsumeFor('rows-q')(createMessage({ count: 2 }, { 'x-rpc-stream': 5 }));
+
+                const credited = { 'x-rpc-stream-credit-queue': 'amq.gen-credit', 'x-rpc-stream-frame': 'chunk' };
+
+                expect(rabbitService.openRpcStreamCredit).toHaveBeenCalledWith(5);
+                expect(streamCredit.waitForCredit).toHaveBeenCalledTimes(2);
+                expect(sentReplies(channel)).toEqual([
+                    [{ row: 1 }, { 'x-rpc-responder': 'rows-q', ...credited }],
+                    [{ row: 2 }, { 'x-rpc-responder': 'rows-q', ...credited }],
+                    [null, { 'x-rpc-responder': 'rows-q', 'x-rpc-stream-frame': 'end' }],
+                ]);
+                expect(streamCredit.close).toHaveBeenCalledTimes(1);
+            });
+
+            it('should stop streaming when the caller stops consuming', async () => {
+                const { channel, rpcConsumeFor, streamCredit } = await bootstrap();
+                const message = createMessage({ count: 3 }, { 'x-rpc-stream': 5 });
+
+                streamCredit.waitForCredit.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+                await rpcConsumeFor('rows-q')(message);
+
+                expect(sentReplies(channel).map(([value]: unknown[]) => value)).toEqual([{ row: 1 }]);
+                expect(streamCredit.close).toHaveBeenCalledTimes(1);
+                expect(channel.ack).toHaveBeenCalledWith(message);
+            });
+
+            it('should stream the values of an observable', async () => {
+                const { channel, rpcConsumeFor } = await bootstrap();
+
+                await rpcConsumeFor('ticks-q')(streamRequest({}));
+
+                expect(sentReplies(channel).map(([value]: unknown[]) => value)).toEqual([1, 2, 3, null]);
+            });
+
+            it('should reply with the last value of an observable to a plain request', async () => {
+                const { channel, rpcConsumeFor } = await bootstrap();
+
+                await rpcConsumeFor('ticks-q')(createMessage({}));
+
+                expect(sentReplies(channel)).toEqual([[3, { 'x-rpc-responder': 'ticks-q' }]]);
+            });
+
+            it('should pass the values of an observable to interceptors of a plain request', async () => {
+                const { channel, rpcConsumeFor } = await bootstrap();
+
+                await rpcConsumeFor('wrapped-ticks-q')(createMessage({}));
+
+                expect(sentReplies(channel)).toEqual([[{ data: 3 }, { 'x-rpc-responder': 'wrapped-ticks-q' }]]);
+            });
+
+            it('should reply with all values at once to a plain request', async () => {
+                const { channel, rpcConsumeFor } = await bootstrap();
+
+                await rpcConsumeFor('rows-q')(createMessage({ count: 2 }));
+
+                expect(sentReplies(channel)).toEqual([[[{ row: 1 }, { row: 2 }], { 'x-rpc-responder': 'rows-q' }]]);
+            });
+
+            it('should end the stream with an error reply when the handler fails mid-stream', async () => {
+                const { channel, rpcConsumeFor } = await bootstrap();
+                const message = streamRequest({});
+
+                await rpcConsumeFor('broken-rows-q')(message);
+
+                const replies = sentReplies(channel);
+
+                expect(replies).toHaveLength(2);
+                expect(replies[0]).toEqual([
+                    { row: 1 },
+                    { 'x-rpc-responder': 'broken-rows-q', 'x-rpc-stream-frame': 'chunk' },
+                ]);
+                expect(replies[1][0].error.message).toBe('Cursor closed');
+                expect(replies[1][1]).toEqual({ 'x-rpc-error': true, 'x-rpc-responder': 'broken-rows-q' });
+                expect(channel.ack).toHaveBeenCalledWith(message);
+            });
+        });
+
+        it('should listen for RPC cancellations when enabled', async () => {
+            const { rabbitService } = await bootstrap({ rpcCancellation: true });
+
+            expect(rabbitService.listenForRpcCancellations).toHaveBeenCalled();
+        });
+
+        it('should apply parameter pipes to the payload', async () => {
+            const { consumeFor, consumer } = await bootstrap();
+
+            await consumeFor('count-q')({ count: '42' }, createMessage({ count: '42' }));
+
+            expect(consumer.received).toEqual([42]);
+        });
+
+        it('should apply method-level pipes', async () => {
+            const { consumeFor, consumer } = await bootstrap();
+
+            await consumeFor('name-q')({ name: '  alice  ' }, createMessage({ name: '  alice  ' }));
+
+            expect(consumer.received).toEqual(['alice']);
+        });
+
+        it('should use the decorator disposition when a pipe rejects the payload', async () => {
+            const { consumeFor, consumeOptionsFor } = await bootstrap();
+
+            const error = await consumeFor('count-q')({ count: 'abc' }, createMessage({ count: 'abc' })).catch(
+                (e: unknown) => e,
+            );
+
+            expect(error).toBeInstanceOf(BadRequestException);
+            expect(await consumeOptionsFor('count-q').errorHandler(error)).toBe(MessageDisposition.REQUEUE);
+        });
+
+        it('should fall back to the module disposition for validation errors', async () => {
+            const { consumeOptionsFor } = await bootstrap({ validationErrorDisposition: MessageDisposition.ACK });
+
+            expect(await consumeOptionsFor('name-q').errorHandler(new BadRequestException())).toBe(
+                MessageDisposition.ACK,
+            );
+            expect(await consumeOptionsFor('name-q').errorHandler(new Error('boom'))).toBeUndefined();
+        });
+
+        it('should reply with the validation error for RPC handlers', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+            const message = createMessage({ value: 'abc' });
+
+            await rpcConsumeFor('double-q')(message);
+
+            const reply = JSON.parse(channel.sendToQueue.mock.calls[0][1].toString());
+
+            expect(channel.sendToQueue.mock.calls[0][0]).toBe('reply-q');
+            expect(reply.error.name).toBe('BadRequestException');
+            expect(channel.ack).toHaveBeenCalledWith(message);
+            expect(channel.nack).not.toHaveBeenCalled();
+        });
+
+        it('should reply to RPC callers with an error envelope when handling fails', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+            const message = createMessage({});
+
+            await rpcConsumeFor('stock-q')(message);
+
+            expect(channel.sendToQueue).toHaveBeenCalledWith('reply-q', expect.any(Buffer), {
+                contentType: 'application/json',
+                correlationId: 'corr-1',
+                headers: { 'x-rpc-error': true, 'x-rpc-responder': 'stock-q' },
+                persistent: false,
+            });
+            expect(JSON.parse(channel.sendToQueue.mock.calls[0][1].toString())).toEqual({
+                error: { code: 'OUT_OF_STOCK', message: 'Out of stock', name: 'Error' },
+            });
+            expect(channel.ack).toHaveBeenCalledWith(message);
+        });
+        it('should nack RPC requests without replyTo when handling fails', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+            const message = createMessage({});
+
+            delete message.properties.replyTo;
+            await rpcConsumeFor('stock-q')(message);
+
+            expect(channel.sendToQueue).not.toHaveBeenCalled();
+            expect(channel.nack).toHaveBeenCalledWith(message, false, false);
+        });
+        it('should nack RPC requests when no reply can be sent', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+            const message = createMessage({ a: 1, b: 2 });
+
+            channel.sendToQueue.mockRejectedValue(new Error('reply failed'));
+            await rpcConsumeFor('sum-q')(message);
+
+            expect(channel.sendToQueue).toHaveBeenCalledTimes(2);
+            expect(channel.nack).toHaveBeenCalledWith(message, false, false);
+        });
+        it('should invoke guarded handlers when the guard passes', async () => {
+            const { consumeFor, guardedConsumer } = await bootstrap();
+
+            await consumeFor('guarded-q')({ id: 7 }, createMessage({ id: 7 }, { 'x-user-id': 'u-1' }));
+
+            expect(guardedConsumer.received).toEqual([{ id: 7 }]);
+        });
+
+        it('should use the guard rejection disposition when a guard denies the message', async () => {
+            const { consumeFor, consumeOptionsFor, guardedConsumer } = await bootstrap();
+
+            const error = await consumeFor('guarded-q')({ id: 7 }, createMessage({ id: 7 })).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(ForbiddenException);
+            expect(guardedConsumer.received).toEqual([]);
+            expect(await consumeOptionsFor('guarded-q').errorHandler(error)).toBe(MessageDisposition.ACK);
+        });
+
+        it('should fall back to the module disposition for guard rejections', async () => {
+            const { consumeOptionsFor } = await bootstrap({ guardRejectionDisposition: MessageDisposition.REQUEUE });
+
+            expect(await consumeOptionsFor('name-q').errorHandler(new ForbiddenException())).toBe(
+                MessageDisposition.REQUEUE,
+            );
+        });
+
+        it('should reply with the rejection when a guard denies an RPC request', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+
+            await rpcConsumeFor('guarded-rpc-q')(createMessage({ id: 7 }));
+
+            const reply = JSON.parse(channel.sendToQueue.mock.calls[0][1].toString());
+
+            expect(reply.error.name).toBe('ForbiddenException');
+            expect(channel.ack).toHaveBeenCalled();
+        });
+
+        it('should let interceptors map the RPC response before replying', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+
+            await rpcConsumeFor('guarded-rpc-q')(createMessage({ id: 7 }, { 'x-user-id': 'u-1' }));
+
+            expect(JSON.parse(channel.sendToQueue.mock.calls[0][1].toString())).toEqual({ data: { id: 7 } });
+        });
+        it('should let class-level exception filters requeue the message', async () => {
+            const { consumeFor } = await bootstrap();
+
+            await expect(consumeFor('conflict-q')({}, createMessage({}))).resolves.toBe(MessageDisposition.REQUEUE);
+        });
+
+        it('should let method-level exception filters publish elsewhere and ack', async () => {
+            const { consumeFor, rabbitService } = await bootstrap();
+
+            await expect(consumeFor('forward-q')({}, createMessage({}))).resolves.toBe(MessageDisposition.ACK);
+            expect(rabbitService.publish).toHaveBeenCalledWith(
+                'errors',
+                'order.failed',
+                { reason: 'Order rejected' },
+                undefined,
+            );
+        });
+
+        it('should rethrow errors no exception filter handles', async () => {
+            const { consumeFor } = await bootstrap();
+
+            await expect(consumeFor('unfiltered-q')({}, createMessage({}))).rejects.toThrow('Unexpected failure');
+        });
+
+        it('should apply global exception filters', async () => {
+            const { consumeFor } = await bootstrap(undefined, [new NackFilter()]);
+
+            await expect(consumeFor('unfiltered-q')({}, createMessage({}))).resolves.toBe(MessageDisposition.NACK);
+        });
+
+        it('should let exception filters reply to RPC callers with a structured error', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+
+            await rpcConsumeFor('lookup-q')(createMessage({ id: 1 }));
+
+            const [queue, buffer, options] = channel.sendToQueue.mock.calls[0];
+
+            expect(queue).toBe('reply-q');
+            expect(options.correlationId).toBe('corr-1');
+            expect(options.headers).toEqual({ 'x-rpc-error': true, 'x-rpc-responder': 'lookup-q' });
+            expect(JSON.parse(buffer.toString()).error).toEqual(
+                expect.objectContaining({ message: 'Order not found', name: 'NotFoundException' }),
+            );
+            expect(channel.ack).toHaveBeenCalled();
+            expect(channel.nack).not.toHaveBeenCalled();
+        });
+        it('should settle failed messages with the subscriber error handler decision', async () => {
+            const { consumeOptionsFor, rabbitService } = await bootstrap({
+                errorHandler: () => MessageDisposition.ACK,
+            });
+            const message = createMessage({});
+            const context = new RabbitMQContext(message, rabbitService as any);
+
+            await expect(
+                consumeOptionsFor('flaky-q').errorHandler(new Error('Temporary failure'), message, context),
+            ).resolves.toBe(MessageDisposition.REQUEUE);
+        });
+
+        it('should fall back to the module error handler', async () => {
+            const errorHandler = jest.fn().mockResolvedValue(MessageDisposition.ACK);
+            const { consumeOptionsFor, rabbitService } = await bootstrap({ errorHandler });
+            const error = new Error('boom');
+            const message = createMessage({});
+            const context = new RabbitMQContext(message, rabbitService as any);
+
+            await expect(consumeOptionsFor('legacy-q').errorHandler(error, message, context)).resolves.toBe(
+                MessageDisposition.ACK,
+            );
+            expect(errorHandler).toHaveBeenCalledWith(error, message, context);
+        });
+
+        it('should prefer explicit validation dispositions over error handlers', async () => {
+            const errorHandler = jest.fn();
+            const { consumeOptionsFor } = await bootstrap({ errorHandler });
+
+            expect(await consumeOptionsFor('count-q').errorHandler(new BadRequestException())).toBe(
+                MessageDisposition.REQUEUE,
+            );
+            expect(errorHandler).not.toHaveBeenCalled();
+        });
+
+        it('should reply to RPC callers when the error handler decides so', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap();
+
+            await rpcConsumeFor('quote-q')(createMessage({}));
+
+            expect(JSON.parse(channel.sendToQueue.mock.calls[0][1].toString()).error.message).toBe('Quote unavailable');
+            expect(channel.ack).toHaveBeenCalled();
+        });
+
+        it('should reply with the error when the module error handler throws', async () => {
+            const { channel, rpcConsumeFor } = await bootstrap({
+                errorHandler: () => {
+                    throw new Error('Handler failed');
+                },
+            });
+            const message = createMessage({});
+
+            await rpcConsumeFor('stock-q')(message);
+
+            expect(JSON.parse(channel.sendToQueue.mock.calls[0][1].toString()).error.message).toBe('Out of stock');
+            expect(channel.ack).toHaveBeenCalledWith(message);
+        });
+        it('should pass the subscriber retry policy to the consumer', async () => {
+            const { consumeOptionsFor } = await bootstrap();
+
+            expect(consumeOptionsFor('flaky-q').retry).toEqual({ maxAttempts: 5 });
+        });
+        it('should pass the subscriber idempotency options to the consumer', async () => {
+            const { consumeOptionsFor } = await bootstrap();
+
+            expect(consumeOptionsFor('flaky-q').idempotency).toEqual({ ttl: 60000 });
+        });
+        it('should assert the subscriber dead-letter topology and pass it to the consumer', async () => {
+            const { consumeOptionsFor, rabbitService } = await bootstrap();
+
+            expect(rabbitService.assertQueue).toHaveBeenCalledWith('flaky-q', undefined, { queue: 'flaky.failed' });
+            expect(consumeOptionsFor('flaky-q')).toEqual(
+                expect.objectContaining({
+                    deadLetter: { queue: 'flaky.failed' },
+                    handlerName: 'ContextConsumer.handleFlaky',
+                }),
+            );
+        });
+    });
 });
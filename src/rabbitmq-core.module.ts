@@ -1,24 +1,42 @@
-import { ModuleRef, ModulesContainer } from '@nestjs/core';
+import { ExternalContextCreator, ModuleRef, ModulesContainer } from '@nestjs/core';
+import { AsyncLocalStorage } from 'async_hooks';
 
 import { DynamicModule, Global, Logger, Module, OnApplicationBootstrap, Provider } from '@nestjs/common';
 
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
 import { MetadataScanner } from '@nestjs/core/metadata-scanner';
 import * as amqp from 'amqp-connection-manager';
 import { AmqpConnectionManager } from 'amqp-connection-manager';
+import { ConsumeMessage } from 'amqplib';
+import { isObservable } from 'rxjs';
+
+import { RabbitMQParamsFactory } from './context/rabbitmq-params.factory';
+import { RabbitMQContext } from './context/rabbitmq.context';
 
 import { RabbitMQService } from './services/rabbitmq.service';
 import { ServiceDiscoveryService } from './services/service-discovery.service';
 
+import { ContractViolationError } from './errors/contract-violation.error';
+import { CompressionOptions } from './interfaces/compression.interface';
+import { MessageContractDefinition, MessageContractOptions } from './interfaces/contract.interface';
+import { MessageDisposition, RpcStreamFrame } from './interfaces/message-handling.interface';
 import {
+    RabbitErrorHandler,
     RabbitMQModuleAsyncOptions,
     RabbitMQModuleOptions,
     RabbitMQOptionsFactory,
 } from './interfaces/rabbitmq-options.interface';
+import { Serializer } from './interfaces/serializer.interface';
 
+import { compressContent, resolveCompressionOptions } from './utils/compression-utils';
+import { getRpcDeadline, runWithRpcDeadline } from './utils/deadline-utils';
 import { getErrorStack } from './utils/log-utils';
+import { createErrorReply, isGuardRejection, isValidationError, settleMessage } from './utils/message-utils';
+import { isAsyncIterable, observableToAsyncIterable } from './utils/stream-utils';
 
 import {
     DEFAULT_CONNECTION_NAME,
+    MESSAGE_CONTRACT_METADATA,
     RABBIT_CONTROLLER_KEY,
     RABBIT_HANDLER_METADATA,
     RABBIT_RPC_METADATA,
@@ -27,8 +45,31 @@ import {
     RABBITMQ_SERVICE,
     RABBITMQ_SERVICE_DISCOVERY,
     RABBITMQ_SUBSCRIBE_METADATA,
+    RPC_ERROR_HEADER,
+    RPC_RESPONDER_HEADER,
+    RPC_STREAM_CREDIT_QUEUE_HEADER,
+    RPC_STREAM_FRAME_HEADER,
+    RPC_STREAM_HEADER,
 } from './constants';
 
+/**
+ * How an RPC handler's replies are encoded and labelled.
+ */
+interface RpcReplyOptions {
+    compression?: CompressionOptions;
+    creditQueue?: string;
+    frame?: RpcStreamFrame;
+    isError?: boolean;
+    responder: string;
+    serializer: Serializer;
+}
+
+/**
+ * Context of the discovered handler invocation in progress, read by handlers
+ * whose first parameter has no decorator to pass it the payload.
+ */
+const handlerContextStorage = new AsyncLocalStorage<RabbitMQContext>();
+
 /**
  * Core module for RabbitMQ
  */
@@ -37,10 +78,12 @@ import {
 export class RabbitMQCoreModule implements OnApplicationBootstrap {
     private readonly logger = new Logger(RabbitMQCoreModule.name);
     private readonly metadataScanner = new MetadataScanner();
+    private readonly paramsFactory = new RabbitMQParamsFactory();
 
     constructor(
         private readonly moduleRef: ModuleRef,
         private readonly modulesContainer: ModulesContainer,
+        private readonly externalContextCreator: ExternalContextCreator,
     ) {}
 
     /**
@@ -62,7 +105,12 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
             inject: [`${RABBITMQ_CONNECTION_MANAGER}_${connectionName}`],
             provide: `${RABBITMQ_SERVICE}_${connectionName}`,
             useFactory: async (connectionManager: AmqpConnectionManager) => {
-                const service = new RabbitMQService(connectionManager, connectionName, options.logLevel ?? 'error');
+                const service = new RabbitMQService(
+                    connectionManager,
+                    connectionName,
+                    options.logLevel ?? 'error',
+                    options,
+                );
 
                 await service.initialize();
 
@@ -76,7 +124,7 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
                 // Assert queues
                 if (options.queues) {
                     for (const queue of options.queues) {
-                        await service.assertQueue(queue.name, queue.options);
+                        await service.assertQueue(queue.name, queue.options, queue.deadLetter);
                     }
                 }
 
@@ -139,6 +187,7 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
                     connectionManager,
                     connectionName,
                     moduleOptions.logLevel ?? 'error',
+                    moduleOptions,
                 );
 
                 await service.initialize();
@@ -153,7 +202,7 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
                 // Assert queues
                 if (moduleOptions.queues) {
                     for (const queue of moduleOptions.queues) {
-                        await service.assertQueue(queue.name, queue.options);
+                        await service.assertQueue(queue.name, queue.options, queue.deadLetter);
                     }
                 }
 
@@ -251,6 +300,104 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
         return [];
     }
 
+    /**
+     * Wraps a discovered method with Nest's external execution context.
+     * The handler is invoked with the raw `ConsumeMessage` as RPC data and a
+     * {@link RabbitMQContext} as RPC context, so parameter decorators (including custom
+     * `createParamDecorator` ones), guards, interceptors and exception filters resolve against them.
+     * Interceptors see the RPC response before it is sent.
+     * An observable returned by the handler is resolved to its last value, as Nest does.
+     * With `streaming`, used for callers of `requestStream()`, it is turned into an async iterable
+     * instead, so it can be streamed to the caller.
+     */
+    private createContextHandler(
+        instance: Record<string, unknown>,
+        methodName: string,
+        streaming = false,
+    ): (message: ConsumeMessage, context: RabbitMQContext) => Promise<unknown> {
+        const routeArgs: Record<string, { index: number }> =
+            Reflect.getMetadata(ROUTE_ARGS_METADATA, instance.constructor, methodName) ?? {};
+        let method = instance[methodName] as (...args: unknown[]) => unknown;
+
+        if (streaming) {
+            method = this.createStreamingCallback(method);
+        }
+
+        // A first parameter without decorator keeps receiving the payload, e.g. `handle(payload, @RabbitMessage() msg)`
+        if (!Object.values(routeArgs).some(({ index }) => index === 0)) {
+            method = this.createPayloadCallback(method, Object.keys(routeArgs).length > 0);
+        }
+
+        const handler = this.externalContextCreator.create(
+            instance,
+            method,
+            methodName,
+            ROUTE_ARGS_METADATA,
+            this.paramsFactory,
+            undefined,
+            undefined,
+            { filters: true, guards: true, interceptors: true },
+            'rpc',
+        );
+
+        return async (message: ConsumeMessage, context: RabbitMQContext) =>
+            handlerContextStorage.run(context, () => handler(message, context));
+    }
+
+    /**
+     * Wraps a handler method whose first parameter has no decorator so it receives the payload.
+     * Without any parameter decorator, Nest calls the method with the raw message and context,
+     * which are replaced by the payload alone. Pipes do not apply to the undecorated parameter.
+     */
+    private createPayloadCallback(
+        method: (...args: unknown[]) => unknown,
+        hasDecoratedParams: boolean,
+    ): (...args: unknown[]) => unknown {
+        return this.copyMethodMetadata(method, function (this: unknown, ...args: unknown[]): unknown {
+            const payload = handlerContextStorage.getStore()?.getPayload();
+
+            return method.apply(this, hasDecoratedParams ? [payload, ...args.slice(1)] : [payload]);
+        });
+    }
+
+    /**
+     * Wraps a handler method so observables it returns, directly or through a promise,
+     * become async iterables. The method's metadata is copied so guards, pipes,
+     * interceptors and filters still apply.
+     */
+    private createStreamingCallback(method: (...args: unknown[]) => unknown): (...args: unknown[]) => unknown {
+        const toIterable = (result: unknown): unknown =>
+            isObservable(result) ? observableToAsyncIterable(result) : result;
+        const callback = function (this: unknown, ...args: unknown[]): unknown {
+            const result = method.apply(this, args);
+
+            return result instanceof Promise ? result.then(toIterable) : toIterable(result);
+        };
+
+        return this.copyMethodMetadata(method, callback);
+    }
+
+    /**
+     * Copies the metadata and name of a handler method onto the callback wrapping it,
+     * so guards, pipes, interceptors and filters declared on the method still apply.
+     */
+    private copyMethodMetadata(
+        method: (...args: unknown[]) => unknown,
+        callback: (...args: unknown[]) => unknown,
+    ): (...args: unknown[]) => unknown {
+        for (const key of Reflect.getOwnMetadataKeys(method)) {
+            Reflect.defineMetadata(key, Reflect.getOwnMetadata(key, method), callback);
+        }
+
+        Object.defineProperty(callback, 'name', { value: method.name });
+
+        return callback;
+    }
+
+    private getModuleOptions(connectionName: string): RabbitMQModuleOptions | undefined {
+        return this.moduleRef.get(`${RABBITMQ_MODULE_OPTIONS}_${connectionName}`, { strict: false });
+    }
+
     private getProviderToken(provider: any): string | undefined {
         return provider?.name || provider?.metatype?.name || provider?.token;
     }
@@ -350,20 +497,43 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
 
         try {
             if (options.queue) {
-                await rabbitService.assertQueue(options.queue, options.queueOptions);
+                await rabbitService.assertQueue(options.queue, options.queueOptions, options.deadLetter);
             }
 
             if (options.exchange && options.routingKey && options.queue) {
                 await rabbitService.bindQueue(options.queue, options.exchange, options.routingKey);
             }
 
-            const handler = (instance as any)[methodName].bind(instance);
+            const handler = this.createContextHandler(instance, methodName);
+            const moduleOptions = this.getModuleOptions(connectionName);
+            const serializer: Serializer | undefined =
+                options.serializer && rabbitService.getSerializers().resolve(options.serializer);
+            const contract = this.registerMessageContract(rabbitService, instance, methodName, options);
 
             if (options.queue) {
                 await rabbitService.consume(
                     options.queue,
-                    async (message: unknown) => handler(message),
-                    options.consumeOptions,
+                    async (payload: unknown, message: ConsumeMessage) => {
+                        // Reuse the payload consume() decoded and upcast instead of decoding it again
+                        const context = new RabbitMQContext(message, rabbitService, undefined, serializer, {
+                            value: payload,
+                        });
+
+                        await this.invokeHandler(handler, message, context);
+
+                        return context.getDisposition();
+                    },
+                    {
+                        ...options.consumeOptions,
+                        contract,
+                        errorHandler: (error: unknown, message: ConsumeMessage, context: RabbitMQContext) =>
+                            this.resolveErrorDisposition(error, message, context, options, moduleOptions),
+                        deadLetter: options.deadLetter,
+                        handlerName: `${instance.constructor?.name}.${methodName}`,
+                        idempotency: options.idempotency,
+                        retry: options.retry,
+                        serializer,
+                    },
                 );
                 this.logger.log(
                     `Registered subscriber: ${instance.constructor?.name}.${methodName} -> ${options.queue}`,
@@ -397,9 +567,20 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
             await rabbitService.assertQueue(options.queue, options.queueOptions);
         }
 
-        const handler = (instance as any)[methodName].bind(instance);
+        const handler = this.createContextHandler(instance, methodName);
+        // Observables are only streamed to callers that asked for a stream
+        const streamHandler = this.createContextHandler(instance, methodName, true);
+        const moduleOptions = this.getModuleOptions(connectionName);
+        const serializers = rabbitService.getSerializers();
+        const serializer: Serializer | undefined = options.serializer && serializers.resolve(options.serializer);
+        const compression = resolveCompressionOptions(undefined, moduleOptions?.compression);
+        const contract = this.registerMessageContract(rabbitService, instance, methodName, options);
         const channel: any = rabbitService.getChannel();
 
+        if (moduleOptions?.rpcCancellation) {
+            await rabbitService.listenForRpcCancellations();
+        }
+
         await channel.consume(
             options.queue,
             async (msg: any) => {
@@ -407,28 +588,59 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
                     return;
                 }
 
+                const deadline = getRpcDeadline(msg);
+
+                // The caller has stopped waiting for the reply
+                if (deadline !== undefined && deadline <= Date.now()) {
+                    this.logger.warn(
+                        `Skipping expired RPC request on ${options.queue} (correlationId=${msg.properties?.correlationId})`,
+                    );
+                    channel.ack?.(msg);
+
+                    return;
+                }
+
+                const { release, signal } = rabbitService.trackRpcRequest(msg.properties?.correlationId);
+                const context = new RabbitMQContext(msg, rabbitService, signal, serializer);
+                // Replies use the handler's serializer, else the request's content type
+                const replyOptions = {
+                    compression,
+                    responder: options.queue as string,
+                    serializer: serializer ?? serializers.get(msg.properties?.contentType) ?? serializers.getDefault(),
+                };
+
                 try {
-                    // message received
-                    const payloadStr = msg.content?.toString();
-                    let payload: unknown = payloadStr;
+                    await rabbitService.validateContract(options.queue, msg, () => context.getPayload(), contract);
+
+                    const response = await runWithRpcDeadline(deadline, () =>
+                        this.invokeHandler(
+                            msg.properties?.headers?.[RPC_STREAM_HEADER] ? streamHandler : handler,
+                            msg,
+                            context,
+                        ),
+                    );
+                    const disposition = context.getDisposition();
 
-                    try {
-                        payload = JSON.parse(payloadStr);
-                    } catch {
-                        this.logger.error(`Failed to parse payload as JSON, using raw string: ${payloadStr}`);
-                    }
+                    // An exception filter decided the fate of the request
+                    if (disposition && disposition !== MessageDisposition.REPLY) {
+                        settleMessage(channel, msg, disposition);
 
-                    const response = await handler(payload);
-                    const responseBuffer = Buffer.isBuffer(response)
-                        ? response
-                        : Buffer.from(JSON.stringify(response ?? null));
+                        return;
+                    }
 
                     if (msg.properties?.replyTo) {
-                        // send reply
-                        await channel.sendToQueue(msg.properties.replyTo, responseBuffer, {
-                            persistent: false,
-                            correlationId: msg.properties.correlationId,
-                        });
+                        const reply = context.getResponse();
+
+                        if (!reply && isAsyncIterable(response)) {
+                            await runWithRpcDeadline(deadline, () =>
+                                this.replyWithStream(rabbitService, channel, msg, response, signal, replyOptions),
+                            );
+                        } else {
+                            await this.reply(channel, msg, reply ? reply.value : response, {
+                                ...replyOptions,
+                                isError: reply?.isError,
+                            });
+                        }
                     }
 
                     channel.ack?.(msg);
@@ -437,7 +649,61 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
                         `Failed to process RPC ${(instance.constructor && (instance.constructor as any).name) || 'Unknown'}.${methodName}`,
                         getErrorStack(error),
                     );
-                    channel.nack?.(msg, false, false);
+
+                    let disposition: MessageDisposition | void = undefined;
+                    // Requests already routed to the invalid-message queue must not be redelivered
+                    const isRouted = error instanceof ContractViolationError && !!error.invalidMessageQueue;
+
+                    try {
+                        if (!isRouted) {
+                            disposition = await this.resolveErrorDisposition(
+                                error,
+                                msg,
+                                context,
+                                options,
+                                moduleOptions,
+                            );
+                        }
+                    } catch (handlerError: unknown) {
+                        this.logger.error('RPC error handler failed', getErrorStack(handlerError));
+                    }
+
+                    // Callers waiting for a reply get the error instead of a timeout
+                    disposition =
+                        disposition ??
+                        (msg.properties?.replyTo
+                            ? MessageDisposition.REPLY
+                            : isRouted
+                              ? MessageDisposition.ACK
+                              : MessageDisposition.NACK);
+
+                    if (disposition === MessageDisposition.REPLY && msg.properties?.replyTo) {
+                        const reply = context.getResponse();
+
+                        try {
+                            if (reply) {
+                                await this.reply(channel, msg, reply.value, {
+                                    ...replyOptions,
+                                    isError: reply.isError,
+                                });
+                            } else {
+                                await this.reply(channel, msg, createErrorReply(error), {
+                                    ...replyOptions,
+                                    isError: true,
+                                });
+                            }
+
+                            channel.ack?.(msg);
+
+                            return;
+                        } catch (replyError: unknown) {
+                            this.logger.error('Failed to send RPC error reply', getErrorStack(replyError));
+                        }
+                    }
+
+                    settleMessage(channel, msg, disposition);
+                } finally {
+                    release();
                 }
             },
             {
@@ -450,6 +716,175 @@ export class RabbitMQCoreModule implements OnApplicationBootstrap {
         this.logger.log(`Registered RPC handler: ${instance.constructor?.name}.${methodName} -> ${options.queue}`);
     }
 
+    /**
+     * Invokes a context handler. Errors that an exception filter has already
+     * settled through the {@link RabbitMQContext} are not rethrown.
+     */
+    private async invokeHandler(
+        handler: (message: ConsumeMessage, context: RabbitMQContext) => Promise<unknown>,
+        message: ConsumeMessage,
+        context: RabbitMQContext,
+    ): Promise<unknown> {
+        try {
+            return await handler(message, context);
+        } catch (error: unknown) {
+            if (context.isSettled()) {
+                return undefined;
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Registers the `@MessageContract()` of a handler, if it declares one, for the handler's
+     * queue and routing key so publishers on the same connection validate against it too.
+     */
+    private registerMessageContract(
+        rabbitService: RabbitMQService,
+        instance: Record<string, unknown>,
+        methodName: string,
+        options: any,
+    ): MessageContractDefinition | undefined {
+        const contract: MessageContractOptions | undefined = Reflect.getMetadata(
+            MESSAGE_CONTRACT_METADATA,
+            instance[methodName] as object,
+        );
+
+        if (!contract) {
+            return undefined;
+        }
+
+        const definition: MessageContractDefinition = {
+            ...contract,
+            exchange: options.exchange,
+            queue: options.queue,
+            routingKey: options.routingKey,
+        };
+
+        rabbitService.getContracts().register(definition);
+
+        return definition;
+    }
+
+    /**
+     * Sends a reply to an RPC caller, keeping its correlation id.
+     * Buffers are sent as-is, anything else is encoded by `serializer` and compressed per `compression`.
+     * Replies name their `responder` queue in the `x-rpc-responder` header;
+     * error replies are marked with the `x-rpc-error` header.
+     */
+    private async reply(
+        channel: any,
+        msg: ConsumeMessage,
+        response: unknown,
+        { compression, creditQueue, frame, isError = false, responder, serializer }: RpcReplyOptions,
+    ): Promise<void> {
+        const isBuffer = Buffer.isBuffer(response);
+        const { content, contentEncoding } = isBuffer
+            ? { content: response, contentEncoding: undefined }
+            : await compressContent(serializer.serialize(response ?? null), serializer.contentEncoding, compression);
+
+        await channel.sendToQueue(msg.properties.replyTo, content, {
+            persistent: false,
+            correlationId: msg.properties.correlationId,
+            ...(!isBuffer && { contentType: serializer.contentType }),
+            ...(contentEncoding && { contentEncoding }),
+            headers: {
+                [RPC_RESPONDER_HEADER]: responder,
+                ...(isError && { [RPC_ERROR_HEADER]: true }),
+                ...(frame && { [RPC_STREAM_FRAME_HEADER]: frame }),
+                ...(creditQueue && { [RPC_STREAM_CREDIT_QUEUE_HEADER]: creditQueue }),
+            },
+        });
+    }
+
+    /**
+     * Sends the values of a streaming RPC handler as chunk replies, one after another,
+     * followed by an end reply. Each chunk waits for credit from the caller, which grants
+     * one per value it consumed, so a slow caller slows the handler down instead of
+     * overflowing its buffer. Stops early when the caller cancels the request or stops consuming.
+     * Callers using `request()` rather than `requestStream()` get all values in one reply.
+     */
+    private async replyWithStream(
+        rabbitService: RabbitMQService,
+        channel: any,
+        msg: ConsumeMessage,
+        stream: AsyncIterable<unknown>,
+        signal: AbortSignal,
+        replyOptions: RpcReplyOptions,
+    ): Promise<void> {
+        const initialCredit: unknown = msg.properties.headers?.[RPC_STREAM_HEADER];
+
+        if (!initialCredit) {
+            const values: unknown[] = [];
+
+            for await (const value of stream) {
+                values.push(value);
+            }
+
+            await this.reply(channel, msg, values, replyOptions);
+
+            return;
+        }
+
+        // Callers that only mark the request as a stream do not grant credit
+        const credit =
+            typeof initialCredit === 'number' ? await rabbitService.openRpcStreamCredit(initialCredit) : undefined;
+        const deadline = getRpcDeadline(msg);
+
+        try {
+            for await (const value of stream) {
+                if (signal.aborted || (credit && !(await credit.waitForCredit(signal, deadline)))) {
+                    return;
+                }
+
+                await this.reply(channel, msg, value, {
+                    ...replyOptions,
+                    creditQueue: credit?.queue,
+                    frame: RpcStreamFrame.CHUNK,
+                });
+            }
+
+            await this.reply(channel, msg, null, { ...replyOptions, frame: RpcStreamFrame.END });
+        } finally {
+            await credit?.close();
+        }
+    }
+
+    /**
+     * Picks the disposition for a failed discovered handler.
+     * Explicit guard rejection and validation dispositions win, then the handler's
+     * `errorHandler`, then the module-level one.
+     * Returns undefined when the default handling applies.
+     */
+    private async resolveErrorDisposition(
+        error: unknown,
+        message: ConsumeMessage,
+        context: RabbitMQContext,
+        options: any,
+        moduleOptions?: RabbitMQModuleOptions,
+    ): Promise<MessageDisposition | void> {
+        if (isGuardRejection(error)) {
+            const disposition = options.guardRejectionDisposition ?? moduleOptions?.guardRejectionDisposition;
+
+            if (disposition) return disposition;
+        }
+
+        if (isValidationError(error)) {
+            const disposition = options.validationErrorDisposition ?? moduleOptions?.validationErrorDisposition;
+
+            if (disposition) return disposition;
+        }
+
+        const errorHandler: RabbitErrorHandler | undefined = options.errorHandler ?? moduleOptions?.errorHandler;
+
+        if (!errorHandler) {
+            return undefined;
+        }
+
+        return (await errorHandler(error, message, context)) ?? context.getDisposition();
+    }
+
     private shouldScanModule(moduleRef: any, options?: RabbitMQModuleOptions): boolean {
         const scope = options?.scanScope ?? 'all';
 
@@ -0,0 +1,9 @@
+export * from './json.serializer';
+
+export * from './msgpack.serializer';
+
+export * from './raw.serializer';
+
+export * from './schema.serializer';
+
+export * from './serializer.registry';
@@ -0,0 +1,40 @@
+import { JsonSerializer } from './json.serializer';
+
+describe('JsonSerializer', () => {
+    it('should round-trip JSON payloads', () => {
+        const serializer = new JsonSerializer();
+        const content = serializer.serialize({ orderId: 42, tags: ['new'] });
+
+        expect(content.toString()).toBe('{"orderId":42,"tags":["new"]}');
+        expect(serializer.deserialize(content)).toEqual({ orderId: 42, tags: ['new'] });
+    });
+
+    it('should encode undefined as null', () => {
+        expect(new JsonSerializer().serialize(undefined).toString()).toBe('null');
+    });
+
+    it('should decode content that is not JSON as a string', () => {
+        expect(new JsonSerializer().deserialize(Buffer.from('plain text'))).toBe('plain text');
+    });
+
+    it('should encode BigInt values with an n suffix', () => {
+        expect(new JsonSerializer().serialize({ amount: 12345678901234567890n }).toString()).toBe(
+            '{"amount":"12345678901234567890n"}',
+        );
+    });
+
+    it('should leave dates and BigInt strings alone by default', () => {
+        const content = Buffer.from('{"at":"2024-05-01T10:00:00.000Z","amount":"42n"}');
+
+        expect(new JsonSerializer().deserialize(content)).toEqual({ amount: '42n', at: '2024-05-01T10:00:00.000Z' });
+    });
+
+    it('should revive dates and BigInt values when enabled', () => {
+        const serializer = new JsonSerializer({ reviveBigInts: true, reviveDates: true });
+        const at = new Date('2024-05-01T10:00:00.000Z');
+
+        const payload = serializer.deserialize(serializer.serialize({ amount: 42n, at, day: '2024-05-01' }));
+
+        expect(payload).toEqual({ amount: 42n, at, day: '2024-05-01' });
+    });
+});
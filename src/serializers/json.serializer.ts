@@ -0,0 +1,86 @@
+import type { Serializer } from '../interfaces/serializer.interface';
+
+const BIGINT_PATTERN = /^-?\d+n$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Options for `JsonSerializer`.
+ */
+export interface JsonSerializerOptions {
+    /**
+     * Turn strings like `"42n"`, which is how BigInt values are encoded, back into BigInt values.
+     * @default false
+     */
+    reviveBigInts?: boolean;
+
+    /**
+     * Turn ISO 8601 date-time strings back into `Date` instances.
+     * @default false
+     */
+    reviveDates?: boolean;
+}
+
+/**
+ * JSON serializer for `application/json`, the default of every connection.
+ * BigInt values are encoded as strings with an `n` suffix, e.g. `"42n"`.
+ * Content that is not valid JSON is decoded as a string.
+ *
+ * @example
+ * ```typescript
+ * RabbitMQModule.forRoot({
+ *   uri: 'amqp://localhost',
+ *   serializer: new JsonSerializer({ reviveDates: true, reviveBigInts: true }),
+ * });
+ * ```
+ */
+export class JsonSerializer implements Serializer {
+    readonly contentType = 'application/json';
+
+    /**
+     * Creates an instance of JsonSerializer.
+     *
+     * @param {JsonSerializerOptions} [options] - Which values to revive when decoding
+     */
+    constructor(private readonly options: JsonSerializerOptions = {}) {}
+
+    deserialize(content: Buffer): unknown {
+        const text = content.toString();
+
+        try {
+            return JSON.parse(text, (_key, value: unknown) => this.revive(value)) as unknown;
+        } catch {
+            return text;
+        }
+    }
+
+    serialize(value: unknown): Buffer {
+        return Buffer.from(
+            JSON.stringify(value ?? null, (_key, item: unknown) =>
+                typeof item === 'bigint' ? `${item.toString()}n` : item,
+            ),
+        );
+    }
+
+    /**
+     * Revives a parsed string value according to the options.
+     *
+     * @private
+     */
+    private revive(value: unknown): unknown {
+        if (typeof value !== 'string') {
+            return value;
+        }
+
+        if (this.options.reviveBigInts && BIGINT_PATTERN.test(value)) {
+            return BigInt(value.slice(0, -1));
+        }
+
+        if (this.options.reviveDates && ISO_DATE_PATTERN.test(value)) {
+            const date = new Date(value);
+
+            return Number.isNaN(date.getTime()) ? value : date;
+        }
+
+        return value;
+    }
+}
@@ -0,0 +1,86 @@
+import { MessagePackSerializer } from './msgpack.serializer';
+
+describe('MessagePackSerializer', () => {
+    const serializer = new MessagePackSerializer();
+    const roundTrip = (value: unknown) => serializer.deserialize(serializer.serialize(value));
+
+    it('should encode with the standard formats', () => {
+        expect(serializer.serialize({ a: 1 })).toEqual(Buffer.from([0x81, 0xa1, 0x61, 0x01]));
+        expect(serializer.serialize([true, null, -1])).toEqual(Buffer.from([0x93, 0xc3, 0xc0, 0xff]));
+        expect(serializer.serialize(1.5)).toEqual(Buffer.from([0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0]));
+    });
+
+    it('should round-trip nested payloads', () => {
+        const payload = {
+            items: [{ qty: 2, sku: 'A-1' }],
+            note: 'x'.repeat(300),
+            price: 19.99,
+            tags: Array.from({ length: 20 }, (_, index) => index),
+            valid: false,
+        };
+
+        expect(roundTrip(payload)).toEqual(payload);
+    });
+
+    it.each([
+        0,
+        127,
+        128,
+        255,
+        256,
+        65535,
+        65536,
+        2 ** 32,
+        Number.MAX_SAFE_INTEGER,
+        -32,
+        -33,
+        -129,
+        -32769,
+        -(2 ** 31) - 1,
+    ])('should round-trip the integer %p', (value) => {
+        expect(roundTrip(value)).toBe(value);
+    });
+
+    it('should round-trip BigInt values outside the safe integer range', () => {
+        expect(roundTrip(2n ** 63n)).toBe(2n ** 63n);
+        expect(roundTrip(-(2n ** 62n))).toBe(-(2n ** 62n));
+        expect(roundTrip(42n)).toBe(42);
+        expect(() => serializer.serialize(2n ** 64n)).toThrow(RangeError);
+    });
+
+    it('should round-trip dates with the timestamp extension', () => {
+        for (const date of [
+            new Date(0),
+            new Date('2024-05-01T10:00:00.123Z'),
+            new Date(-1500),
+            new Date(2 ** 35 * 1000),
+        ]) {
+            expect(roundTrip(date)).toEqual(date);
+        }
+    });
+
+    it('should encode binary data, maps and objects with toJSON', () => {
+        expect(roundTrip({ data: Buffer.from([1, 2]) })).toEqual({ data: Buffer.from([1, 2]) });
+        expect(roundTrip(new Map([['a', 1]]))).toEqual({ a: 1 });
+        expect(roundTrip({ id: { toJSON: () => 'id-1' }, skipped: undefined })).toEqual({ id: 'id-1' });
+    });
+
+    it('should keep __proto__ keys as own properties', () => {
+        const payload = serializer.deserialize(
+            Buffer.from([0x81, 0xa9, ...Buffer.from('__proto__'), 0x81, 0xa1, 0x78, 0x01]),
+        );
+
+        expect(Object.getPrototypeOf(payload)).toBe(Object.prototype);
+        expect(Object.keys(payload as object)).toEqual(['__proto__']);
+    });
+
+    it('should reject truncated, trailing and unsupported content', () => {
+        expect(() => serializer.deserialize(Buffer.from([0xa3, 0x61]))).toThrow(
+            'Unexpected end of MessagePack content',
+        );
+        expect(() => serializer.deserialize(Buffer.from([0x01, 0x02]))).toThrow('1 trailing bytes');
+        expect(() => serializer.deserialize(Buffer.from([0xd4, 0x05, 0x00]))).toThrow('extension type 5');
+        expect(() => serializer.deserialize(Buffer.from([0xc1]))).toThrow('Invalid MessagePack type byte 0xc1');
+        expect(() => serializer.serialize(() => undefined)).toThrow(TypeError);
+    });
+});
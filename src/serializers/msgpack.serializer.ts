@@ -0,0 +1,360 @@
+import type { Serializer } from '../interfaces/serializer.interface';
+
+const TIMESTAMP_EXTENSION = -1;
+const UINT32_LIMIT = 2 ** 32;
+const INT64_MIN = -(2n ** 63n);
+const UINT64_MAX = 2n ** 64n - 1n;
+
+interface Reader {
+    buffer: Buffer;
+    offset: number;
+}
+
+function bytes(...values: number[]): Buffer {
+    return Buffer.from(values);
+}
+
+function encodeBigInt(value: bigint, chunks: Buffer[]): void {
+    if (value < INT64_MIN || value > UINT64_MAX) {
+        throw new RangeError(`BigInt ${value.toString()} does not fit in 64 bits`);
+    }
+
+    const chunk = Buffer.alloc(9);
+
+    if (value < 0n) {
+        chunk[0] = 0xd3;
+        chunk.writeBigInt64BE(value, 1);
+    } else {
+        chunk[0] = 0xcf;
+        chunk.writeBigUInt64BE(value, 1);
+    }
+
+    chunks.push(chunk);
+}
+
+function encodeDate(date: Date, chunks: Buffer[]): void {
+    const time = date.getTime();
+    const seconds = Math.floor(time / 1000);
+    const nanoseconds = (time - seconds * 1000) * 1_000_000;
+
+    if (seconds >= 0 && seconds < UINT32_LIMIT && nanoseconds === 0) {
+        const chunk = Buffer.alloc(6);
+
+        chunk.writeUInt8(0xd6, 0);
+        chunk.writeInt8(TIMESTAMP_EXTENSION, 1);
+        chunk.writeUInt32BE(seconds, 2);
+        chunks.push(chunk);
+    } else if (seconds >= 0 && seconds < 2 ** 34) {
+        const chunk = Buffer.alloc(10);
+
+        chunk.writeUInt8(0xd7, 0);
+        chunk.writeInt8(TIMESTAMP_EXTENSION, 1);
+        chunk.writeUInt32BE(nanoseconds * 4 + Math.floor(seconds / UINT32_LIMIT), 2);
+        chunk.writeUInt32BE(seconds % UINT32_LIMIT, 6);
+        chunks.push(chunk);
+    } else {
+        const chunk = Buffer.alloc(15);
+
+        chunk.writeUInt8(0xc7, 0);
+        chunk.writeUInt8(12, 1);
+        chunk.writeInt8(TIMESTAMP_EXTENSION, 2);
+        chunk.writeUInt32BE(nanoseconds, 3);
+        chunk.writeBigInt64BE(BigInt(seconds), 7);
+        chunks.push(chunk);
+    }
+}
+
+function encodeHeader(
+    length: number,
+    chunks: Buffer[],
+    fix: number | undefined,
+    formats: [number, number, number],
+): void {
+    if (fix !== undefined && length < 16) {
+        chunks.push(bytes(fix | length));
+    } else if (formats[0] !== 0 && length < 0x100) {
+        chunks.push(bytes(formats[0], length));
+    } else if (length < 0x10000) {
+        const chunk = Buffer.alloc(3);
+
+        chunk.writeUInt8(formats[1], 0);
+        chunk.writeUInt16BE(length, 1);
+        chunks.push(chunk);
+    } else {
+        const chunk = Buffer.alloc(5);
+
+        chunk.writeUInt8(formats[2], 0);
+        chunk.writeUInt32BE(length, 1);
+        chunks.push(chunk);
+    }
+}
+
+function encodeNumber(value: number, chunks: Buffer[]): void {
+    if (!Number.isSafeInteger(value)) {
+        const chunk = Buffer.alloc(9);
+
+        chunk.writeUInt8(0xcb, 0);
+        chunk.writeDoubleBE(value, 1);
+        chunks.push(chunk);
+    } else if (value >= 0 && value < 0x80) {
+        chunks.push(bytes(value));
+    } else if (value < 0 && value >= -32) {
+        chunks.push(bytes(value & 0xff));
+    } else if (value >= 0 && value < 0x100) {
+        chunks.push(bytes(0xcc, value));
+    } else if (value >= 0 && value < 0x10000) {
+        const chunk = Buffer.alloc(3);
+
+        chunk.writeUInt8(0xcd, 0);
+        chunk.writeUInt16BE(value, 1);
+        chunks.push(chunk);
+    } else if (value >= 0 && value < UINT32_LIMIT) {
+        const chunk = Buffer.alloc(5);
+
+        chunk.writeUInt8(0xce, 0);
+        chunk.writeUInt32BE(value, 1);
+        chunks.push(chunk);
+    } else if (value >= -0x80 && value < 0) {
+        chunks.push(bytes(0xd0, value & 0xff));
+    } else if (value >= -0x8000 && value < 0) {
+        const chunk = Buffer.alloc(3);
+
+        chunk.writeUInt8(0xd1, 0);
+        chunk.writeInt16BE(value, 1);
+        chunks.push(chunk);
+    } else if (value >= -0x80000000 && value < 0) {
+        const chunk = Buffer.alloc(5);
+
+        chunk.writeUInt8(0xd2, 0);
+        chunk.writeInt32BE(value, 1);
+        chunks.push(chunk);
+    } else {
+        encodeBigInt(BigInt(value), chunks);
+    }
+}
+
+function encodeValue(value: unknown, chunks: Buffer[]): void {
+    if (value === null || value === undefined) {
+        chunks.push(bytes(0xc0));
+    } else if (typeof value === 'boolean') {
+        chunks.push(bytes(value ? 0xc3 : 0xc2));
+    } else if (typeof value === 'number') {
+        encodeNumber(value, chunks);
+    } else if (typeof value === 'bigint') {
+        encodeBigInt(value, chunks);
+    } else if (typeof value === 'string') {
+        const content = Buffer.from(value);
+
+        if (content.length < 32) {
+            chunks.push(bytes(0xa0 | content.length));
+        } else {
+            encodeHeader(content.length, chunks, undefined, [0xd9, 0xda, 0xdb]);
+        }
+
+        chunks.push(content);
+    } else if (value instanceof Uint8Array) {
+        encodeHeader(value.byteLength, chunks, undefined, [0xc4, 0xc5, 0xc6]);
+        chunks.push(Buffer.from(value.buffer, value.byteOffset, value.byteLength));
+    } else if (value instanceof Date) {
+        encodeDate(value, chunks);
+    } else if (Array.isArray(value)) {
+        encodeHeader(value.length, chunks, 0x90, [0, 0xdc, 0xdd]);
+        value.forEach((item) => encodeValue(item, chunks));
+    } else if (value instanceof Map) {
+        encodeHeader(value.size, chunks, 0x80, [0, 0xde, 0xdf]);
+        value.forEach((item, key) => {
+            encodeValue(key, chunks);
+            encodeValue(item, chunks);
+        });
+    } else if (typeof value === 'object') {
+        if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+            encodeValue((value as { toJSON: () => unknown }).toJSON(), chunks);
+
+            return;
+        }
+
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+
+        encodeHeader(entries.length, chunks, 0x80, [0, 0xde, 0xdf]);
+        entries.forEach(([key, item]) => {
+            encodeValue(key, chunks);
+            encodeValue(item, chunks);
+        });
+    } else {
+        throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+    }
+}
+
+function decodeArray(reader: Reader, length: number): unknown[] {
+    return Array.from({ length }, () => decodeValue(reader));
+}
+
+function decodeExtension(reader: Reader, length: number): Date {
+    const type = read(reader, 1).readInt8(0);
+    const data = read(reader, length);
+
+    if (type !== TIMESTAMP_EXTENSION) {
+        throw new Error(`Unsupported MessagePack extension type ${type}`);
+    }
+
+    if (length === 4) {
+        return new Date(data.readUInt32BE(0) * 1000);
+    }
+
+    if (length === 8) {
+        const high = data.readUInt32BE(0);
+
+        return new Date(((high & 0x3) * UINT32_LIMIT + data.readUInt32BE(4)) * 1000 + Math.floor(high / 4) / 1e6);
+    }
+
+    if (length === 12) {
+        return new Date(Number(data.readBigInt64BE(4)) * 1000 + data.readUInt32BE(0) / 1e6);
+    }
+
+    throw new Error(`Invalid MessagePack timestamp length ${length}`);
+}
+
+function decodeInt64(value: bigint): bigint | number {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+function decodeMap(reader: Reader, length: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+
+    for (let index = 0; index < length; index++) {
+        const key = String(decodeValue(reader));
+
+        // Defined rather than assigned so a `__proto__` key stays an own property, as with JSON.parse
+        Object.defineProperty(map, key, {
+            configurable: true,
+            enumerable: true,
+            value: decodeValue(reader),
+            writable: true,
+        });
+    }
+
+    return map;
+}
+
+function decodeValue(reader: Reader): unknown {
+    const type = read(reader, 1)[0];
+
+    if (type < 0x80) return type;
+
+    if (type < 0x90) return decodeMap(reader, type & 0x0f);
+
+    if (type < 0xa0) return decodeArray(reader, type & 0x0f);
+
+    if (type < 0xc0) return read(reader, type & 0x1f).toString();
+
+    if (type >= 0xe0) return type - 0x100;
+
+    switch (type) {
+        case 0xc0:
+            return null;
+        case 0xc2:
+            return false;
+        case 0xc3:
+            return true;
+        case 0xc4:
+            return Buffer.from(read(reader, read(reader, 1).readUInt8(0)));
+        case 0xc5:
+            return Buffer.from(read(reader, read(reader, 2).readUInt16BE(0)));
+        case 0xc6:
+            return Buffer.from(read(reader, read(reader, 4).readUInt32BE(0)));
+        case 0xc7:
+            return decodeExtension(reader, read(reader, 1).readUInt8(0));
+        case 0xc8:
+            return decodeExtension(reader, read(reader, 2).readUInt16BE(0));
+        case 0xc9:
+            return decodeExtension(reader, read(reader, 4).readUInt32BE(0));
+        case 0xca:
+            return read(reader, 4).readFloatBE(0);
+        case 0xcb:
+            return read(reader, 8).readDoubleBE(0);
+        case 0xcc:
+            return read(reader, 1).readUInt8(0);
+        case 0xcd:
+            return read(reader, 2).readUInt16BE(0);
+        case 0xce:
+            return read(reader, 4).readUInt32BE(0);
+        case 0xcf:
+            return decodeInt64(read(reader, 8).readBigUInt64BE(0));
+        case 0xd0:
+            return read(reader, 1).readInt8(0);
+        case 0xd1:
+            return read(reader, 2).readInt16BE(0);
+        case 0xd2:
+            return read(reader, 4).readInt32BE(0);
+        case 0xd3:
+            return decodeInt64(read(reader, 8).readBigInt64BE(0));
+        case 0xd4:
+        case 0xd5:
+        case 0xd6:
+        case 0xd7:
+        case 0xd8:
+            return decodeExtension(reader, 2 ** (type - 0xd4));
+        case 0xd9:
+            return read(reader, read(reader, 1).readUInt8(0)).toString();
+        case 0xda:
+            return read(reader, read(reader, 2).readUInt16BE(0)).toString();
+        case 0xdb:
+            return read(reader, read(reader, 4).readUInt32BE(0)).toString();
+        case 0xdc:
+            return decodeArray(reader, read(reader, 2).readUInt16BE(0));
+        case 0xdd:
+            return decodeArray(reader, read(reader, 4).readUInt32BE(0));
+        case 0xde:
+            return decodeMap(reader, read(reader, 2).readUInt16BE(0));
+        case 0xdf:
+            return decodeMap(reader, read(reader, 4).readUInt32BE(0));
+        default:
+            throw new Error(`Invalid MessagePack type byte 0x${type.toString(16)}`);
+    }
+}
+
+function read(reader: Reader, length: number): Buffer {
+    if (reader.offset + length > reader.buffer.length) {
+        throw new Error('Unexpected end of MessagePack content');
+    }
+
+    const chunk = reader.buffer.subarray(reader.offset, reader.offset + length);
+
+    reader.offset += length;
+
+    return chunk;
+}
+
+/**
+ * MessagePack serializer for `application/msgpack`, with no extra dependency.
+ * Encodes `Date` values with the timestamp extension, Buffers and typed arrays as binary,
+ * and BigInt values as 64-bit integers. Decodes 64-bit integers outside the safe integer
+ * range as BigInt values, and maps as plain objects.
+ *
+ * @example
+ * ```typescript
+ * await rabbitMQ.publish('telemetry', 'sensor.reading', reading, { contentType: 'application/msgpack' });
+ * ```
+ */
+export class MessagePackSerializer implements Serializer {
+    readonly contentType = 'application/msgpack';
+
+    deserialize(content: Buffer): unknown {
+        const reader = { buffer: content, offset: 0 };
+        const value = decodeValue(reader);
+
+        if (reader.offset !== content.length) {
+            throw new Error(`Unexpected ${content.length - reader.offset} trailing bytes in MessagePack content`);
+        }
+
+        return value;
+    }
+
+    serialize(value: unknown): Buffer {
+        const chunks: Buffer[] = [];
+
+        encodeValue(value, chunks);
+
+        return Buffer.concat(chunks);
+    }
+}
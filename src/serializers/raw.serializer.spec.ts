@@ -0,0 +1,21 @@
+import { RawSerializer } from './raw.serializer';
+
+describe('RawSerializer', () => {
+    const serializer = new RawSerializer();
+
+    it('should decode content as the raw Buffer', () => {
+        const content = Buffer.from([1, 2, 3]);
+
+        expect(serializer.deserialize(content)).toBe(content);
+    });
+
+    it('should encode Buffers, typed arrays and strings as-is', () => {
+        expect(serializer.serialize(Buffer.from([1, 2]))).toEqual(Buffer.from([1, 2]));
+        expect(serializer.serialize(new Uint8Array([3, 4]))).toEqual(Buffer.from([3, 4]));
+        expect(serializer.serialize('text')).toEqual(Buffer.from('text'));
+    });
+
+    it('should reject other values', () => {
+        expect(() => serializer.serialize({ id: 1 })).toThrow('Cannot serialize object as application/octet-stream');
+    });
+});
@@ -0,0 +1,37 @@
+import type { Serializer } from '../interfaces/serializer.interface';
+
+/**
+ * Serializer for `application/octet-stream` that hands consumers the raw content `Buffer`.
+ * Publishes Buffers, typed arrays and strings as-is.
+ *
+ * @example
+ * ```typescript
+ * await rabbitMQ.publish('files', 'upload', pdfBuffer, { contentType: 'application/octet-stream' });
+ *
+ * @RabbitSubscribe({ queue: 'uploads', serializer: new RawSerializer() })
+ * async handleUpload(@RabbitPayload() file: Buffer): Promise<void> {}
+ * ```
+ */
+export class RawSerializer implements Serializer {
+    readonly contentType = 'application/octet-stream';
+
+    deserialize(content: Buffer): Buffer {
+        return content;
+    }
+
+    serialize(value: unknown): Buffer {
+        if (Buffer.isBuffer(value)) {
+            return value;
+        }
+
+        if (value instanceof Uint8Array) {
+            return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+        }
+
+        if (typeof value === 'string') {
+            return Buffer.from(value);
+        }
+
+        throw new TypeError(`Cannot serialize ${typeof value} as ${this.contentType}`);
+    }
+}
@@ -0,0 +1,27 @@
+import { SchemaSerializer } from './schema.serializer';
+
+describe('SchemaSerializer', () => {
+    const codec = {
+        decode: jest.fn((content: Buffer) => ({ decoded: content.toString() })),
+        encode: jest.fn((value: unknown) => new Uint8Array(Buffer.from(JSON.stringify(value)))),
+    };
+    const serializer = new SchemaSerializer({
+        contentType: 'application/x-protobuf',
+        getCodec: (schema) => (schema === 'orders.OrderCreated' ? codec : undefined),
+    });
+
+    it('should encode and decode with the codec of the message type', () => {
+        const content = serializer.serialize({ id: 1 }, { type: 'orders.OrderCreated' });
+
+        expect(content).toEqual(Buffer.from('{"id":1}'));
+        expect(serializer.deserialize(content, { type: 'orders.OrderCreated' })).toEqual({ decoded: '{"id":1}' });
+        expect(serializer.contentType).toBe('application/x-protobuf');
+    });
+
+    it('should reject messages without a type or with an unknown one', () => {
+        expect(() => serializer.serialize({ id: 1 })).toThrow('need a type property naming their schema');
+        expect(() => serializer.deserialize(Buffer.from(''), { type: 'orders.Unknown' })).toThrow(
+            'Unknown application/x-protobuf schema: orders.Unknown',
+        );
+    });
+});
@@ -0,0 +1,96 @@
+import type { Serializer } from '../interfaces/serializer.interface';
+
+/**
+ * Encodes and decodes payloads of one schema, e.g. a Protobuf message type or an Avro record.
+ */
+export interface SchemaCodec {
+    /** Decodes a payload of this schema */
+    decode(content: Buffer): unknown;
+
+    /** Encodes a payload of this schema */
+    encode(value: unknown): Buffer | Uint8Array;
+}
+
+/**
+ * Options for `SchemaSerializer`.
+ */
+export interface SchemaSerializerOptions {
+    /** The `contentEncoding` property set on published messages, if any */
+    contentEncoding?: string;
+
+    /** The MIME type of the schema format, e.g. `application/x-protobuf` */
+    contentType: string;
+
+    /** Returns the codec of a schema name, or undefined if the schema is unknown */
+    getCodec: (schema: string) => SchemaCodec | undefined;
+}
+
+/**
+ * Serializer for schema-based formats such as Protobuf or Avro.
+ * The schema of a message is named by its `type` property, which must be set when publishing.
+ *
+ * @example
+ * ```typescript
+ * // protobufjs
+ * const root = await protobuf.load('orders.proto');
+ * const protobufSerializer = new SchemaSerializer({
+ *   contentType: 'application/x-protobuf',
+ *   getCodec: (schema) => {
+ *     const type = root.lookupType(schema);
+ *
+ *     return {
+ *       decode: (content) => type.toObject(type.decode(content)),
+ *       encode: (value) => type.encode(type.fromObject(value as object)).finish(),
+ *     };
+ *   },
+ * });
+ *
+ * await rabbitMQ.publish('orders', 'order.created', order, {
+ *   contentType: 'application/x-protobuf',
+ *   type: 'orders.OrderCreated',
+ * });
+ * ```
+ */
+export class SchemaSerializer implements Serializer {
+    readonly contentEncoding?: string;
+    readonly contentType: string;
+
+    /**
+     * Creates an instance of SchemaSerializer.
+     *
+     * @param {SchemaSerializerOptions} options - The content type and schema codec lookup
+     */
+    constructor(private readonly options: SchemaSerializerOptions) {
+        this.contentEncoding = options.contentEncoding;
+        this.contentType = options.contentType;
+    }
+
+    deserialize(content: Buffer, properties?: { type?: string }): unknown {
+        return this.getCodec(properties?.type).decode(content);
+    }
+
+    serialize(value: unknown, properties?: { type?: string }): Buffer {
+        const encoded = this.getCodec(properties?.type).encode(value);
+
+        return Buffer.isBuffer(encoded) ? encoded : Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+    }
+
+    /**
+     * Returns the codec of the schema named by the message `type` property.
+     *
+     * @private
+     */
+    private getCodec(schema?: string): SchemaCodec {
+        if (!schema) {
+            throw new Error(`Messages of content type ${this.contentType} need a type property naming their schema`);
+        }
+
+        const codec = this.options.getCodec(schema);
+
+        if (!codec) {
+            throw new Error(`Unknown ${this.contentType} schema: ${schema}`);
+        }
+
+        return codec;
+    }
+}
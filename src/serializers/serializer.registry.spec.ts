@@ -0,0 +1,128 @@
+import { brotliCompressSync, deflateSync, gzipSync } from 'zlib';
+
+import { JsonSerializer } from './json.serializer';
+import { MessagePackSerializer } from './msgpack.serializer';
+import { RawSerializer } from './raw.serializer';
+import { SerializerRegistry } from './serializer.registry';
+
+describe('SerializerRegistry', () => {
+    const message = (content: Buffer, contentType?: string): any => ({ content, properties: { contentType } });
+
+    it('should register the built-in serializers with JSON as the default', () => {
+        const registry = new SerializerRegistry();
+
+        expect(registry.get('application/json')).toBeInstanceOf(JsonSerializer);
+        expect(registry.get('application/octet-stream')).toBeInstanceOf(RawSerializer);
+        expect(registry.get('application/msgpack')).toBeInstanceOf(MessagePackSerializer);
+        expect(registry.getDefault()).toBeInstanceOf(JsonSerializer);
+    });
+
+    it('should match content types case-insensitively without parameters', () => {
+        const registry = new SerializerRegistry();
+
+        expect(registry.get('Application/JSON; charset=utf-8')).toBe(registry.get('application/json'));
+    });
+
+    it('should replace built-in serializers and use a given default', () => {
+        const json = new JsonSerializer({ reviveDates: true });
+        const registry = new SerializerRegistry([], json);
+
+        expect(registry.get('application/json')).toBe(json);
+        expect(registry.getDefault()).toBe(json);
+        expect(new SerializerRegistry([], 'application/msgpack').getDefault()).toBeInstanceOf(MessagePackSerializer);
+    });
+
+    it('should reject unknown content types', () => {
+        expect(() => new SerializerRegistry().resolve('application/yaml')).toThrow(
+            'No serializer registered for content type: application/yaml',
+        );
+    });
+
+    it('should decode by content type, then the preferred serializer, then the default', () => {
+        const registry = new SerializerRegistry();
+        const raw = new RawSerializer();
+        const packed = new MessagePackSerializer().serialize({ id: 1 });
+
+        expect(registry.deserialize(message(packed, 'application/msgpack'), raw)).toEqual({ id: 1 });
+        expect(registry.deserialize(message(Buffer.from('{"id":1}'), 'text/unknown'), raw)).toEqual(
+            Buffer.from('{"id":1}'),
+        );
+        expect(registry.deserialize(message(Buffer.from('{"id":1}')))).toEqual({ id: 1 });
+    });
+
+    it('should encode with the serializer of the content type, then the preferred one, then the default', () => {
+        const registry = new SerializerRegistry();
+
+        expect(registry.serialize({ id: 1 }, { contentType: 'application/msgpack' })).toEqual({
+            content: new MessagePackSerializer().serialize({ id: 1 }),
+            contentType: 'application/msgpack',
+        });
+        expect(registry.serialize('text', undefined, new JsonSerializer())).toEqual({
+            content: Buffer.from('"text"'),
+            contentType: 'application/json',
+        });
+        expect(registry.serialize({ id: 1 })).toEqual({
+            content: Buffer.from('{"id":1}'),
+            contentType: 'application/json',
+        });
+    });
+
+    it('should pass Buffers and unselected strings through', () => {
+        const registry = new SerializerRegistry();
+
+        expect(registry.serialize(Buffer.from([1]), { contentType: 'application/json' })).toEqual({
+            content: Buffer.from([1]),
+        });
+        expect(registry.serialize('text')).toEqual({ content: Buffer.from('text') });
+    });
+
+    it('should stamp the content encoding of the serializer', () => {
+        const registry = new SerializerRegistry([
+            {
+                contentEncoding: 'base64',
+                contentType: 'text/base64',
+                deserialize: (content) => Buffer.from(content.toString(), 'base64').toString(),
+                serialize: (value) => Buffer.from(Buffer.from(String(value)).toString('base64')),
+            },
+        ]);
+
+        expect(registry.serialize('hi', { contentType: 'text/base64' })).toEqual({
+            content: Buffer.from('aGk='),
+            contentEncoding: 'base64',
+            contentType: 'text/base64',
+        });
+    });
+
+    it('should decompress content before decoding it', () => {
+        const registry = new SerializerRegistry();
+        const deserialize = jest.spyOn(registry.getDefault(), 'deserialize');
+
+        expect(
+            registry.deserialize({
+                content: gzipSync(Buffer.from('{"id":1}')),
+                properties: { contentEncoding: 'gzip', contentType: 'application/json' } as any,
+            }),
+        ).toEqual({ id: 1 });
+        expect(
+            registry.deserialize({
+                content: deflateSync(brotliCompressSync(Buffer.from('{"id":2}'))),
+                properties: { contentEncoding: 'BR, deflate', contentType: 'application/json' } as any,
+            }),
+        ).toEqual({ id: 2 });
+        expect(deserialize).toHaveBeenLastCalledWith(Buffer.from('{"id":2}'), {
+            contentEncoding: undefined,
+            contentType: 'application/json',
+        });
+    });
+
+    it('should reject content that decompresses beyond the maximum size', () => {
+        const registry = new SerializerRegistry([], undefined, 1024);
+        const message = {
+            content: gzipSync(Buffer.alloc(2048)),
+            properties: { contentEncoding: 'gzip', contentType: 'application/octet-stream' } as any,
+        };
+
+        expect(() => registry.deserialize(message)).toThrow('Cannot create a Buffer larger than 1024 bytes');
+        expect(new SerializerRegistry().deserialize(message)).toEqual(Buffer.alloc(2048));
+    });
+});
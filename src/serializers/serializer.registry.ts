@@ -0,0 +1,177 @@
+import { JsonSerializer } from './json.serializer';
+import { MessagePackSerializer } from './msgpack.serializer';
+import { RawSerializer } from './raw.serializer';
+
+import { decompressContent } from '../utils/compression-utils';
+
+import type { SerializedMessage, Serializer } from '../interfaces/serializer.interface';
+import type { Message, Options } from 'amqplib';
+
+/**
+ * Lower-cases a content type and strips its parameters.
+ */
+function normalizeContentType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Serializers of a connection, keyed by content type.
+ * JSON, raw Buffer and MessagePack serializers are always registered;
+ * registering another serializer for the same content type replaces them.
+ * JSON is the default unless another one is given.
+ *
+ * @example
+ * ```typescript
+ * const registry = new SerializerRegistry([protobufSerializer], 'application/msgpack');
+ *
+ * const { content, contentType } = registry.serialize({ orderId: 42 });
+ * registry.deserialize({ content, properties: { contentType } }); // { orderId: 42 }
+ * ```
+ */
+export class SerializerRegistry {
+    private readonly defaultSerializer: Serializer;
+    private readonly serializers = new Map<string, Serializer>();
+
+    /**
+     * Creates an instance of SerializerRegistry.
+     *
+     * @param {Serializer[]} [serializers] - Serializers registered on top of the built-in ones
+     * @param {Serializer | string} [defaultSerializer] - The default serializer, or the content type of a registered one
+     * @param {number} [maxDecompressedSize] - The size in bytes compressed content may decompress to
+     * @throws {Error} If `defaultSerializer` names a content type with no registered serializer
+     */
+    constructor(
+        serializers: Serializer[] = [],
+        defaultSerializer?: Serializer | string,
+        private readonly maxDecompressedSize?: number,
+    ) {
+        for (const serializer of [
+            new JsonSerializer(),
+            new RawSerializer(),
+            new MessagePackSerializer(),
+            ...serializers,
+        ]) {
+            this.register(serializer);
+        }
+
+        if (defaultSerializer && typeof defaultSerializer !== 'string') {
+            this.register(defaultSerializer);
+        }
+
+        this.defaultSerializer = this.resolve(defaultSerializer ?? 'application/json');
+    }
+
+    /**
+     * Decodes the content of a message with the serializer matching its `contentType`.
+     * Messages without a known content type are decoded with `preferred`, or the default serializer.
+     * Content compressed as listed in `contentEncoding` is decompressed first.
+     *
+     * @param {Pick<Message, 'content' | 'properties'>} message - The message to decode
+     * @param {Serializer} [preferred] - The handler's own serializer, which wins for its content type
+     * @returns {unknown} The decoded payload
+     * @throws {RangeError} If the content decompresses to more than the maximum decompressed size
+     */
+    deserialize(message: Pick<Message, 'content' | 'properties'>, preferred?: Serializer): unknown {
+        const contentType: string | undefined = message.properties?.contentType;
+        const serializer =
+            (contentType &&
+            preferred &&
+            normalizeContentType(preferred.contentType) === normalizeContentType(contentType)
+                ? preferred
+                : this.get(contentType)) ??
+            preferred ??
+            this.defaultSerializer;
+
+        const { content, contentEncoding } = decompressContent(
+            message.content,
+            message.properties?.contentEncoding,
+            this.maxDecompressedSize,
+        );
+
+        return serializer.deserialize(content, { ...message.properties, contentEncoding });
+    }
+
+    /**
+     * Returns the serializer registered for a content type.
+     * Parameters such as `; charset=utf-8` are ignored.
+     *
+     * @param {string} [contentType] - The content type
+     * @returns {Serializer | undefined} The matching serializer, if any
+     */
+    get(contentType?: string): Serializer | undefined {
+        return contentType ? this.serializers.get(normalizeContentType(contentType)) : undefined;
+    }
+
+    /**
+     * Returns the serializer used when nothing else selects one.
+     *
+     * @returns {Serializer} The default serializer
+     */
+    getDefault(): Serializer {
+        return this.defaultSerializer;
+    }
+
+    /**
+     * Registers a serializer, replacing any registered for the same content type.
+     *
+     * @param {Serializer} serializer - The serializer to register
+     */
+    register(serializer: Serializer): void {
+        this.serializers.set(normalizeContentType(serializer.contentType), serializer);
+    }
+
+    /**
+     * Returns the given serializer, the one registered for a content type, or the default.
+     *
+     * @param {Serializer | string} [serializer] - A serializer or the content type of a registered one
+     * @returns {Serializer} The resolved serializer
+     * @throws {Error} If no serializer is registered for the content type
+     */
+    resolve(serializer?: Serializer | string): Serializer {
+        if (serializer === undefined) {
+            return this.defaultSerializer;
+        }
+
+        if (typeof serializer !== 'string') {
+            return serializer;
+        }
+
+        const registered = this.get(serializer);
+
+        if (!registered) {
+            throw new Error(`No serializer registered for content type: ${serializer}`);
+        }
+
+        return registered;
+    }
+
+    /**
+     * Encodes a payload for publishing.
+     * The serializer is picked by the `contentType` publish property, then `preferred`, then the default.
+     * Buffers are passed through as-is, and so are strings unless a serializer was picked explicitly.
+     *
+     * @param {unknown} value - The payload to encode
+     * @param {Options.Publish} [properties] - The publish options
+     * @param {Serializer} [preferred] - The serializer to use when `contentType` does not select one
+     * @returns {SerializedMessage} The encoded payload with its content properties
+     */
+    serialize(value: unknown, properties?: Options.Publish, preferred?: Serializer): SerializedMessage {
+        if (Buffer.isBuffer(value)) {
+            return { content: value };
+        }
+
+        const serializer = this.get(properties?.contentType) ?? preferred;
+
+        if (!serializer && typeof value === 'string') {
+            return { content: Buffer.from(value) };
+        }
+
+        const resolved = serializer ?? this.defaultSerializer;
+
+        return {
+            content: resolved.serialize(value, properties),
+            contentType: resolved.contentType,
+            ...(resolved.contentEncoding && { contentEncoding: resolved.contentEncoding }),
+        };
+    }
+}
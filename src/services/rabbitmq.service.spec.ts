@@ -1,32 +1,70 @@
+import { BadRequestException } from '@nestjs/common';
+
 import type { TestingModule } from '@nestjs/testing';
 import { Test } from '@nestjs/testing';
+import { brotliDecompressSync, gunzipSync, gzipSync } from 'zlib';
+
+import { RabbitMQContext } from '../context/rabbitmq.context';
+import { AbortError } from '../errors/abort.error';
+import { ContractViolationError } from '../errors/contract-violation.error';
+import { InsufficientResponsesError } from '../errors/insufficient-responses.error';
+import { RpcRemoteError } from '../errors/rpc-remote.error';
+import { UnroutableMessageError } from '../errors/unroutable-message.error';
+import { CompressionAlgorithm } from '../interfaces/compression.interface';
+import { IdempotencyClaim } from '../interfaces/idempotency.interface';
+import { MessageDisposition, RpcReconnectPolicy } from '../interfaces/message-handling.interface';
+import { InMemoryOutboxStore } from '../outbox/in-memory-outbox.store';
+import { MessagePackSerializer } from '../serializers/msgpack.serializer';
+import { runWithRpcDeadline } from '../utils/deadline-utils';
 
 import { RabbitMQService } from './rabbitmq.service';
 
+import type { JsonSchema } from '../interfaces/contract.interface';
 import type { AmqpConnectionManager } from 'amqp-connection-manager';
 
 describe('RabbitMQService', () => {
     let service: RabbitMQService;
     let mockConnectionManager: Partial<AmqpConnectionManager>;
     let mockChannel: any;
+    let mockRpcChannel: any;
 
     beforeEach(async () => {
         mockChannel = {
             ack: jest.fn(),
+            addSetup: jest.fn((setup: any) => setup(mockChannel)),
             assertExchange: jest.fn().mockResolvedValue({ exchange: 'test' }),
             assertQueue: jest.fn().mockResolvedValue({ consumerCount: 0, messageCount: 0, queue: 'test' }),
             bindQueue: jest.fn().mockResolvedValue({}),
+            cancel: jest.fn().mockResolvedValue(undefined),
             close: jest.fn().mockResolvedValue(undefined),
             consume: jest.fn().mockResolvedValue({ consumerTag: 'test' }),
+            get: jest.fn().mockResolvedValue(false),
             nack: jest.fn(),
             publish: jest.fn().mockResolvedValue(true),
+            removeSetup: jest.fn().mockResolvedValue(undefined),
             sendToQueue: jest.fn().mockResolvedValue(true),
             waitForConnect: jest.fn().mockResolvedValue(undefined),
         };
 
+        mockRpcChannel = {
+            close: jest.fn().mockResolvedValue(undefined),
+            consume: jest.fn().mockResolvedValue({ consumerTag: 'rpc' }),
+            on: jest.fn(),
+            publish: jest.fn().mockResolvedValue(true),
+            waitForConnect: jest.fn().mockResolvedValue(undefined),
+        };
+
         mockConnectionManager = {
             close: jest.fn().mockResolvedValue(undefined),
-            createChannel: jest.fn().mockReturnValue(mockChannel),
+            createChannel: jest.fn((options: any) => {
+                if (!options?.name?.endsWith(':rpc')) {
+                    return mockChannel;
+                }
+
+                void options.setup(mockRpcChannel);
+
+                return mockRpcChannel;
+            }),
             isConnected: jest.fn().mockReturnValue(true),
         };
 
@@ -83,6 +121,289 @@ describe('RabbitMQService', () => {
         });
     });
 
+    describe('publishBatch', () => {
+        beforeEach(async () => {
+            await service.initialize();
+        });
+
+        const items = (count: number): any[] =>
+            Array.from({ length: count }, (_, index) => ({
+                exchange: 'events',
+                message: { index },
+                routingKey: 'order.imported',
+            }));
+
+        it('should publish every item and report per-item results', async () => {
+            mockChannel.publish.mockImplementation((exchange: string, routingKey: string, content: Buffer) =>
+                JSON.parse(content.toString()).index === 1
+                    ? Promise.reject(new Error('nacked'))
+                    : Promise.resolve(true),
+            );
+
+            const result = await service.publishBatch(items(3));
+
+            expect(mockChannel.publish).toHaveBeenCalledTimes(3);
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'events',
+                'order.imported',
+                Buffer.from(JSON.stringify({ index: 0 })),
+                expect.objectContaining({ persistent: true }),
+            );
+            expect(result).toEqual({
+                failed: 1,
+                published: 2,
+                results: [
+                    { index: 0, success: true },
+                    { error: new Error('nacked'), index: 1, success: false },
+                    { index: 2, success: true },
+                ],
+            });
+        });
+
+        it('should keep at most maxInFlight messages awaiting confirms', async () => {
+            const confirms: Array<() => void> = [];
+            let inFlight = 0;
+            let maxObserved = 0;
+
+            mockChannel.publish.mockImplementation(
+                () =>
+                    new Promise<boolean>((resolve) => {
+                        inFlight++;
+                        maxObserved = Math.max(maxObserved, inFlight);
+                        confirms.push(() => {
+                            inFlight--;
+                            resolve(true);
+                        });
+                    }),
+            );
+
+            const batch = service.publishBatch(items(5), { maxInFlight: 2 });
+
+            for (let confirmed = 0; confirmed < 5; confirmed++) {
+                await new Promise((resolve) => setImmediate(resolve));
+                confirms.shift()?.();
+            }
+
+            await expect(batch).resolves.toEqual(expect.objectContaining({ failed: 0, published: 5 }));
+            expect(maxObserved).toBe(2);
+        });
+
+        it('should resolve an empty batch without publishing', async () => {
+            await expect(service.publishBatch([])).resolves.toEqual({ failed: 0, published: 0, results: [] });
+            expect(mockChannel.publish).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('outbox', () => {
+        let store: InMemoryOutboxStore;
+
+        beforeEach(async () => {
+            store = new InMemoryOutboxStore();
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                outbox: { relay: false, store },
+            });
+            await service.initialize();
+        });
+
+        it('should write publishes with the outbox option to the store', async () => {
+            const transaction = { id: 'tx' };
+            const add = jest.spyOn(store, 'add');
+
+            await expect(
+                service.publish(
+                    'events',
+                    'order.created',
+                    { id: 1 },
+                    { outbox: { aggregateKey: 'order-1', transaction } },
+                ),
+            ).resolves.toBe(true);
+
+            expect(mockChannel.publish).not.toHaveBeenCalled();
+            expect(add).toHaveBeenCalledWith(
+                [
+                    expect.objectContaining({
+                        aggregateKey: 'order-1',
+                        content: Buffer.from('{"id":1}'),
+                        contentType: 'application/json',
+                        exchange: 'events',
+                    }),
+                ],
+                transaction,
+            );
+        });
+
+        it('should store the bytes a direct publish sends, so Buffers, Dates and BigInts round-trip', async () => {
+            const payload = { placedAt: new Date('2024-01-01T00:00:00Z'), total: 42n };
+            const add = jest.spyOn(store, 'add');
+
+            await service.publish('events', 'order.created', payload, { outbox: true });
+            await service.publish('events', 'order.created', Buffer.from([1, 2]), {
+                contentType: 'application/octet-stream',
+                outbox: true,
+            });
+            await service.publish('events', 'order.created', payload);
+
+            const [[[record]], [[bufferRecord]]] = add.mock.calls;
+
+            expect(record.content).toEqual(mockChannel.publish.mock.calls[0][2]);
+            expect(record.contentType).toBe('application/json');
+            expect(bufferRecord.content).toEqual(Buffer.from([1, 2]));
+            expect(bufferRecord.contentType).toBe('application/octet-stream');
+        });
+
+        it('should reject outbox publishes when no outbox is configured', async () => {
+            await expect(
+                new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test').publish(
+                    'events',
+                    'order.created',
+                    {},
+                    { outbox: true },
+                ),
+            ).rejects.toThrow('Outbox is not configured for connection: test');
+        });
+
+        it('should relay pending messages once initialized', async () => {
+            jest.useFakeTimers();
+
+            try {
+                service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                    outbox: { store },
+                });
+                await service.getOutboxPublisher().publish('events', 'order.created', { id: 1 });
+
+                await service.initialize();
+                await jest.advanceTimersByTimeAsync(0);
+
+                expect(mockChannel.publish).toHaveBeenCalledWith(
+                    'events',
+                    'order.created',
+                    Buffer.from(JSON.stringify({ id: 1 })),
+                    expect.objectContaining({ contentType: 'application/json', persistent: true }),
+                );
+                expect(store.getMessages()).toEqual([]);
+            } finally {
+                await service.close();
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe('mandatory publishing', () => {
+        let onReturn: jest.Mock;
+        let returnListener: (message: any) => void;
+
+        const returnedMessage = (exchange: string, routingKey: string, content: Buffer, options: any): any => ({
+            content: Buffer.from(content),
+            fields: { exchange, replyCode: 312, replyText: 'NO_ROUTE', routingKey },
+            properties: { headers: options.headers },
+        });
+
+        beforeEach(async () => {
+            onReturn = jest.fn();
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                onReturn,
+            });
+            mockConnectionManager.createChannel = jest.fn().mockImplementation((options: any) => {
+                void options.setup({
+                    on: (event: string, listener: any) => (returnListener = listener),
+                    prefetch: jest.fn(),
+                });
+
+                return mockChannel;
+            });
+            await service.initialize();
+        });
+
+        it('should reject with UnroutableMessageError when the broker returns the message', async () => {
+            mockChannel.publish.mockImplementation(
+                (exchange: string, routingKey: string, content: Buffer, options: any) => {
+                    returnListener(returnedMessage(exchange, routingKey, content, options));
+
+                    return Promise.resolve(true);
+                },
+            );
+
+            const error = await service
+                .publish('events', 'order.unbound', { id: 1 }, { mandatory: true })
+                .catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(UnroutableMessageError);
+            expect(error).toEqual(
+                expect.objectContaining({
+                    exchange: 'events',
+                    replyCode: 312,
+                    replyText: 'NO_ROUTE',
+                    routingKey: 'order.unbound',
+                }),
+            );
+            expect(onReturn).toHaveBeenCalledWith(expect.objectContaining({ fields: expect.anything() }));
+        });
+
+        it('should resolve mandatory publishes the broker routed', async () => {
+            await expect(service.publish('events', 'order.created', { id: 1 }, { mandatory: true })).resolves.toBe(
+                true,
+            );
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'events',
+                'order.created',
+                expect.any(Buffer),
+                expect.objectContaining({ mandatory: true }),
+            );
+            expect(mockChannel.publish.mock.calls[0][3].headers).toBeUndefined();
+        });
+
+        it('should only reject the mandatory publish whose message the broker returned', async () => {
+            const confirms: Array<() => void> = [];
+            const returned = Buffer.from(JSON.stringify({ id: 2 }));
+
+            mockChannel.publish.mockImplementation(
+                (exchange: string, routingKey: string, content: Buffer, options: any) => {
+                    if (routingKey === 'order.unbound' && content.equals(returned)) {
+                        returnListener(returnedMessage(exchange, routingKey, content, options));
+                    }
+
+                    return new Promise((resolve) => confirms.push(() => resolve(true)));
+                },
+            );
+
+            const first = service.publish('events', 'order.unbound', { id: 1 }, { mandatory: true });
+            const second = service.publish('events', 'order.unbound', { id: 2 }, { mandatory: true });
+            const third = service.publish('events', 'order.created', { id: 2 }, { mandatory: true });
+
+            await new Promise((resolve) => setImmediate(resolve));
+            confirms.forEach((confirm) => confirm());
+
+            await expect(first).resolves.toBe(true);
+            await expect(second).rejects.toThrow(UnroutableMessageError);
+            await expect(third).resolves.toBe(true);
+            expect((service as any).pendingReturns.size).toBe(0);
+        });
+
+        it('should reject mandatory sends to missing queues', async () => {
+            mockChannel.sendToQueue.mockImplementation((queue: string, content: Buffer, options: any) => {
+                returnListener(returnedMessage('', queue, content, options));
+
+                return Promise.resolve(true);
+            });
+
+            await expect(service.sendToQueue('missing', { id: 1 }, { mandatory: true })).rejects.toThrow(
+                UnroutableMessageError,
+            );
+        });
+
+        it('should notify onReturn for returned messages no publish awaits', () => {
+            returnListener(returnedMessage('events', 'order.created', Buffer.from('{}'), {}));
+
+            expect(onReturn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not track returns for publishes without mandatory', async () => {
+            await service.publish('events', 'order.created', { id: 1 });
+
+            expect(mockChannel.publish.mock.calls[0][3].headers).toBeUndefined();
+        });
+    });
+
     describe('sendToQueue', () => {
         it('should send a message directly to a queue', async () => {
             await service.initialize();
@@ -203,7 +524,7 @@ describe('RabbitMQService', () => {
 
             await messageHandler(mockMessage);
 
-            expect(onMessage).toHaveBeenCalledWith({ data: 'test' });
+            expect(onMessage).toHaveBeenCalledWith({ data: 'test' }, mockMessage);
             expect(mockChannel.ack).toHaveBeenCalledWith(mockMessage);
         });
 
@@ -231,6 +552,76 @@ describe('RabbitMQService', () => {
             expect(mockChannel.nack).toHaveBeenCalledWith(mockMessage, false, false);
         });
 
+        it('should settle failed messages with the error handler disposition', async () => {
+            await service.initialize();
+            const error = new Error('Temporary failure');
+            const errorHandler = jest.fn().mockReturnValue(MessageDisposition.REQUEUE);
+            let messageHandler: any;
+
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+
+            await service.consume('test-queue', jest.fn().mockRejectedValue(error), { errorHandler });
+
+            const mockMessage = {
+                content: Buffer.from(JSON.stringify({ data: 'test' })),
+                fields: {},
+                properties: {},
+            };
+
+            await messageHandler(mockMessage);
+
+            expect(errorHandler).toHaveBeenCalledWith(error, mockMessage, expect.any(RabbitMQContext));
+            expect(mockChannel.nack).toHaveBeenCalledWith(mockMessage, false, true);
+            expect(mockChannel.consume).toHaveBeenCalledWith('test-queue', expect.any(Function), { noAck: false });
+        });
+
+        it('should settle processed messages with the disposition returned by the handler', async () => {
+            await service.initialize();
+            let messageHandler: any;
+
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+
+            await service.consume('test-queue', () => MessageDisposition.REQUEUE);
+
+            const mockMessage = { content: Buffer.from('{}'), fields: {}, properties: {} };
+
+            await messageHandler(mockMessage);
+
+            expect(mockChannel.nack).toHaveBeenCalledWith(mockMessage, false, true);
+            expect(mockChannel.ack).not.toHaveBeenCalled();
+        });
+
+        it('should reject without requeue when the error handler throws', async () => {
+            await service.initialize();
+            let messageHandler: any;
+
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+
+            await service.consume('test-queue', jest.fn().mockRejectedValue(new Error('Processing failed')), {
+                errorHandler: () => {
+                    throw new Error('Handler failed');
+                },
+            });
+
+            const mockMessage = { content: Buffer.from('{}'), fields: {}, properties: {} };
+
+            await messageHandler(mockMessage);
+
+            expect(mockChannel.nack).toHaveBeenCalledWith(mockMessage, false, false);
+        });
+
         it('should handle null messages', async () => {
             await service.initialize();
             const onMessage = jest.fn();
@@ -269,78 +660,1705 @@ describe('RabbitMQService', () => {
 
             await messageHandler(mockMessage);
 
-            expect(onMessage).toHaveBeenCalledWith('plain text');
+            expect(onMessage).toHaveBeenCalledWith('plain text', mockMessage);
             expect(mockChannel.ack).toHaveBeenCalledWith(mockMessage);
         });
     });
 
-    describe('request (RPC)', () => {
-        beforeEach(() => {
-            mockChannel.consume.mockImplementation((queue: string, handler: any) =>
-                Promise.resolve({ consumerTag: 'test' }),
+    describe('serializers', () => {
+        const yamlSerializer = {
+            contentType: 'application/yaml',
+            deserialize: (content: Buffer) => ({ yaml: content.toString() }),
+            serialize: (value: unknown) => Buffer.from(`yaml:${JSON.stringify(value)}`),
+        };
+
+        const consumeWith = async (message: Record<string, unknown>, options?: Record<string, unknown>) => {
+            const onMessage = jest.fn().mockResolvedValue(undefined);
+
+            await service.consume('test-queue', onMessage, options);
+            await mockChannel.consume.mock.calls[0][1]({ fields: {}, ...message });
+
+            return onMessage.mock.calls[0][0];
+        };
+
+        it('should stamp the content type of the serializer on published objects', async () => {
+            await service.initialize();
+
+            await service.publish('events', 'user.created', { userId: 1 });
+
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'events',
+                'user.created',
+                Buffer.from('{"userId":1}'),
+                expect.objectContaining({ contentType: 'application/json', persistent: true }),
             );
         });
 
-        it('should make RPC request and receive response', async () => {
+        it('should publish strings and Buffers as-is without a content type', async () => {
             await service.initialize();
 
-            let replyHandler: any;
-
-            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
-                replyHandler = handler;
+            await service.publish('events', 'raw', 'plain text');
+            await service.sendToQueue('tasks', Buffer.from([1, 2]));
 
-                return Promise.resolve({ consumerTag: 'test' });
+            expect(mockChannel.publish).toHaveBeenCalledWith('events', 'raw', Buffer.from('plain text'), {
+                persistent: true,
             });
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith('tasks', Buffer.from([1, 2]), { persistent: true });
+        });
 
-            const requestPromise = service.request('rpc-queue', { action: 'test' });
-
-            // Wait for consume to be called
-            await new Promise((resolve) => setTimeout(resolve, 10));
+        it('should encode with the serializer registered for the publish content type', async () => {
+            await service.initialize();
 
-            // Simulate reply
-            const replyMessage = {
-                content: Buffer.from(JSON.stringify({ result: 'success' })),
-                properties: {
-                    correlationId: expect.any(String),
-                },
-            };
+            await service.publish('events', 'user.created', { userId: 1 }, { contentType: 'application/msgpack' });
 
-            if (replyHandler) {
-                // Get the actual correlationId from the sendToQueue call
-                const sendCall = mockChannel.sendToQueue.mock.calls.find((call: any) => call[0] === 'rpc-queue');
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'events',
+                'user.created',
+                new MessagePackSerializer().serialize({ userId: 1 }),
+                expect.objectContaining({ contentType: 'application/msgpack' }),
+            );
+        });
 
-                if (sendCall && sendCall[2]?.correlationId) {
-                    replyMessage.properties.correlationId = sendCall[2].correlationId;
-                    await replyHandler(replyMessage);
-                }
-            }
+        it('should decode consumed messages with the serializer matching their content type', async () => {
+            await service.initialize();
 
-            const result = await requestPromise;
+            const payload = await consumeWith({
+                content: new MessagePackSerializer().serialize({ userId: 1 }),
+                properties: { contentType: 'application/msgpack' },
+            });
 
-            expect(result).toEqual({ result: 'success' });
+            expect(payload).toEqual({ userId: 1 });
         });
 
-        it('should timeout on RPC request', async () => {
+        it('should decode messages without a content type with the consumer serializer', async () => {
             await service.initialize();
 
-            // Use a very short timeout for testing
-            const requestPromise = service.request('rpc-queue', { action: 'test' }, { timeout: 10 });
+            const payload = await consumeWith(
+                { content: Buffer.from([1, 2]), properties: {} },
+                { serializer: 'application/octet-stream' },
+            );
 
-            await expect(requestPromise).rejects.toThrow('RPC timeout after 10ms');
-        }, 1000);
+            expect(payload).toEqual(Buffer.from([1, 2]));
+        });
 
-        it('should handle RPC request errors', async () => {
+        it('should use the serializers and default serializer of the connection', async () => {
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                serializer: 'application/yaml',
+                serializers: [yamlSerializer],
+            });
             await service.initialize();
-            mockChannel.sendToQueue.mockRejectedValue(new Error('Send failed'));
 
-            await expect(service.request('rpc-queue', { action: 'test' })).rejects.toThrow('Send failed');
+            await service.publish('events', 'user.created', { userId: 1 });
+            const payload = await consumeWith({ content: Buffer.from('userId: 1'), properties: {} });
+
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'events',
+                'user.created',
+                Buffer.from('yaml:{"userId":1}'),
+                expect.objectContaining({ contentType: 'application/yaml' }),
+            );
+            expect(payload).toEqual({ yaml: 'userId: 1' });
         });
 
-        it('should handle non-Error rejections in RPC', async () => {
+        it('should reject a default serializer that is not registered', () => {
+            expect(
+                () =>
+                    new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                        serializer: 'application/yaml',
+                    }),
+            ).toThrow('No serializer registered for content type: application/yaml');
+        });
+    });
+
+    describe('compression', () => {
+        const largePayload = { items: Array.from({ length: 200 }, (_, index) => ({ index, name: 'item' })) };
+
+        beforeEach(async () => {
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                compression: CompressionAlgorithm.GZIP,
+            });
             await service.initialize();
-            mockChannel.sendToQueue.mockRejectedValue('string error');
+        });
 
-            await expect(service.request('rpc-queue', { action: 'test' })).rejects.toThrow('string error');
+        it('should compress payloads above the threshold with the module algorithm', async () => {
+            await service.publish('events', 'bulk', largePayload);
+
+            const [, , content, options] = mockChannel.publish.mock.calls[0];
+
+            expect(options).toEqual(
+                expect.objectContaining({ contentEncoding: 'gzip', contentType: 'application/json' }),
+            );
+            expect(options).not.toHaveProperty('compression');
+            expect(JSON.parse(gunzipSync(content).toString())).toEqual(largePayload);
+        });
+
+        it('should send payloads below the threshold uncompressed', async () => {
+            await service.publish('events', 'small', { id: 1 });
+
+            expect(mockChannel.publish).toHaveBeenCalledWith('events', 'small', Buffer.from('{"id":1}'), {
+                contentType: 'application/json',
+                persistent: true,
+            });
+        });
+
+        it('should let publish options override or disable the module compression', async () => {
+            await service.sendToQueue('tasks', largePayload);
+            await service.publish('events', 'brotli', largePayload, {
+                compression: { algorithm: CompressionAlgorithm.BROTLI, threshold: 0 },
+            });
+            await service.publish('events', 'plain', largePayload, { compression: false });
+
+            const sendOptions = mockChannel.sendToQueue.mock.calls[0][2];
+            const [[, , brotliContent, brotliOptions], [, , plainContent, plainOptions]] =
+                mockChannel.publish.mock.calls;
+
+            expect(sendOptions.contentEncoding).toBe('gzip');
+            expect(brotliOptions.contentEncoding).toBe('br');
+            expect(JSON.parse(brotliDecompressSync(brotliContent).toString())).toEqual(largePayload);
+            expect(plainOptions).not.toHaveProperty('contentEncoding');
+            expect(JSON.parse(plainContent.toString())).toEqual(largePayload);
+        });
+
+        it('should decompress consumed messages by content encoding', async () => {
+            const onMessage = jest.fn().mockResolvedValue(undefined);
+
+            await service.consume('test-queue', onMessage);
+            await mockChannel.consume.mock.calls[0][1]({
+                content: gzipSync(Buffer.from(JSON.stringify(largePayload))),
+                fields: {},
+                properties: { contentEncoding: 'gzip', contentType: 'application/json' },
+            });
+
+            expect(onMessage).toHaveBeenCalledWith(largePayload, expect.anything());
+        });
+    });
+
+    describe('contracts', () => {
+        const orderSchema: JsonSchema = {
+            properties: { orderId: { type: 'string' } },
+            required: ['orderId'],
+            type: 'object',
+        };
+
+        const consumeWith = async (content: unknown, options?: Record<string, unknown>) => {
+            const onMessage = jest.fn().mockResolvedValue(undefined);
+            const message: any = {
+                content: Buffer.from(JSON.stringify(content)),
+                fields: { exchange: 'orders', routingKey: 'order.created' },
+                properties: { headers: { 'x-schema-id': 'order.created@1' } },
+            };
+
+            await service.consume('billing', onMessage, options);
+            await mockChannel.consume.mock.calls[0][1](message);
+
+            return { message, onMessage };
+        };
+
+        beforeEach(async () => {
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                contracts: {
+                    definitions: [
+                        { exchange: 'orders', routingKey: 'order.*', schema: orderSchema, version: 2 },
+                        { queue: 'invoices', schema: { type: 'array' }, version: 1 },
+                    ],
+                    invalidMessageQueue: 'invalid-messages',
+                },
+            });
+            await service.initialize();
+        });
+
+        it('should validate published payloads and stamp the schema id', async () => {
+            await service.publish('orders', 'order.created', { orderId: 'ord-1' }, { headers: { tenant: 'acme' } });
+            await service.sendToQueue('invoices', []);
+
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'orders',
+                'order.created',
+                expect.any(Buffer),
+                expect.objectContaining({ headers: { tenant: 'acme', 'x-schema-id': 'order.*@2' } }),
+            );
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith(
+                'invoices',
+                expect.any(Buffer),
+                expect.objectContaining({ headers: { 'x-schema-id': 'invoices@1' } }),
+            );
+        });
+
+        it('should reject invalid payloads before publishing', async () => {
+            await expect(service.publish('orders', 'order.created', { orderId: 1 })).rejects.toThrow(
+                new ContractViolationError('order.*@2', ['/orderId must be string']),
+            );
+            await expect(service.sendToQueue('invoices', {})).rejects.toBeInstanceOf(ContractViolationError);
+
+            expect(mockChannel.publish).not.toHaveBeenCalled();
+            expect(mockChannel.sendToQueue).not.toHaveBeenCalled();
+        });
+
+        it('should leave messages without a contract untouched', async () => {
+            await service.publish('orders', 'invoice.created', { invoiceId: 1 });
+
+            expect(mockChannel.publish).toHaveBeenCalledWith('orders', 'invoice.created', expect.any(Buffer), {
+                contentType: 'application/json',
+                persistent: true,
+            });
+        });
+
+        it('should route invalid consumed messages to the invalid-message queue', async () => {
+            const { message, onMessage } = await consumeWith({ orderId: 1 });
+
+            expect(onMessage).not.toHaveBeenCalled();
+            expect(mockChannel.assertQueue).toHaveBeenCalledWith('invalid-messages', { durable: true });
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith(
+                'invalid-messages',
+                message.content,
+                expect.objectContaining({
+                    headers: {
+                        'x-contract-errors': ['/orderId must be string'],
+                        'x-contract-queue': 'billing',
+                        'x-original-exchange': 'orders',
+                        'x-original-routing-key': 'order.created',
+                        'x-schema-id': 'order.created@1',
+                    },
+                }),
+            );
+            expect(mockChannel.ack).toHaveBeenCalledWith(message);
+        });
+
+        it('should reject invalid messages as validation errors without an invalid-message queue', async () => {
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test');
+            await service.initialize();
+
+            const contract = { queue: 'billing', schema: orderSchema, version: 3 };
+            const errorHandler = jest.fn();
+            const { message, onMessage } = await consumeWith({}, { contract, errorHandler });
+
+            expect(onMessage).not.toHaveBeenCalled();
+            expect(errorHandler).toHaveBeenCalledWith(
+                expect.objectContaining({ schemaId: 'billing@3' }),
+                message,
+                expect.any(RabbitMQContext),
+            );
+            expect(mockChannel.nack).toHaveBeenCalledWith(message, false, false);
+            expect(mockChannel.sendToQueue).not.toHaveBeenCalled();
+        });
+
+        it('should pass valid consumed messages to the handler', async () => {
+            const { onMessage } = await consumeWith({ orderId: 'ord-1' });
+
+            expect(onMessage).toHaveBeenCalledWith({ orderId: 'ord-1' }, expect.anything());
+        });
+    });
+
+    describe('upcasting', () => {
+        const consumeWith = async (content: unknown, properties: Record<string, unknown>) => {
+            const onMessage = jest.fn().mockResolvedValue(undefined);
+            const message: any = { content: Buffer.from(JSON.stringify(content)), fields: {}, properties };
+
+            await service.consume('orders', onMessage);
+            await mockChannel.consume.mock.calls[0][1](message);
+
+            return onMessage.mock.calls[0][0];
+        };
+
+        beforeEach(async () => {
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                upcasters: [
+                    {
+                        fromVersion: 1,
+                        type: 'order.created',
+                        upcast: ({ name, ...order }) => ({ ...order, customer: name }),
+                    },
+                    { fromVersion: 2, type: 'order.created', upcast: (order) => ({ ...order, currency: 'EUR' }) },
+                ],
+            });
+            await service.initialize();
+        });
+
+        it('should upcast consumed payloads to the latest version of their type', async () => {
+            await expect(consumeWith({ id: 1, name: 'Ada' }, { type: 'order.created' })).resolves.toEqual({
+                currency: 'EUR',
+                customer: 'Ada',
+                id: 1,
+            });
+        });
+
+        it('should start from the version header and leave other types untouched', async () => {
+            await expect(
+                consumeWith({ customer: 'Ada' }, { headers: { 'x-message-version': 2 }, type: 'order.created' }),
+            ).resolves.toEqual({ currency: 'EUR', customer: 'Ada' });
+
+            mockChannel.consume.mockClear();
+
+            await expect(consumeWith({ name: 'Ada' }, { type: 'order.shipped' })).resolves.toEqual({ name: 'Ada' });
+        });
+
+        it('should send the publish version in the version header', async () => {
+            await service.publish('events', 'order.created', { id: 1 }, { headers: { tenant: 'acme' }, version: 3 });
+
+            const options = mockChannel.publish.mock.calls[0][3];
+
+            expect(options.headers).toEqual({ tenant: 'acme', 'x-message-version': 3 });
+            expect(options).not.toHaveProperty('version');
+        });
+    });
+
+    describe('idempotent consume', () => {
+        let messageHandler: any;
+
+        const createMessage = (messageId?: string): any => ({
+            content: Buffer.from('{"id":1}'),
+            fields: {},
+            properties: { headers: { 'x-order-id': 'order-1' }, messageId },
+        });
+
+        beforeEach(async () => {
+            await service.initialize();
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+        });
+
+        it('should skip and ack redelivered messages with the same messageId', async () => {
+            const handler = jest.fn();
+
+            await service.consume('orders', handler, { idempotency: true });
+
+            const first = createMessage('msg-1');
+            const duplicate = createMessage('msg-1');
+
+            await messageHandler(first);
+            await messageHandler(duplicate);
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(mockChannel.ack).toHaveBeenCalledWith(first);
+            expect(mockChannel.ack).toHaveBeenCalledWith(duplicate);
+            expect(mockChannel.consume).toHaveBeenCalledWith('orders', expect.any(Function), { noAck: false });
+        });
+
+        it('should always process messages without a key', async () => {
+            const handler = jest.fn();
+
+            await service.consume('orders', handler, { idempotency: true });
+            await messageHandler(createMessage());
+            await messageHandler(createMessage());
+
+            expect(handler).toHaveBeenCalledTimes(2);
+        });
+
+        it('should release the key when the handler fails', async () => {
+            const handler = jest.fn().mockRejectedValueOnce(new Error('Database down'));
+
+            await service.consume('orders', handler, { idempotency: true });
+            await messageHandler(createMessage('msg-1'));
+            await messageHandler(createMessage('msg-1'));
+
+            expect(handler).toHaveBeenCalledTimes(2);
+        });
+
+        it('should release the key when the handler requeues or rejects the message', async () => {
+            const handler = jest
+                .fn()
+                .mockResolvedValueOnce(MessageDisposition.REQUEUE)
+                .mockResolvedValueOnce(MessageDisposition.NACK)
+                .mockResolvedValue(undefined);
+            const requeued = createMessage('msg-1');
+            const rejected = createMessage('msg-1');
+
+            await service.consume('orders', handler, { idempotency: true });
+            await messageHandler(requeued);
+            await messageHandler(rejected);
+            await messageHandler(createMessage('msg-1'));
+            await messageHandler(createMessage('msg-1'));
+
+            expect(handler).toHaveBeenCalledTimes(3);
+            expect(mockChannel.nack).toHaveBeenCalledWith(requeued, false, true);
+            expect(mockChannel.nack).toHaveBeenCalledWith(rejected, false, false);
+        });
+
+        it('should process dead-lettered messages again when they are replayed', async () => {
+            const handler = jest
+                .fn()
+                .mockRejectedValueOnce(new Error('Database down'))
+                .mockResolvedValueOnce(MessageDisposition.NACK)
+                .mockResolvedValue(undefined);
+            const replayed = createMessage('msg-1');
+
+            await service.consume('orders', handler, { deadLetter: true, idempotency: true });
+
+            // Republished to the dead-letter exchange by the library, then replayed
+            await messageHandler(createMessage('msg-1'));
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'orders.dlx',
+                'orders',
+                expect.any(Buffer),
+                expect.objectContaining({ messageId: 'msg-1' }),
+            );
+
+            // Rejected by the handler and dead-lettered by the broker, then replayed
+            await messageHandler(createMessage('msg-1'));
+            await messageHandler(replayed);
+
+            expect(handler).toHaveBeenCalledTimes(3);
+            expect(mockChannel.ack).toHaveBeenLastCalledWith(replayed);
+        });
+
+        it('should requeue duplicates delivered while the first delivery is still processed', async () => {
+            let fail: (error: Error) => void = () => undefined;
+            const handler = jest
+                .fn()
+                .mockImplementationOnce(() => new Promise((resolve, reject) => (fail = reject)))
+                .mockResolvedValue(undefined);
+            const duplicate = createMessage('msg-1');
+            const redelivered = createMessage('msg-1');
+
+            await service.consume('orders', handler, { idempotency: true });
+
+            const first = messageHandler(createMessage('msg-1'));
+
+            await new Promise((resolve) => setImmediate(resolve));
+            await messageHandler(duplicate);
+
+            expect(mockChannel.nack).toHaveBeenCalledWith(duplicate, false, true);
+            expect(mockChannel.ack).not.toHaveBeenCalled();
+
+            fail(new Error('Database down'));
+            await first;
+            await messageHandler(redelivered);
+
+            expect(handler).toHaveBeenCalledTimes(2);
+            expect(mockChannel.ack).toHaveBeenCalledWith(redelivered);
+        });
+
+        it('should process a redelivery once the lease of an unfinished delivery has expired', async () => {
+            const handler = jest
+                .fn()
+                .mockImplementationOnce(() => new Promise(() => undefined))
+                .mockResolvedValue(undefined);
+            const now = Date.now();
+
+            await service.consume('orders', handler, { idempotency: { leaseDuration: 1000 } });
+            void messageHandler(createMessage('msg-1'));
+            await new Promise((resolve) => setImmediate(resolve));
+
+            const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+
+            await messageHandler(createMessage('msg-1'));
+            dateNow.mockRestore();
+
+            expect(handler).toHaveBeenCalledTimes(2);
+        });
+
+        it('should use a custom key and store scoped to the queue', async () => {
+            const store = {
+                claim: jest.fn().mockResolvedValue(IdempotencyClaim.PROCESSED),
+                markProcessed: jest.fn(),
+                release: jest.fn(),
+            };
+            const handler = jest.fn();
+
+            await service.consume('orders', handler, {
+                idempotency: {
+                    key: (message) => message.properties.headers?.['x-order-id'],
+                    leaseDuration: 500,
+                    store,
+                    ttl: 1000,
+                },
+            });
+            await messageHandler(createMessage('msg-1'));
+
+            expect(store.claim).toHaveBeenCalledWith('orders:order-1', 500);
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it('should fall back to the module-level idempotency store', async () => {
+            const store = {
+                claim: jest.fn().mockResolvedValue(IdempotencyClaim.CLAIMED),
+                markProcessed: jest.fn().mockResolvedValue(undefined),
+                release: jest.fn(),
+            };
+
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                idempotencyStore: store,
+            });
+            await service.initialize();
+            await service.consume('orders', jest.fn(), { idempotency: true });
+            await messageHandler(createMessage('msg-1'));
+
+            expect(store.claim).toHaveBeenCalledWith('orders:msg-1', 30000);
+            expect(store.markProcessed).toHaveBeenCalledWith('orders:msg-1', 24 * 60 * 60 * 1000);
+        });
+    });
+
+    describe('consume with retry', () => {
+        let messageHandler: any;
+
+        const createMessage = (headers: Record<string, unknown> = {}): any => ({
+            content: Buffer.from('{"id":1}'),
+            fields: {},
+            properties: { contentType: 'application/json', headers, messageId: 'msg-1' },
+        });
+
+        beforeEach(async () => {
+            await service.initialize();
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+        });
+
+        it('should assert delay queues dead-lettering back to the origin queue and a parking queue', async () => {
+            await service.consume('orders', jest.fn(), {
+                retry: { initialDelay: 1000, maxAttempts: 4, maxDelay: 3000, multiplier: 2 },
+            });
+
+            expect(mockChannel.assertQueue.mock.calls).toEqual([
+                [
+                    'orders.retry.1000',
+                    {
+                        arguments: {
+                            'x-dead-letter-exchange': '',
+                            'x-dead-letter-routing-key': 'orders',
+                            'x-message-ttl': 1000,
+                        },
+                        durable: true,
+                    },
+                ],
+                ['orders.retry.2000', expect.anything()],
+                ['orders.retry.3000', expect.anything()],
+                ['orders.parking', { durable: true }],
+            ]);
+            expect(mockChannel.consume).toHaveBeenCalledWith('orders', expect.any(Function), { noAck: false });
+        });
+
+        it('should republish failed messages to the delay queue of the next attempt', async () => {
+            await service.consume('orders', jest.fn().mockRejectedValue(new Error('Temporary failure')), {
+                retry: { initialDelay: 1000, multiplier: 3 },
+            });
+
+            const message = createMessage({ 'x-retry-attempt': 1 });
+
+            await messageHandler(message);
+
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith(
+                'orders.retry.3000',
+                message.content,
+                expect.objectContaining({
+                    contentType: 'application/json',
+                    expiration: '3000',
+                    headers: { 'x-retry-attempt': 2, 'x-retry-last-error': 'Temporary failure' },
+                    messageId: 'msg-1',
+                }),
+            );
+            expect(mockChannel.ack).toHaveBeenCalledWith(message);
+            expect(mockChannel.nack).not.toHaveBeenCalled();
+        });
+
+        it('should shorten delays by at most the jitter fraction', async () => {
+            const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+            await service.consume('orders', jest.fn().mockRejectedValue(new Error('Temporary failure')), {
+                retry: { initialDelay: 1000, jitter: 0.2 },
+            });
+
+            await messageHandler(createMessage());
+
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith(
+                'orders.retry.1000',
+                expect.any(Buffer),
+                expect.objectContaining({ expiration: '900' }),
+            );
+            random.mockRestore();
+        });
+
+        it('should park messages once attempts are exhausted', async () => {
+            await service.consume('orders', jest.fn().mockRejectedValue(new Error('Still failing')), {
+                retry: { maxAttempts: 3, parkingQueue: 'orders.failed' },
+            });
+
+            const message = createMessage({ 'x-retry-attempt': 2 });
+
+            await messageHandler(message);
+
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith(
+                'orders.failed',
+                message.content,
+                expect.objectContaining({
+                    expiration: undefined,
+                    headers: { 'x-retry-attempt': 3, 'x-retry-last-error': 'Still failing' },
+                }),
+            );
+            expect(mockChannel.ack).toHaveBeenCalledWith(message);
+        });
+
+        it('should not retry messages the error handler settled', async () => {
+            await service.consume('orders', jest.fn().mockRejectedValue(new Error('Fatal')), {
+                errorHandler: () => MessageDisposition.NACK,
+                retry: {},
+            });
+
+            const message = createMessage();
+
+            await messageHandler(message);
+
+            expect(mockChannel.sendToQueue).not.toHaveBeenCalled();
+            expect(mockChannel.nack).toHaveBeenCalledWith(message, false, false);
+        });
+
+        it('should not retry validation failures', async () => {
+            await service.consume('orders', jest.fn().mockRejectedValue(new BadRequestException()), { retry: {} });
+
+            await messageHandler(createMessage());
+
+            expect(mockChannel.sendToQueue).not.toHaveBeenCalled();
+            expect(mockChannel.nack).toHaveBeenCalled();
+        });
+
+        it('should reject the message when the retry cannot be published', async () => {
+            mockChannel.sendToQueue.mockRejectedValueOnce(new Error('Channel closed'));
+            await service.consume('orders', jest.fn().mockRejectedValue(new Error('Temporary failure')), {
+                retry: {},
+            });
+
+            const message = createMessage();
+
+            await messageHandler(message);
+
+            expect(mockChannel.ack).not.toHaveBeenCalled();
+            expect(mockChannel.nack).toHaveBeenCalledWith(message, false, false);
+        });
+    });
+
+    describe('dead-letter topology', () => {
+        beforeEach(async () => {
+            await service.initialize();
+        });
+
+        it('should assert the dead-letter exchange and queue and point the queue at them', async () => {
+            await service.assertQueue('orders', { durable: true }, true);
+
+            expect(mockChannel.assertExchange).toHaveBeenCalledWith('orders.dlx', 'direct', { durable: true });
+            expect(mockChannel.assertQueue).toHaveBeenCalledWith('orders.dlq', { durable: true });
+            expect(mockChannel.bindQueue).toHaveBeenCalledWith('orders.dlq', 'orders.dlx', 'orders');
+            expect(mockChannel.assertQueue).toHaveBeenLastCalledWith('orders', {
+                arguments: { 'x-dead-letter-exchange': 'orders.dlx', 'x-dead-letter-routing-key': 'orders' },
+                durable: true,
+            });
+        });
+
+        it('should keep existing queue arguments and honour custom names', async () => {
+            await service.assertQueue(
+                'payments',
+                { arguments: { 'x-max-priority': 10 } },
+                {
+                    exchange: 'dlx',
+                    queue: 'payments.failed',
+                    queueOptions: { durable: false },
+                    routingKey: 'payments.failed',
+                },
+            );
+
+            expect(mockChannel.assertQueue).toHaveBeenCalledWith('payments.failed', { durable: false });
+            expect(mockChannel.bindQueue).toHaveBeenCalledWith('payments.failed', 'dlx', 'payments.failed');
+            expect(mockChannel.assertQueue).toHaveBeenLastCalledWith('payments', {
+                arguments: {
+                    'x-dead-letter-exchange': 'dlx',
+                    'x-dead-letter-routing-key': 'payments.failed',
+                    'x-max-priority': 10,
+                },
+                durable: true,
+            });
+        });
+
+        it('should republish rejected messages to the dead-letter exchange with failure headers', async () => {
+            let messageHandler: any;
+            const error = new Error('Invalid order');
+
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+
+            await service.consume('orders', jest.fn().mockRejectedValue(error), {
+                deadLetter: true,
+                handlerName: 'OrderConsumer.handleOrder',
+            });
+
+            const message = {
+                content: Buffer.from('{"id":1}'),
+                fields: { exchange: 'events', routingKey: 'order.created' },
+                properties: { headers: { 'x-tenant': 'acme' }, messageId: 'msg-1' },
+            };
+
+            await messageHandler(message);
+
+            expect(mockChannel.assertExchange).toHaveBeenCalledWith('orders.dlx', 'direct', { durable: true });
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'orders.dlx',
+                'orders',
+                message.content,
+                expect.objectContaining({
+                    headers: {
+                        'x-failure-handler': 'OrderConsumer.handleOrder',
+                        'x-failure-reason': 'Invalid order',
+                        'x-failure-stack': error.stack,
+                        'x-original-exchange': 'events',
+                        'x-original-routing-key': 'order.created',
+                        'x-tenant': 'acme',
+                    },
+                    messageId: 'msg-1',
+                }),
+            );
+            expect(mockChannel.ack).toHaveBeenCalledWith(message);
+            expect(mockChannel.nack).not.toHaveBeenCalled();
+        });
+
+        it('should fall back to a broker dead-letter when republishing fails', async () => {
+            let messageHandler: any;
+
+            mockChannel.publish.mockRejectedValueOnce(new Error('Channel closed'));
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+
+            await service.consume('orders', jest.fn().mockRejectedValue(new Error('Invalid order')), {
+                deadLetter: true,
+            });
+
+            const message = { content: Buffer.from('{}'), fields: {}, properties: {} };
+
+            await messageHandler(message);
+
+            expect(mockChannel.nack).toHaveBeenCalledWith(message, false, false);
+        });
+
+        it('should not dead-letter messages the error handler requeues', async () => {
+            let messageHandler: any;
+
+            mockChannel.consume.mockImplementation((queue: string, handler: any) => {
+                messageHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+
+            await service.consume('orders', jest.fn().mockRejectedValue(new Error('Busy')), {
+                deadLetter: true,
+                errorHandler: () => MessageDisposition.REQUEUE,
+            });
+
+            const message = { content: Buffer.from('{}'), fields: {}, properties: {} };
+
+            await messageHandler(message);
+
+            expect(mockChannel.publish).not.toHaveBeenCalled();
+            expect(mockChannel.nack).toHaveBeenCalledWith(message, false, true);
+        });
+    });
+
+    describe('replayDeadLetters', () => {
+        const failedOrder = (): any => ({
+            content: Buffer.from('{"id":1}'),
+            fields: {},
+            properties: {
+                headers: {
+                    'x-failure-reason': 'Invalid order',
+                    'x-original-exchange': 'events',
+                    'x-original-routing-key': 'order.created',
+                    'x-retry-attempt': 3,
+                },
+                messageId: 'msg-1',
+            },
+        });
+        const expiredOrder = (): any => ({
+            content: Buffer.from('{"id":2}'),
+            fields: {},
+            properties: {
+                headers: { 'x-death': [{ exchange: 'orders-exchange', queue: 'orders', 'routing-keys': ['orders'] }] },
+                messageId: 'msg-2',
+            },
+        });
+        const unknownOrder = (): any => ({
+            content: Buffer.from('{"id":3}'),
+            fields: {},
+            properties: { headers: {}, messageId: 'msg-3' },
+        });
+
+        const queueMessages = (...messages: any[]) => {
+            for (const message of messages) {
+                mockChannel.get.mockResolvedValueOnce(message);
+            }
+        };
+
+        beforeEach(async () => {
+            await service.initialize();
+        });
+
+        it('should republish messages to their original destination and remove them from the DLQ', async () => {
+            const first = failedOrder();
+            const second = expiredOrder();
+
+            queueMessages(first, second);
+
+            const report = await service.replayDeadLetters('orders.dlq');
+
+            expect(mockChannel.get).toHaveBeenCalledWith('orders.dlq', { noAck: false });
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'events',
+                'order.created',
+                first.content,
+                expect.objectContaining({
+                    headers: {
+                        'x-failure-reason': 'Invalid order',
+                        'x-original-exchange': 'events',
+                        'x-original-routing-key': 'order.created',
+                    },
+                    messageId: 'msg-1',
+                }),
+            );
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'orders-exchange',
+                'orders',
+                second.content,
+                expect.objectContaining({ headers: {} }),
+            );
+            expect(mockChannel.ack).toHaveBeenCalledWith(first);
+            expect(mockChannel.ack).toHaveBeenCalledWith(second);
+            expect(report).toEqual({
+                dryRun: false,
+                entries: [
+                    { exchange: 'events', messageId: 'msg-1', routingKey: 'order.created', status: 'replayed' },
+                    { exchange: 'orders-exchange', messageId: 'msg-2', routingKey: 'orders', status: 'replayed' },
+                ],
+                failed: 0,
+                inspected: 2,
+                replayed: 2,
+                skipped: 0,
+            });
+        });
+
+        it('should leave filtered out and undeliverable messages in the DLQ', async () => {
+            const first = failedOrder();
+            const second = expiredOrder();
+            const third = unknownOrder();
+
+            queueMessages(first, second, third);
+
+            const report = await service.replayDeadLetters('orders.dlq', {
+                filter: (payload: any) => payload.id !== 2,
+            });
+
+            expect(mockChannel.publish).toHaveBeenCalledTimes(1);
+            expect(mockChannel.nack).toHaveBeenCalledWith(second, false, true);
+            expect(mockChannel.nack).toHaveBeenCalledWith(third, false, true);
+            expect(report.entries[1]).toEqual({ messageId: 'msg-2', status: 'skipped' });
+            expect(report.entries[2]).toEqual({
+                error: 'Original destination unknown',
+                messageId: 'msg-3',
+                status: 'failed',
+            });
+            expect(report).toEqual(expect.objectContaining({ failed: 1, inspected: 3, replayed: 1, skipped: 1 }));
+        });
+
+        it('should stop after the limit', async () => {
+            queueMessages(failedOrder(), expiredOrder());
+
+            const report = await service.replayDeadLetters('orders.dlq', { limit: 1 });
+
+            expect(mockChannel.get).toHaveBeenCalledTimes(1);
+            expect(report.inspected).toBe(1);
+        });
+
+        it('should only report on a dry run', async () => {
+            const message = failedOrder();
+
+            queueMessages(message);
+
+            const report = await service.replayDeadLetters('orders.dlq', { dryRun: true });
+
+            expect(mockChannel.publish).not.toHaveBeenCalled();
+            expect(mockChannel.ack).not.toHaveBeenCalled();
+            expect(mockChannel.nack).toHaveBeenCalledWith(message, false, true);
+            expect(report).toEqual(expect.objectContaining({ dryRun: true, replayed: 1 }));
+        });
+
+        it('should republish transformed payloads to the given target', async () => {
+            queueMessages(unknownOrder());
+
+            const report = await service.replayDeadLetters('orders.dlq', {
+                targetExchange: '',
+                targetRoutingKey: 'orders.replay',
+                transform: (payload: any) => ({ ...payload, replayed: true }),
+            });
+
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                '',
+                'orders.replay',
+                Buffer.from(JSON.stringify({ id: 3, replayed: true })),
+                expect.any(Object),
+            );
+            expect(report.replayed).toBe(1);
+        });
+
+        it('should keep messages whose republish fails', async () => {
+            const message = failedOrder();
+
+            queueMessages(message);
+            mockChannel.publish.mockRejectedValueOnce(new Error('Channel closed'));
+
+            const report = await service.replayDeadLetters('orders.dlq');
+
+            expect(mockChannel.nack).toHaveBeenCalledWith(message, false, true);
+            expect(report.entries[0]).toEqual(
+                expect.objectContaining({ error: 'Channel closed', messageId: 'msg-1', status: 'failed' }),
+            );
+        });
+    });
+
+    describe('request (RPC)', () => {
+        beforeEach(() => {
+            mockRpcChannel.consume.mockImplementation((queue: string, handler: any) =>
+                Promise.resolve({ consumerTag: 'test' }),
+            );
+        });
+
+        it('should make RPC request and receive response', async () => {
+            await service.initialize();
+
+            let replyHandler: any;
+
+            mockRpcChannel.consume.mockImplementation((queue: string, handler: any) => {
+                replyHandler = handler;
+
+                return Promise.resolve({ consumerTag: 'test' });
+            });
+
+            const requestPromise = service.request('rpc-queue', { action: 'test' });
+
+            // Wait for consume to be called
+            await new Promise((resolve) => setTimeout(resolve, 10));
+
+            // Simulate reply
+            const replyMessage = {
+                content: Buffer.from(JSON.stringify({ result: 'success' })),
+                properties: {
+                    correlationId: expect.any(String),
+                },
+            };
+
+            if (replyHandler) {
+                // Get the actual correlationId from the sendToQueue call
+                const sendCall = mockRpcChannel.publish.mock.calls.find((call: any) => call[1] === 'rpc-queue');
+
+                if (sendCall && sendCall[3]?.correlationId) {
+                    replyMessage.properties.correlationId = sendCall[3].correlationId;
+                    await replyHandler(replyMessage);
+                }
+            }
+
+            const result = await requestPromise;
+
+            expect(result).toEqual({ result: 'success' });
+        });
+
+        const replyWithError = async (error: Record<string, unknown>): Promise<void> => {
+            const replyHandler = mockRpcChannel.consume.mock.calls.find(
+                (call: any) => call[0] === 'amq.rabbitmq.reply-to',
+            )[1];
+            const sendCall = mockRpcChannel.publish.mock.calls.find((call: any) => call[1] === 'rpc-queue');
+
+            await replyHandler({
+                content: Buffer.from(JSON.stringify({ error })),
+                properties: { correlationId: sendCall[3].correlationId, headers: { 'x-rpc-error': true } },
+            });
+        };
+
+        it('should reject with RpcRemoteError when the handler replied with an error', async () => {
+            await service.initialize();
+
+            const requestPromise = service.request('rpc-queue', { id: 42 });
+
+            await new Promise((resolve) => setImmediate(resolve));
+            await replyWithError({
+                code: 'ORDER_NOT_FOUND',
+                details: { id: 42 },
+                message: 'Order 42 not found',
+                name: 'OrderNotFoundError',
+            });
+
+            const error = await requestPromise.catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(RpcRemoteError);
+            expect(error).toEqual(
+                expect.objectContaining({
+                    code: 'ORDER_NOT_FOUND',
+                    details: { id: 42 },
+                    message: 'Order 42 not found',
+                    remoteName: 'OrderNotFoundError',
+                }),
+            );
+        });
+
+        it('should rethrow registered exception classes by name', async () => {
+            class OrderNotFoundError extends Error {}
+
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                rpcExceptions: [OrderNotFoundError],
+            });
+            await service.initialize();
+
+            const requestPromise = service.request('rpc-queue', { id: 42 });
+
+            await new Promise((resolve) => setImmediate(resolve));
+            await replyWithError({
+                code: 'ORDER_NOT_FOUND',
+                message: 'Order 42 not found',
+                name: 'OrderNotFoundError',
+            });
+
+            const error = await requestPromise.catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(OrderNotFoundError);
+            expect(error).toEqual(expect.objectContaining({ code: 'ORDER_NOT_FOUND', message: 'Order 42 not found' }));
+        });
+
+        it('should reject with the decode error of a reply that cannot be deserialized', async () => {
+            await service.initialize();
+            jest.spyOn((service as any).serializers, 'deserialize').mockImplementation(() => {
+                throw new Error('Invalid reply');
+            });
+
+            const requestPromise = service.request('rpc-queue', { id: 42 });
+
+            await new Promise((resolve) => setImmediate(resolve));
+
+            const replyHandler = mockRpcChannel.consume.mock.calls.find(
+                (call: any) => call[0] === 'amq.rabbitmq.reply-to',
+            )[1];
+            const sendCall = mockRpcChannel.publish.mock.calls.find((call: any) => call[1] === 'rpc-queue');
+
+            expect(() =>
+                replyHandler({ content: Buffer.from('{}'), properties: { correlationId: sendCall[3].correlationId } }),
+            ).not.toThrow();
+            await expect(requestPromise).rejects.toThrow('Invalid reply');
+            expect((service as any).pendingRpcRequests.size).toBe(0);
+        });
+
+        it('should reject with the error of a reply that cannot be decompressed', async () => {
+            service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                maxDecompressedSize: 1024,
+            });
+            await service.initialize();
+
+            const requestPromise = service.request('rpc-queue', { id: 42 });
+
+            await new Promise((resolve) => setImmediate(resolve));
+
+            const replyHandler = mockRpcChannel.consume.mock.calls.find(
+                (call: any) => call[0] === 'amq.rabbitmq.reply-to',
+            )[1];
+            const sendCall = mockRpcChannel.publish.mock.calls.find((call: any) => call[1] === 'rpc-queue');
+
+            replyHandler({
+                content: gzipSync(Buffer.from(JSON.stringify({ padding: 'x'.repeat(2048) }))),
+                properties: { contentEncoding: 'gzip', correlationId: sendCall[3].correlationId },
+            });
+
+            await expect(requestPromise).rejects.toThrow('Cannot create a Buffer larger than 1024 bytes');
+        });
+
+        it('should timeout on RPC request', async () => {
+            await service.initialize();
+
+            // Use a very short timeout for testing
+            const requestPromise = service.request('rpc-queue', { action: 'test' }, { timeout: 10 });
+
+            await expect(requestPromise).rejects.toThrow('RPC timeout after 10ms');
+        }, 1000);
+
+        describe('deadlines', () => {
+            const now = 1_700_000_000_000;
+
+            beforeEach(() => {
+                jest.spyOn(Date, 'now').mockReturnValue(now);
+            });
+
+            afterEach(() => {
+                jest.restoreAllMocks();
+            });
+
+            const sendAndAbort = async (send: (signal: AbortSignal) => Promise<unknown>): Promise<any> => {
+                const controller = new AbortController();
+                const requestPromise = send(controller.signal);
+
+                await new Promise((resolve) => setImmediate(resolve));
+                controller.abort();
+                await requestPromise.catch(() => undefined);
+
+                return mockRpcChannel.publish.mock.calls[0][3];
+            };
+
+            it('should stamp the deadline header and expiration on the request', async () => {
+                await service.initialize();
+
+                const options = await sendAndAbort((signal) =>
+                    service.request('rpc-queue', { action: 'test' }, { signal, timeout: 5000 }),
+                );
+
+                expect(options.expiration).toBe(5000);
+                expect(options.headers['x-rpc-deadline']).toBe(now + 5000);
+            });
+
+            it('should cap the deadline of nested requests with the inherited deadline', async () => {
+                await service.initialize();
+
+                const options = await sendAndAbort((signal) =>
+                    runWithRpcDeadline(now + 1000, () => service.request('rpc-queue', { action: 'test' }, { signal })),
+                );
+
+                expect(options.expiration).toBe(1000);
+                expect(options.headers['x-rpc-deadline']).toBe(now + 1000);
+            });
+
+            it('should not send a nested request once the inherited deadline has passed', async () => {
+                await service.initialize();
+
+                await expect(
+                    runWithRpcDeadline(now, () => service.request('rpc-queue', { action: 'test' })),
+                ).rejects.toThrow('RPC deadline exceeded');
+                expect(mockRpcChannel.publish).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('RPC channel', () => {
+            const reconnect = async (): Promise<void> => {
+                const [options] = (mockConnectionManager.createChannel as jest.Mock).mock.calls.find(
+                    ([channelOptions]: any[]) => channelOptions?.name === 'test:rpc',
+                );
+
+                await options.setup(mockRpcChannel);
+            };
+
+            const replyToLatestConsumer = (correlationId: string, value: unknown) =>
+                mockRpcChannel.consume.mock.calls.at(-1)[1]({
+                    content: Buffer.from(JSON.stringify(value)),
+                    properties: { correlationId, headers: {} },
+                });
+
+            it('should send requests and consume replies on a dedicated channel', async () => {
+                await service.initialize();
+
+                const requestPromise = service.request('rpc-queue', { action: 'test' });
+
+                await new Promise((resolve) => setImmediate(resolve));
+
+                const [exchange, queue, , options] = mockRpcChannel.publish.mock.calls[0];
+
+                expect(exchange).toBe('');
+                expect(queue).toBe('rpc-queue');
+                expect(options.replyTo).toBe('amq.rabbitmq.reply-to');
+                expect(mockChannel.sendToQueue).not.toHaveBeenCalled();
+                expect(mockRpcChannel.consume).toHaveBeenCalledWith('amq.rabbitmq.reply-to', expect.any(Function), {
+                    noAck: true,
+                });
+
+                replyToLatestConsumer(options.correlationId, { ok: true });
+
+                await expect(requestPromise).resolves.toEqual({ ok: true });
+
+                await service.close();
+                expect(mockRpcChannel.close).toHaveBeenCalled();
+            });
+
+            it('should fail pending requests when the RPC channel reconnects', async () => {
+                await service.initialize();
+
+                const requestPromise = service.request('rpc-queue', { action: 'test' });
+
+                await new Promise((resolve) => setImmediate(resolve));
+                await reconnect();
+
+                await expect(requestPromise).rejects.toThrow('RPC channel reconnected before the reply arrived');
+                expect(mockRpcChannel.consume).toHaveBeenCalledTimes(2);
+                expect((service as any).pendingRpcRequests.size).toBe(0);
+            });
+
+            it('should re-send pending requests with the retry policy', async () => {
+                service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test', 'error', {
+                    rpcReconnectPolicy: RpcReconnectPolicy.RETRY,
+                });
+                await service.initialize();
+
+                const requestPromise = service.request('rpc-queue', { action: 'test' });
+
+                await new Promise((resolve) => setImmediate(resolve));
+                await reconnect();
+                await new Promise((resolve) => setImmediate(resolve));
+
+                const [first, second] = mockRpcChannel.publish.mock.calls;
+
+                expect(second[3].correlationId).toBe(first[3].correlationId);
+
+                replyToLatestConsumer(first[3].correlationId, { ok: true });
+
+                await expect(requestPromise).resolves.toEqual({ ok: true });
+            });
+
+            it('should fail streaming requests when the RPC channel reconnects', async () => {
+                await service.initialize();
+
+                const next = service.requestStream('rpc-queue', {}).next();
+
+                await new Promise((resolve) => setImmediate(resolve));
+                await reconnect();
+
+                await expect(next).rejects.toThrow('RPC channel reconnected before the stream ended');
+            });
+        });
+
+        it('should reject with AbortError when the signal is aborted', async () => {
+            await service.initialize();
+            const controller = new AbortController();
+
+            const requestPromise = service.request('rpc-queue', { action: 'test' }, { signal: controller.signal });
+
+            await new Promise((resolve) => setImmediate(resolve));
+            controller.abort('No longer needed');
+
+            const error = await requestPromise.catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(AbortError);
+            expect(error).toEqual(expect.objectContaining({ reason: 'No longer needed' }));
+            expect((service as any).pendingRpcRequests.size).toBe(0);
+            expect(mockChannel.publish).not.toHaveBeenCalled();
+        });
+
+        it('should not send the request when the signal is already aborted', async () => {
+            await service.initialize();
+            const controller = new AbortController();
+
+            controller.abort();
+
+            await expect(
+                service.request('rpc-queue', { action: 'test' }, { signal: controller.signal }),
+            ).rejects.toBeInstanceOf(AbortError);
+            expect(mockRpcChannel.publish).not.toHaveBeenCalled();
+        });
+
+        it('should publish the cancellation when publishCancellation is set', async () => {
+            await service.initialize();
+            const controller = new AbortController();
+
+            const requestPromise = service.request(
+                'rpc-queue',
+                { action: 'test' },
+                { publishCancellation: true, signal: controller.signal },
+            );
+
+            await new Promise((resolve) => setImmediate(resolve));
+            controller.abort();
+            await requestPromise.catch(() => undefined);
+            await new Promise((resolve) => setImmediate(resolve));
+
+            const { correlationId } = mockRpcChannel.publish.mock.calls[0][3];
+
+            expect(mockChannel.assertExchange).toHaveBeenCalledWith('rabbitmq.rpc.cancellations', 'fanout', {
+                durable: true,
+            });
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'rabbitmq.rpc.cancellations',
+                '',
+                expect.any(Buffer),
+                expect.objectContaining({ correlationId }),
+            );
+        });
+
+        it('should abort the signal of a tracked request when its cancellation arrives', async () => {
+            const confirmChannel = {
+                assertExchange: jest.fn().mockResolvedValue({}),
+                assertQueue: jest.fn().mockResolvedValue({ queue: 'amq.gen-1' }),
+                bindQueue: jest.fn().mockResolvedValue({}),
+                consume: jest.fn().mockResolvedValue({ consumerTag: 'cancellations' }),
+            };
+
+            mockChannel.addSetup = jest.fn((setup: any) => setup(confirmChannel));
+            await service.initialize();
+            await service.listenForRpcCancellations();
+            await service.listenForRpcCancellations();
+
+            const { release, signal } = service.trackRpcRequest('corr-1');
+            const onCancellation = confirmChannel.consume.mock.calls[0][1];
+
+            expect(mockChannel.addSetup).toHaveBeenCalledTimes(2);
+            expect(confirmChannel.assertExchange).toHaveBeenCalledTimes(1);
+            expect(confirmChannel.bindQueue).toHaveBeenCalledWith('amq.gen-1', 'rabbitmq.rpc.cancellations', '');
+
+            onCancellation({ properties: { correlationId: 'other' } });
+            expect(signal.aborted).toBe(false);
+
+            onCancellation({ properties: { correlationId: 'corr-1' } });
+            expect(signal.aborted).toBe(true);
+            expect(signal.reason).toBeInstanceOf(AbortError);
+
+            release();
+            expect((service as any).rpcRequestControllers.size).toBe(0);
+        });
+
+        it('should retry setting up the cancellation listener after a failed attempt', async () => {
+            await service.initialize();
+            mockChannel.bindQueue.mockRejectedValueOnce(new Error('Bind failed'));
+
+            await expect(service.listenForRpcCancellations()).rejects.toThrow('Bind failed');
+            expect(mockChannel.removeSetup).toHaveBeenCalledTimes(1);
+
+            await service.listenForRpcCancellations();
+
+            expect(mockChannel.bindQueue).toHaveBeenCalledTimes(2);
+            expect(mockChannel.consume).toHaveBeenCalledTimes(1);
+        });
+
+        it('should assert the cancellation exchange once for all cancellations', async () => {
+            await service.initialize();
+            await service.listenForRpcCancellations();
+
+            for (let index = 0; index < 2; index++) {
+                const controller = new AbortController();
+                const requestPromise = service.request(
+                    'rpc-queue',
+                    { action: 'test' },
+                    { publishCancellation: true, signal: controller.signal },
+                );
+
+                await new Promise((resolve) => setImmediate(resolve));
+                controller.abort();
+                await requestPromise.catch(() => undefined);
+                await new Promise((resolve) => setImmediate(resolve));
+            }
+
+            expect(mockChannel.assertExchange).toHaveBeenCalledTimes(1);
+            expect(mockChannel.publish).toHaveBeenCalledTimes(2);
+        });
+
+        it('should handle RPC request errors', async () => {
+            await service.initialize();
+            mockRpcChannel.publish.mockRejectedValue(new Error('Send failed'));
+
+            await expect(service.request('rpc-queue', { action: 'test' })).rejects.toThrow('Send failed');
+        });
+
+        it('should handle non-Error rejections in RPC', async () => {
+            await service.initialize();
+            mockRpcChannel.publish.mockRejectedValue('string error');
+
+            await expect(service.request('rpc-queue', { action: 'test' })).rejects.toThrow('string error');
+        });
+    });
+
+    describe('requestStream', () => {
+        const startStream = async (options = {}) => {
+            await service.initialize();
+
+            const iterator = service.requestStream('rpc-queue', { query: 'all' }, options);
+            const first = iterator.next();
+
+            await new Promise((resolve) => setImmediate(resolve));
+
+            const [, , , sendOptions] = mockRpcChannel.publish.mock.calls[0];
+            const replyHandler = mockRpcChannel.consume.mock.calls.find(
+                (call: any) => call[0] === 'amq.rabbitmq.reply-to',
+            )[1];
+            const reply = (value: unknown, headers: Record<string, unknown> = {}) =>
+                replyHandler({
+                    content: Buffer.from(JSON.stringify(value)),
+                    properties: { correlationId: sendOptions.correlationId, headers },
+                });
+
+            return { first, iterator, reply, sendOptions };
+        };
+
+        const chunk = { 'x-rpc-stream-frame': 'chunk' };
+        const end = { 'x-rpc-stream-frame': 'end' };
+
+        it('should yield each chunk until the end reply', async () => {
+            const { first, iterator, reply, sendOptions } = await startStream();
+
+            reply({ row: 1 }, chunk);
+            reply({ row: 2 }, chunk);
+            reply(null, end);
+
+            const values = [(await first).value];
+
+            for await (const value of iterator) {
+                values.push(value);
+            }
+
+            expect(values).toEqual([{ row: 1 }, { row: 2 }]);
+            expect(sendOptions.headers['x-rpc-stream']).toBe(1000);
+            expect((service as any).pendingRpcRequests.size).toBe(0);
+        });
+
+        it('should yield a single reply of a non-streaming handler', async () => {
+            const { first, iterator, reply } = await startStream();
+
+            reply({ total: 3 });
+
+            expect(await first).toEqual({ done: false, value: { total: 3 } });
+            expect(await iterator.next()).toEqual({ done: true, value: undefined });
+        });
+
+        it('should reject with RpcRemoteError when the handler fails mid-stream', async () => {
+            const { first, iterator, reply } = await startStream();
+
+            reply({ row: 1 }, chunk);
+            reply({ error: { message: 'Cursor closed', name: 'Error' } }, { 'x-rpc-error': true });
+
+            expect((await first).value).toEqual({ row: 1 });
+            await expect(iterator.next()).rejects.toBeInstanceOf(RpcRemoteError);
+        });
+
+        it('should time out when no reply arrives between chunks', async () => {
+            const { first, iterator, reply } = await startStream({ timeout: 20 });
+
+            reply({ row: 1 }, chunk);
+
+            expect((await first).value).toEqual({ row: 1 });
+            await expect(iterator.next()).rejects.toThrow('RPC stream timeout after 20ms');
+        });
+
+        it('should fail when more replies are buffered than maxBufferedReplies', async () => {
+            const { first, iterator, reply } = await startStream({ maxBufferedReplies: 2 });
+
+            reply({ row: 1 }, chunk);
+            expect((await first).value).toEqual({ row: 1 });
+
+            reply({ row: 2 }, chunk);
+            reply({ row: 3 }, chunk);
+            reply({ row: 4 }, chunk);
+
+            await expect(iterator.next()).rejects.toThrow('RPC stream buffer exceeded 2 replies');
+        });
+
+        it('should grant the handler one credit for each consumed reply', async () => {
+            const { first, iterator, reply, sendOptions } = await startStream({ maxBufferedReplies: 2 });
+            const credited = { ...chunk, 'x-rpc-stream-credit-queue': 'amq.gen-credit' };
+
+            expect(sendOptions.headers['x-rpc-stream']).toBe(2);
+
+            reply({ row: 1 }, credited);
+            reply({ row: 2 }, credited);
+            await first;
+            expect(mockChannel.sendToQueue).not.toHaveBeenCalled();
+
+            await iterator.next();
+
+            expect(mockChannel.sendToQueue).toHaveBeenCalledTimes(1);
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith('amq.gen-credit', expect.any(Buffer), {
+                correlationId: sendOptions.correlationId,
+                headers: { 'x-rpc-stream-credit': 1 },
+                persistent: false,
+            });
+        });
+
+        it('should tell the handler when the consumer stops early', async () => {
+            const { first, iterator, reply, sendOptions } = await startStream();
+
+            reply({ row: 1 }, { ...chunk, 'x-rpc-stream-credit-queue': 'amq.gen-credit' });
+            await first;
+            await iterator.return();
+
+            expect(mockChannel.sendToQueue).toHaveBeenCalledWith('amq.gen-credit', expect.any(Buffer), {
+                correlationId: sendOptions.correlationId,
+                headers: { 'x-rpc-stream-credit': 0 },
+                persistent: false,
+            });
+        });
+
+        it('should let a slow consumer receive a long stream from a handler waiting for credit', async () => {
+            let onCredit: (message: any) => void = () => undefined;
+
+            mockChannel.assertQueue.mockResolvedValue({ queue: 'amq.gen-credit' });
+            mockChannel.consume.mockImplementation((queue: string, listener: any) => {
+                onCredit = listener;
+
+                return Promise.resolve({ consumerTag: 'credit' });
+            });
+            mockChannel.sendToQueue.mockImplementation((queue: string, content: Buffer, options: any) => {
+                onCredit({ content, properties: options });
+
+                return Promise.resolve(true);
+            });
+
+            const { first, iterator, reply, sendOptions } = await startStream({ maxBufferedReplies: 2 });
+            const credit = await service.openRpcStreamCredit(sendOptions.headers['x-rpc-stream']);
+            const signal = new AbortController().signal;
+            const handler = (async () => {
+                for (let row = 1; row <= 10; row++) {
+                    if (!(await credit.waitForCredit(signal))) {
+                        return;
+                    }
+
+                    reply({ row }, { ...chunk, 'x-rpc-stream-credit-queue': credit.queue });
+                }
+
+                reply(null, end);
+                await credit.close();
+            })();
+            const values = [(await first).value];
+
+            for await (const value of iterator) {
+                await new Promise((resolve) => setTimeout(resolve, 2));
+                values.push(value);
+            }
+
+            await handler;
+
+            expect(values).toEqual(Array.from({ length: 10 }, (_, index) => ({ row: index + 1 })));
+            expect(mockChannel.cancel).toHaveBeenCalledWith('credit');
+        });
+
+        it('should stop waiting for credit once the caller stops consuming or the deadline passes', async () => {
+            let onCredit: (message: any) => void = () => undefined;
+
+            await service.initialize();
+            mockChannel.consume.mockImplementation((queue: string, listener: any) => {
+                onCredit = listener;
+
+                return Promise.resolve({ consumerTag: 'credit' });
+            });
+
+            const signal = new AbortController().signal;
+            const expired = await service.openRpcStreamCredit(0);
+
+            await expect(expired.waitForCredit(signal, Date.now() + 10)).resolves.toBe(false);
+
+            const credit = await service.openRpcStreamCredit(1);
+
+            await expect(credit.waitForCredit(signal)).resolves.toBe(true);
+
+            const waiting = credit.waitForCredit(signal);
+
+            onCredit({ properties: { headers: { 'x-rpc-stream-credit': 0 } } });
+
+            await expect(waiting).resolves.toBe(false);
+        });
+
+        it('should fail with the decode error of a reply that cannot be deserialized', async () => {
+            const { first, reply } = await startStream();
+
+            jest.spyOn((service as any).serializers, 'deserialize').mockImplementation(() => {
+                throw new Error('Invalid reply');
+            });
+            reply({ row: 1 }, chunk);
+
+            await expect(first).rejects.toThrow('Invalid reply');
+            expect((service as any).pendingRpcRequests.size).toBe(0);
+        });
+
+        it('should publish the cancellation when the consumer stops early', async () => {
+            const { first, iterator, reply, sendOptions } = await startStream({ publishCancellation: true });
+
+            reply({ row: 1 }, chunk);
+            await first;
+            await iterator.return();
+            await new Promise((resolve) => setImmediate(resolve));
+
+            expect(mockChannel.publish).toHaveBeenCalledWith(
+                'rabbitmq.rpc.cancellations',
+                '',
+                expect.any(Buffer),
+                expect.objectContaining({ correlationId: sendOptions.correlationId }),
+            );
+            expect((service as any).pendingRpcRequests.size).toBe(0);
+        });
+    });
+
+    describe('scatter', () => {
+        const startScatter = async (options = {}) => {
+            await service.initialize();
+
+            const scatterPromise = service.scatter('pricing', 'quote.request', { sku: 'A-1' }, options);
+
+            await new Promise((resolve) => setImmediate(resolve));
+
+            const [, , , publishOptions] = mockRpcChannel.publish.mock.calls[0];
+            const replyHandler = mockRpcChannel.consume.mock.calls.find(
+                (call: any) => call[0] === 'amq.rabbitmq.reply-to',
+            )[1];
+            const reply = (responder: string, value: unknown, headers: Record<string, unknown> = {}) =>
+                replyHandler({
+                    content: Buffer.from(JSON.stringify(value)),
+                    properties: {
+                        correlationId: publishOptions.correlationId,
+                        headers: { 'x-rpc-responder': responder, ...headers },
+                    },
+                });
+
+            return { publishOptions, reply, scatterPromise };
+        };
+
+        it('should collect every reply that arrives within the window', async () => {
+            const { publishOptions, reply, scatterPromise } = await startScatter({ timeout: 30 });
+
+            reply('pricing.engine-a', { price: 10 });
+            reply('pricing.engine-b', { error: { message: 'No price', name: 'Error' } }, { 'x-rpc-error': true });
+
+            const responses = await scatterPromise;
+
+            expect(publishOptions.replyTo).toBe('amq.rabbitmq.reply-to');
+            expect(responses).toEqual([
+                { elapsed: expect.any(Number), responder: 'pricing.engine-a', value: { price: 10 } },
+                { elapsed: expect.any(Number), error: expect.any(RpcRemoteError), responder: 'pricing.engine-b' },
+            ]);
+            expect((service as any).pendingRpcRequests.size).toBe(0);
+        });
+
+        it('should collect replies that cannot be deserialized as failed responders', async () => {
+            const { reply, scatterPromise } = await startScatter({ maxResponses: 1, timeout: 60000 });
+
+            jest.spyOn((service as any).serializers, 'deserialize').mockImplementation(() => {
+                throw new Error('Invalid reply');
+            });
+            reply('pricing.engine-a', { price: 10 });
+
+            expect(await scatterPromise).toEqual([
+                { elapsed: expect.any(Number), error: new Error('Invalid reply'), responder: 'pricing.engine-a' },
+            ]);
+        });
+
+        it('should resolve as soon as maxResponses replies arrived', async () => {
+            const { reply, scatterPromise } = await startScatter({ maxResponses: 2, timeout: 60000 });
+
+            reply('pricing.engine-a', { price: 10 });
+            reply('pricing.engine-b', { price: 12 });
+            reply('pricing.engine-c', { price: 9 });
+
+            const responses = await scatterPromise;
+
+            expect(responses.map(({ responder }) => responder)).toEqual(['pricing.engine-a', 'pricing.engine-b']);
+        });
+
+        it('should reject with InsufficientResponsesError when fewer than minResponses replies arrived', async () => {
+            const { reply, scatterPromise } = await startScatter({ minResponses: 2, timeout: 30 });
+
+            reply('pricing.engine-a', { price: 10 });
+
+            const error = await scatterPromise.catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(InsufficientResponsesError);
+            expect(error).toEqual(expect.objectContaining({ minResponses: 2, responses: [expect.any(Object)] }));
+        });
+
+        it('should reject when the request cannot be published', async () => {
+            await service.initialize();
+            mockRpcChannel.publish.mockRejectedValue(new Error('Channel closed'));
+
+            await expect(service.scatter('pricing', 'quote.request', {}, { timeout: 60000 })).rejects.toThrow(
+                'Channel closed',
+            );
+            expect((service as any).pendingRpcRequests.size).toBe(0);
         });
     });
 
@@ -382,6 +2400,7 @@ describe('RabbitMQService', () => {
     describe('channel setup', () => {
         it('should configure channel with prefetch during initialization', async () => {
             const mockConfirmChannel = {
+                on: jest.fn(),
                 prefetch: jest.fn().mockResolvedValue(undefined),
             };
 
@@ -406,6 +2425,7 @@ describe('RabbitMQService', () => {
             if (setupCallback) {
                 await setupCallback(mockConfirmChannel);
                 expect(mockConfirmChannel.prefetch).toHaveBeenCalledWith(1);
+                expect(mockConfirmChannel.on).toHaveBeenCalledWith('return', expect.any(Function));
             }
         });
     });
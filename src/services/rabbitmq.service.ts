@@ -3,10 +3,133 @@ import { randomUUID } from 'crypto';
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 
 import { AmqpConnectionManager, ChannelWrapper } from 'amqp-connection-manager';
-import { ConfirmChannel, Message, Options } from 'amqplib';
+import { ConfirmChannel, ConsumeMessage, GetMessage, Message, Options } from 'amqplib';
 
-import { PublishOptions, RpcOptions } from '../interfaces/rabbitmq-options.interface';
-import { getErrorStack, LogLevel, shouldLog } from '../utils/log-utils';
+import { RabbitMQContext } from '../context/rabbitmq.context';
+import { ContractRegistry } from '../contracts/contract.registry';
+import { AbortError } from '../errors/abort.error';
+import { ContractViolationError } from '../errors/contract-violation.error';
+import { EventPublisher } from '../events/event.publisher';
+import { InsufficientResponsesError } from '../errors/insufficient-responses.error';
+import { RpcRemoteError } from '../errors/rpc-remote.error';
+import { UnroutableMessageError } from '../errors/unroutable-message.error';
+import { InMemoryIdempotencyStore } from '../idempotency/in-memory-idempotency.store';
+import { MessageContractDefinition } from '../interfaces/contract.interface';
+import { EventMap, EventsDefinition } from '../interfaces/events.interface';
+import { IdempotencyClaim, IdempotencyOptions, IdempotencyStore } from '../interfaces/idempotency.interface';
+import {
+    DeadLetterReplayEntry,
+    ReplayDeadLettersOptions,
+    ReplayDeadLettersResult,
+} from '../interfaces/dead-letter-replay.interface';
+import {
+    MessageDisposition,
+    RpcErrorReply,
+    RpcReconnectPolicy,
+    RpcStreamCredit,
+    RpcStreamFrame,
+} from '../interfaces/message-handling.interface';
+import {
+    PublishBatchItem,
+    PublishBatchItemResult,
+    PublishBatchOptions,
+    PublishBatchResult,
+} from '../interfaces/publish-batch.interface';
+import {
+    ConsumeOptions,
+    DeadLetterOptions,
+    PublishOptions,
+    RabbitMQModuleOptions,
+    RetryOptions,
+    RpcOptions,
+    RpcStreamOptions,
+} from '../interfaces/rabbitmq-options.interface';
+import { ScatterOptions, ScatterResponse } from '../interfaces/scatter.interface';
+import { Serializer } from '../interfaces/serializer.interface';
+import {
+    createDeadLetterHeaders,
+    getDeadLetterOrigin,
+    getDeadLetterQueueArguments,
+    getReplayHeaders,
+    ResolvedDeadLetterOptions,
+    resolveDeadLetterOptions,
+} from '../utils/dead-letter-utils';
+import { OutboxPublisher } from '../outbox/outbox.publisher';
+import { OutboxRelay } from '../outbox/outbox.relay';
+import { SerializerRegistry } from '../serializers/serializer.registry';
+import { UpcasterRegistry } from '../upcasting/upcaster.registry';
+import { compressContent, resolveCompressionOptions } from '../utils/compression-utils';
+import { getCurrentRpcDeadline } from '../utils/deadline-utils';
+import { getErrorMessage, getErrorStack, LogLevel, shouldLog } from '../utils/log-utils';
+import { getIdempotencyKey, isGuardRejection, isValidationError, settleMessage } from '../utils/message-utils';
+import {
+    applyRetryJitter,
+    getParkingQueueName,
+    getRetryAttempt,
+    getRetryDelay,
+    getRetryDelays,
+    getRetryMaxAttempts,
+    getRetryQueueName,
+} from '../utils/retry-utils';
+
+import {
+    CONTRACT_ERRORS_HEADER,
+    CONTRACT_QUEUE_HEADER,
+    DEFAULT_IDEMPOTENCY_LEASE_DURATION,
+    DEFAULT_IDEMPOTENCY_TTL,
+    DEFAULT_RPC_STREAM_MAX_BUFFERED_REPLIES,
+    DEFAULT_SCATTER_TIMEOUT,
+    MESSAGE_VERSION_HEADER,
+    ORIGINAL_EXCHANGE_HEADER,
+    ORIGINAL_ROUTING_KEY_HEADER,
+    RETRY_ATTEMPT_HEADER,
+    RETRY_ERROR_HEADER,
+    RPC_CANCELLATION_EXCHANGE,
+    RPC_DEADLINE_HEADER,
+    RPC_ERROR_HEADER,
+    RPC_RESPONDER_HEADER,
+    RPC_STREAM_CREDIT_HEADER,
+    RPC_STREAM_CREDIT_QUEUE_HEADER,
+    RPC_STREAM_FRAME_HEADER,
+    RPC_STREAM_HEADER,
+    SCHEMA_ID_HEADER,
+} from '../constants';
+
+const DIRECT_REPLY_QUEUE = 'amq.rabbitmq.reply-to';
+
+/**
+ * A mandatory publish waiting for its confirm, and the message the broker returned for it.
+ */
+interface PendingReturn {
+    /** Encoded content of the published message */
+    content: Buffer;
+
+    /** Exchange the message was published to */
+    exchange: string;
+
+    /** Message the broker returned as unroutable */
+    returned?: Message;
+
+    /** Routing key the message was published with */
+    routingKey: string;
+}
+
+/**
+ * An RPC request waiting for replies on the RPC channel.
+ */
+interface PendingRpcRequest {
+    /** Called when the RPC channel reconnected after the request was sent on it */
+    onConnectionLost: () => void;
+
+    /** Called with the error of a reply that could not be decoded */
+    onDecodeError: (error: Error, message: Message) => void;
+
+    /** Called with each reply to the request */
+    onReply: (response: unknown, message: Message) => void;
+
+    /** Whether the request was sent on the current RPC channel */
+    sent: boolean;
+}
 
 /**
  * Core RabbitMQ service for publishing and consuming messages.
@@ -37,11 +160,21 @@ import { getErrorStack, LogLevel, shouldLog } from '../utils/log-utils';
  */
 @Injectable()
 export class RabbitMQService implements OnModuleDestroy {
+    private cancellationExchange?: Promise<void>;
+    private cancellationListener?: Promise<void>;
     private channel: ChannelWrapper;
+    private readonly contracts: ContractRegistry;
+    private defaultIdempotencyStore?: IdempotencyStore;
     private readonly logger = new Logger(RabbitMQService.name);
     private readonly logLevel: LogLevel;
-    private replyQueueInitialized = false;
-    private readonly rpcQueues = new Map<string, Map<string, (response: unknown) => void>>();
+    private readonly outboxPublisher?: OutboxPublisher;
+    private outboxRelay?: OutboxRelay;
+    private readonly pendingReturns = new Set<PendingReturn>();
+    private readonly pendingRpcRequests = new Map<string, PendingRpcRequest>();
+    private rpcChannel?: Promise<ChannelWrapper>;
+    private readonly rpcRequestControllers = new Map<string, AbortController>();
+    private readonly serializers: SerializerRegistry;
+    private readonly upcasters: UpcasterRegistry;
 
     /**
      * Creates an instance of RabbitMQService.
@@ -49,13 +182,26 @@ export class RabbitMQService implements OnModuleDestroy {
      * @param {AmqpConnectionManager} connectionManager - The AMQP connection manager instance
      * @param {string} connectionName - The name of this connection (for multi-connection support)
      * @param {LogLevel} [logLevel='error'] - The minimum log level to output
+     * @param {Partial<RabbitMQModuleOptions>} [options] - Module options honoured by the service (e.g. `onReturn`, `outbox`, `serializers`)
+     * @throws {Error} If the `serializer` option names a content type with no registered serializer,
+     * or a contract names neither a queue nor a routing key, or two upcasters migrate the same type and version
      */
     constructor(
         private readonly connectionManager: AmqpConnectionManager,
         private readonly connectionName: string,
         logLevel: LogLevel = 'error',
+        private readonly options: Partial<RabbitMQModuleOptions> = {},
     ) {
         this.logLevel = logLevel;
+        this.serializers = new SerializerRegistry(options.serializers, options.serializer, options.maxDecompressedSize);
+        this.contracts = new ContractRegistry(options.contracts?.definitions);
+        this.upcasters = new UpcasterRegistry(options.upcasters);
+
+        if (options.outbox) {
+            this.outboxPublisher = new OutboxPublisher(options.outbox.store, (message, publishOptions) =>
+                this.encodeMessage(message, publishOptions),
+            );
+        }
     }
 
     /**
@@ -65,10 +211,31 @@ export class RabbitMQService implements OnModuleDestroy {
      * @returns {Promise<void>}
      */
     async onModuleDestroy(): Promise<void> {
-        this.rpcQueues.clear();
+        this.pendingRpcRequests.clear();
         await this.close();
     }
 
+    /**
+     * Gets the transactional outbox publisher of this connection.
+     *
+     * @returns {OutboxPublisher} The outbox publisher
+     * @throws {Error} If the module `outbox` option is not set
+     *
+     * @example
+     * ```typescript
+     * await rabbitMQ.getOutboxPublisher().publish('events', 'order.created', order, undefined, {
+     *   transaction: queryRunner,
+     * });
+     * ```
+     */
+    getOutboxPublisher(): OutboxPublisher {
+        if (!this.outboxPublisher) {
+            throw new Error(`Outbox is not configured for connection: ${this.connectionName}`);
+        }
+
+        return this.outboxPublisher;
+    }
+
     /**
      * Gets the underlying AMQP channel wrapper.
      * Use this for advanced operations not covered by the service API.
@@ -102,55 +269,190 @@ export class RabbitMQService implements OnModuleDestroy {
     }
 
     /**
-     * Gets or creates the reply queue for RPC operations.
-     * Uses RabbitMQ's built-in direct reply-to feature.
+     * Gets the message contracts of this connection.
+     *
+     * @returns {ContractRegistry} The contract registry
+     *
+     * @example
+     * ```typescript
+     * rabbitMQ.getContracts().register({ routingKey: 'order.created', schema: orderSchema, version: 2 });
+     * ```
+     */
+    getContracts(): ContractRegistry {
+        return this.contracts;
+    }
+
+    /**
+     * Gets a publisher for events defined with `defineEvents()`, checking payloads against their event's type.
+     *
+     * @param {EventsDefinition<E>} definition - The events and their exchange
+     * @returns {EventPublisher<E>} The typed event publisher
+     *
+     * @example
+     * ```typescript
+     * await rabbitMQ.getEventPublisher(OrderEvents).publish('order.created', { orderId: '42' });
+     * ```
+     */
+    getEventPublisher<E extends EventMap>(definition: EventsDefinition<E>): EventPublisher<E> {
+        return new EventPublisher(this, definition);
+    }
+
+    /**
+     * Gets the serializers of this connection.
+     *
+     * @returns {SerializerRegistry} The serializer registry
+     *
+     * @example
+     * ```typescript
+     * const payload = rabbitMQ.getSerializers().deserialize(message);
+     * ```
+     */
+    getSerializers(): SerializerRegistry {
+        return this.serializers;
+    }
+
+    /**
+     * Gets the upcasters of this connection.
+     *
+     * @returns {UpcasterRegistry} The upcaster registry
+     *
+     * @example
+     * ```typescript
+     * rabbitMQ.getUpcasters().register({ type: 'order.created', fromVersion: 1, upcast: (v1) => ({ ...v1, currency: 'EUR' }) });
+     * ```
+     */
+    getUpcasters(): UpcasterRegistry {
+        return this.upcasters;
+    }
+
+    /**
+     * Decodes the payload of a consumed message: deserializes it, then upcasts it
+     * from the version of the message to the latest version of its `type`.
+     * Consumers and discovered handlers receive payloads decoded this way.
+     *
+     * @param {Pick<Message, 'content' | 'properties'>} message - The consumed message
+     * @param {Serializer} [serializer] - Serializer for messages without a known `contentType`
+     * @returns {unknown} The decoded payload
+     *
+     * @example
+     * ```typescript
+     * const order = rabbitMQ.decodeMessage(message) as OrderCreatedV2;
+     * ```
+     */
+    decodeMessage(message: Pick<Message, 'content' | 'properties'>, serializer?: Serializer): unknown {
+        return this.upcasters.upcast(this.serializers.deserialize(message, serializer), message);
+    }
+
+    /**
+     * Gets or creates the channel RPC requests are sent on and replies are consumed from.
+     * Direct reply-to delivers replies to the channel that sent the request, so both use
+     * this channel. Its reply consumer is re-created on every reconnect.
      *
      * @private
-     * @returns {Promise<string>} The reply queue name
+     * @returns {Promise<ChannelWrapper>} The RPC channel
      */
-    private async getReplyQueue(): Promise<string> {
-        const replyQueue = 'amq.rabbitmq.reply-to';
+    private async getRpcChannel(): Promise<ChannelWrapper> {
+        this.rpcChannel ??= this.createRpcChannel().catch((error: unknown) => {
+            this.rpcChannel = undefined;
+            throw error;
+        });
 
-        // Only setup consumer once to prevent multiple consumers on the same queue
-        if (this.replyQueueInitialized) {
-            return replyQueue;
-        }
+        return this.rpcChannel;
+    }
+
+    /**
+     * Creates the RPC channel and waits for it to connect.
+     *
+     * @private
+     */
+    private async createRpcChannel(): Promise<ChannelWrapper> {
+        const channel = this.connectionManager.createChannel({
+            json: false,
+            name: `${this.connectionName}:rpc`,
+            setup: async (confirmChannel: ConfirmChannel) => {
+                confirmChannel.on('return', (message: Message) => this.handleReturn(message));
+                // Direct-reply-to requires noAck=true
+                await confirmChannel.consume(
+                    DIRECT_REPLY_QUEUE,
+                    (message: ConsumeMessage | null) => this.handleRpcReply(message),
+                    { noAck: true },
+                );
+                this.recoverPendingRpcRequests();
+                this.debug(`RPC channel setup complete for: ${this.connectionName}`);
+            },
+        });
 
-        this.replyQueueInitialized = true;
+        await channel.waitForConnect();
 
-        // Initialize callback map for this reply queue
-        if (!this.rpcQueues.has(replyQueue)) {
-            this.rpcQueues.set(replyQueue, new Map());
-        }
+        return channel;
+    }
 
-        // Setup direct-reply-to consumer
-        await this.channel.consume(
-            replyQueue,
-            (message: Message | null) => {
-                if (!message) return;
+    /**
+     * Passes a reply to the pending request with the same correlation id, or the error
+     * of decoding it, since a throw here would escape the consumer callback.
+     * Requests remove themselves once they expect no further replies.
+     *
+     * @private
+     */
+    private handleRpcReply(message: ConsumeMessage | null): void {
+        const pending = message && this.pendingRpcRequests.get(message.properties.correlationId);
+
+        if (!pending) {
+            return;
+        }
 
-                const { correlationId } = message.properties;
+        let response: unknown;
 
-                const callbacks = this.rpcQueues.get(replyQueue);
+        try {
+            response = this.serializers.deserialize(message);
+        } catch (error: unknown) {
+            this.logger.error(
+                `Failed to decode RPC reply (correlationId=${message.properties.correlationId})`,
+                getErrorStack(error),
+            );
+            pending.onDecodeError(error instanceof Error ? error : new Error(String(error)), message);
 
-                if (!callbacks) return;
+            return;
+        }
 
-                if (!callbacks.has(correlationId)) return;
+        pending.onReply(response, message);
+    }
 
-                const callback = callbacks.get(correlationId);
-                const response = this.deserializeMessage(message.content);
+    /**
+     * Hands the requests sent on a lost RPC channel to their reconnect handling,
+     * since their replies went to the old channel.
+     *
+     * @private
+     */
+    private recoverPendingRpcRequests(): void {
+        for (const [correlationId, pending] of this.pendingRpcRequests) {
+            if (pending.sent) {
+                this.warn(`RPC channel reconnected with a pending request (correlationId=${correlationId})`);
+                pending.sent = false;
+                pending.onConnectionLost();
+            }
+        }
+    }
 
-                if (callback) {
-                    callback(response);
-                }
+    /**
+     * Sends an RPC request on the RPC channel with the direct reply-to queue as `replyTo`.
+     *
+     * @private
+     */
+    private async sendRpcRequest(
+        exchange: string,
+        routingKey: string,
+        message: unknown,
+        options: PublishOptions,
+    ): Promise<void> {
+        const channel = await this.getRpcChannel();
+        const contractOptions = await this.applyContract(exchange, routingKey, message, options);
+        const { content, options: encodedOptions } = await this.encodeMessage(message, contractOptions);
+        const sendOptions: Options.Publish = { persistent: true, ...encodedOptions, replyTo: DIRECT_REPLY_QUEUE };
 
-                callbacks.delete(correlationId);
-            },
-            // Direct-reply-to requires noAck=true
-            { noAck: true },
+        await this.sendWithReturnTracking(exchange, routingKey, content, sendOptions, (trackedOptions) =>
+            channel.publish(exchange, routingKey, content, trackedOptions),
         );
-
-        return replyQueue;
     }
 
     /**
@@ -158,9 +460,11 @@ export class RabbitMQService implements OnModuleDestroy {
      *
      * @param {string} exchange - The exchange name to publish to
      * @param {string} routingKey - The routing key for message routing
-     * @param {unknown} message - The message payload (will be JSON serialized)
+     * @param {unknown} message - The message payload, encoded by the serializer its `contentType` picks (JSON by default)
      * @param {PublishOptions} [options] - Additional publish options
-     * @returns {Promise<boolean>} True if the message was published successfully
+     * @returns {Promise<boolean>} True once the broker confirmed the message
+     * @throws {ContractViolationError} If the payload does not match the contract of the routing key
+     * @throws {UnroutableMessageError} If published with `mandatory: true` and the broker returned the message
      * @throws {Error} If publishing fails
      *
      * @example
@@ -174,19 +478,47 @@ export class RabbitMQService implements OnModuleDestroy {
      *   priority: 5,
      *   expiration: '60000',
      * });
+     *
+     * // Fail if no queue is bound for the routing key
+     * await rabbitMQ.publish('events', 'user.created', payload, { mandatory: true });
+     *
+     * // Encode with the MessagePack serializer
+     * await rabbitMQ.publish('events', 'user.created', payload, { contentType: 'application/msgpack' });
+     *
+     * // Write to the outbox in the same transaction as the user
+     * await rabbitMQ.publish('events', 'user.created', payload, { outbox: { transaction: queryRunner } });
      * ```
      */
     async publish(exchange: string, routingKey: string, message: unknown, options?: PublishOptions): Promise<boolean> {
         this.debug(`Publishing message to ${exchange}/${routingKey}`);
 
         try {
-            const content = this.serializeMessage(message);
+            const contractOptions = await this.applyContract(exchange, routingKey, message, options);
+
+            if (contractOptions?.outbox) {
+                const { outbox, ...publishOptions } = contractOptions;
+
+                await this.getOutboxPublisher().publish(
+                    exchange,
+                    routingKey,
+                    message,
+                    publishOptions,
+                    outbox === true ? {} : outbox,
+                );
+                this.debug(`Wrote message for ${exchange}/${routingKey} to the outbox`);
+
+                return true;
+            }
+
+            const { content, options: encodedOptions } = await this.encodeMessage(message, contractOptions);
             const publishOptions: Options.Publish = {
                 persistent: true,
-                ...options,
+                ...encodedOptions,
             };
 
-            await this.channel.publish(exchange, routingKey, content, publishOptions);
+            await this.sendWithReturnTracking(exchange, routingKey, content, publishOptions, (sendOptions) =>
+                this.channel.publish(exchange, routingKey, content, sendOptions),
+            );
 
             this.debug(`Successfully published message to ${exchange}/${routingKey}`);
 
@@ -198,41 +530,178 @@ export class RabbitMQService implements OnModuleDestroy {
     }
 
     /**
-     * Deserializes a message buffer to its original form.
-     * Attempts JSON parsing, falls back to string if parsing fails.
+     * Publishes content encoded beforehand, e.g. by the transactional outbox, as is:
+     * it is neither serialized, compressed nor checked against contracts again.
+     * Used by the outbox relay.
+     *
+     * @param {string} exchange - The exchange name to publish to
+     * @param {string} routingKey - The routing key for message routing
+     * @param {Buffer} content - The encoded payload
+     * @param {Options.Publish} [options] - The message properties, including its `contentType` and `contentEncoding`
+     * @returns {Promise<void>} Resolves once the broker confirmed the message
+     * @throws {UnroutableMessageError} If published with `mandatory: true` and the broker returned the message
+     * @throws {Error} If publishing fails
+     *
+     * @example
+     * ```typescript
+     * await rabbitMQ.publishEncoded('events', 'order.created', record.content, {
+     *   ...record.options,
+     *   contentType: record.contentType,
+     * });
+     * ```
+     */
+    async publishEncoded(
+        exchange: string,
+        routingKey: string,
+        content: Buffer,
+        options: Options.Publish = {},
+    ): Promise<void> {
+        await this.sendWithReturnTracking(
+            exchange,
+            routingKey,
+            content,
+            { persistent: true, ...options },
+            (sendOptions) => this.channel.publish(exchange, routingKey, content, sendOptions),
+        );
+        this.debug(`Successfully published encoded message to ${exchange}/${routingKey}`);
+    }
+
+    /**
+     * Publishes many messages, pipelining them on the confirm channel instead of
+     * waiting for each confirm in turn. Resolves once every message has been
+     * confirmed or has failed; a failing item never rejects the whole batch.
+     *
+     * @param {PublishBatchItem[]} items - The messages to publish
+     * @param {PublishBatchOptions} [options] - Batch options, e.g. the in-flight window
+     * @returns {Promise<PublishBatchResult>} Per-item outcomes and totals
+     *
+     * @example
+     * ```typescript
+     * const report = await rabbitMQ.publishBatch(
+     *   orders.map((order) => ({ exchange: 'events', routingKey: 'order.imported', message: order })),
+     *   { maxInFlight: 500 },
+     * );
+     * console.log(`${report.published} published, ${report.failed} failed`);
+     * ```
+     */
+    async publishBatch(items: PublishBatchItem[], options: PublishBatchOptions = {}): Promise<PublishBatchResult> {
+        const maxInFlight = Math.max(1, options.maxInFlight ?? 1000);
+        const results: PublishBatchItemResult[] = new Array(items.length);
+        let next = 0;
+
+        this.debug(`Publishing batch of ${items.length} messages`);
+
+        // Each worker keeps one message in flight, so the window never exceeds maxInFlight
+        const worker = async (): Promise<void> => {
+            while (next < items.length) {
+                const index = next++;
+
+                results[index] = await this.publishBatchItem(items[index], index);
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(maxInFlight, items.length) }, worker));
+
+        const published = results.filter((result) => result.success).length;
+        const failed = items.length - published;
+
+        if (failed > 0) {
+            this.warn(`Batch publish: ${failed} of ${items.length} messages failed`);
+        }
+
+        return { failed, published, results };
+    }
+
+    /**
+     * Publishes a single batch item, capturing its failure instead of throwing.
      *
      * @private
-     * @param {Buffer} buffer - The message content buffer
-     * @returns {unknown} The deserialized message
      */
-    private deserializeMessage(buffer: Buffer): unknown {
+    private async publishBatchItem(item: PublishBatchItem, index: number): Promise<PublishBatchItemResult> {
         try {
-            const str = buffer.toString();
+            const contractOptions = await this.applyContract(
+                item.exchange,
+                item.routingKey,
+                item.message,
+                item.options,
+            );
+            const { content, options: encodedOptions } = await this.encodeMessage(item.message, contractOptions);
+            const publishOptions: Options.Publish = {
+                persistent: true,
+                ...encodedOptions,
+            };
 
-            return JSON.parse(str) as unknown;
-        } catch {
-            return buffer.toString();
+            await this.sendWithReturnTracking(item.exchange, item.routingKey, content, publishOptions, (sendOptions) =>
+                this.channel.publish(item.exchange, item.routingKey, content, sendOptions),
+            );
+
+            return { index, success: true };
+        } catch (error: unknown) {
+            return { error, index, success: false };
         }
     }
 
     /**
-     * Serializes a message to a Buffer for transmission.
-     * Handles Buffer, string, and JSON-serializable objects.
+     * Validates a payload against the contract of its destination, if any,
+     * and returns the publish options with the `x-schema-id` header of the contract.
+     * Messages sent through the default exchange are matched by queue as well.
      *
      * @private
-     * @param {unknown} message - The message to serialize
-     * @returns {Buffer} The serialized message as a Buffer
      */
-    private serializeMessage(message: unknown): Buffer {
-        if (Buffer.isBuffer(message)) {
-            return message;
-        }
+    private async applyContract<T extends Options.Publish>(
+        exchange: string,
+        routingKey: string,
+        message: unknown,
+        options?: T,
+    ): Promise<T | undefined> {
+        const contract = this.contracts.find({
+            exchange,
+            queue: exchange === '' ? routingKey : undefined,
+            routingKey,
+        });
 
-        if (typeof message === 'string') {
-            return Buffer.from(message);
+        if (!contract) {
+            return options;
         }
 
-        return Buffer.from(JSON.stringify(message));
+        await this.contracts.assertValid(contract, message);
+
+        return {
+            ...options,
+            headers: { ...options?.headers, [SCHEMA_ID_HEADER]: this.contracts.getSchemaId(contract) },
+        } as T;
+    }
+
+    /**
+     * Serializes and compresses a payload for publishing.
+     * The returned options carry the `contentType` and `contentEncoding` of the encoded payload
+     * and the `version` as header, without the `compression` and `version` options.
+     *
+     * @private
+     */
+    private async encodeMessage(
+        message: unknown,
+        options: PublishOptions = {},
+    ): Promise<{ content: Buffer; options: Options.Publish }> {
+        const { compression, version, ...publishOptions } = options;
+        const serialized = this.serializers.serialize(message, publishOptions);
+        const { content, contentEncoding } = await compressContent(
+            serialized.content,
+            publishOptions.contentEncoding ?? serialized.contentEncoding,
+            resolveCompressionOptions(compression, this.options.compression),
+        );
+
+        return {
+            content,
+            options: {
+                ...(serialized.contentType && { contentType: serialized.contentType }),
+                ...publishOptions,
+                ...(version !== undefined && {
+                    headers: { ...publishOptions.headers, [MESSAGE_VERSION_HEADER]: version },
+                }),
+                ...(contentEncoding && { contentEncoding }),
+            },
+        };
     }
 
     /**
@@ -260,24 +729,80 @@ export class RabbitMQService implements OnModuleDestroy {
         });
     }
 
+    /**
+     * Asserts the delay queues and the parking queue of a retry policy.
+     * Each delay queue dead-letters expired messages back to the origin queue
+     * through the default exchange.
+     *
+     * @private
+     */
+    private async assertRetryTopology(queue: string, retry: RetryOptions): Promise<void> {
+        for (const delay of getRetryDelays(retry)) {
+            await this.assertQueue(getRetryQueueName(queue, delay), {
+                arguments: {
+                    'x-dead-letter-exchange': '',
+                    'x-dead-letter-routing-key': queue,
+                    'x-message-ttl': delay,
+                },
+            });
+        }
+
+        await this.assertQueue(getParkingQueueName(queue, retry));
+    }
+
     /**
      * Asserts (creates if not exists) a queue.
+     * With `deadLetter`, also asserts its dead-letter exchange and queue and
+     * sets the `x-dead-letter-*` arguments on the queue.
      *
      * @param {string} queue - The queue name
      * @param {Options.AssertQueue} [options] - Queue options (durable defaults to true)
+     * @param {boolean | DeadLetterOptions} [deadLetter] - Dead-letter topology for the queue
      * @returns {Promise<void>}
      *
      * @example
      * ```typescript
      * await rabbitMQ.assertQueue('orders', { durable: true });
      * await rabbitMQ.assertQueue('temp-queue', { exclusive: true, autoDelete: true });
+     *
+     * // orders.dlx -> orders.dlq
+     * await rabbitMQ.assertQueue('orders', { durable: true }, true);
      * ```
      */
-    async assertQueue(queue: string, options?: Options.AssertQueue): Promise<void> {
+    async assertQueue(
+        queue: string,
+        options?: Options.AssertQueue,
+        deadLetter?: boolean | DeadLetterOptions,
+    ): Promise<void> {
+        const resolvedDeadLetter = resolveDeadLetterOptions(queue, deadLetter);
+        let queueOptions = options;
+
+        if (resolvedDeadLetter) {
+            await this.assertDeadLetterTopology(resolvedDeadLetter);
+            queueOptions = {
+                ...options,
+                arguments: { ...options?.arguments, ...getDeadLetterQueueArguments(resolvedDeadLetter) },
+            };
+        }
+
         await this.channel.assertQueue(queue, {
             durable: true,
-            ...options,
+            ...queueOptions,
+        });
+    }
+
+    /**
+     * Asserts a dead-letter exchange and its queue, bound with the dead-letter routing key.
+     *
+     * @private
+     */
+    private async assertDeadLetterTopology(deadLetter: ResolvedDeadLetterOptions): Promise<void> {
+        await this.assertExchange(deadLetter.exchange, 'direct');
+        await this.channel.assertQueue(deadLetter.queue, {
+            durable: true,
+            ...deadLetter.queueOptions,
         });
+        await this.channel.bindQueue(deadLetter.queue, deadLetter.exchange, deadLetter.routingKey);
     }
 
     /**
@@ -306,18 +831,22 @@ export class RabbitMQService implements OnModuleDestroy {
      */
     async close(): Promise<void> {
         this.info(`Closing RabbitMQ connection: ${this.connectionName}`);
+        await this.outboxRelay?.stop();
         await this.channel?.close();
+        await (await this.rpcChannel?.catch(() => undefined))?.close();
         await this.connectionManager?.close();
     }
 
     /**
      * Starts consuming messages from a queue.
-     * Messages are automatically acknowledged on successful processing,
-     * or rejected (not requeued) on error.
+     * Messages are automatically acknowledged on successful processing, unless the handler
+     * returns another {@link MessageDisposition}, or rejected (not requeued) on error
+     * unless `options.errorHandler` decides otherwise, or retried when `options.retry` is set.
+     * The handler receives the deserialized payload and the raw AMQP message.
      *
      * @param {string} queue - The queue name to consume from
-     * @param {(msg: unknown) => Promise<void> | void} onMessage - The message handler callback
-     * @param {Options.Consume} [options] - Consume options (noAck defaults to false)
+     * @param {(msg: unknown, rawMessage: ConsumeMessage) => Promise<MessageDisposition | void> | MessageDisposition | void} onMessage - The message handler callback
+     * @param {ConsumeOptions} [options] - Consume options (noAck defaults to false)
      * @returns {Promise<void>}
      *
      * @example
@@ -329,34 +858,141 @@ export class RabbitMQService implements OnModuleDestroy {
      *
      * // With options
      * await rabbitMQ.consume('priority-orders', handler, { priority: 10 });
+     *
+     * // Requeue on failure
+     * await rabbitMQ.consume('jobs', handler, { errorHandler: () => MessageDisposition.REQUEUE });
+     *
+     * // Retry up to 5 times with exponential backoff, then park in 'jobs.parking'
+     * await rabbitMQ.consume('jobs', handler, { retry: { maxAttempts: 5, initialDelay: 1000 } });
      * ```
      */
     async consume(
         queue: string,
-        onMessage: (msg: unknown) => Promise<void> | void,
-        options?: Options.Consume,
+        onMessage: (
+            msg: unknown,
+            rawMessage: ConsumeMessage,
+        ) => Promise<MessageDisposition | void> | MessageDisposition | void,
+        options: ConsumeOptions = {},
     ): Promise<void> {
+        const { contract, deadLetter, errorHandler, handlerName, idempotency, retry, serializer, ...consumeOptions } =
+            options;
+        const resolvedSerializer = serializer ? this.serializers.resolve(serializer) : undefined;
+        const resolvedDeadLetter = resolveDeadLetterOptions(queue, deadLetter);
+        const resolvedIdempotency = idempotency === true ? {} : idempotency || undefined;
+        const idempotencyStore = resolvedIdempotency && this.getIdempotencyStore(resolvedIdempotency);
+        const idempotencyTtl = resolvedIdempotency?.ttl ?? DEFAULT_IDEMPOTENCY_TTL;
+        const idempotencyLease = resolvedIdempotency?.leaseDuration ?? DEFAULT_IDEMPOTENCY_LEASE_DURATION;
+
+        // Only processed messages keep their key, so requeued, retried and dead-lettered ones run again
+        const releaseIdempotencyKey = (key: string): Promise<void> =>
+            idempotencyStore!
+                .release(key)
+                .catch((releaseError: unknown) =>
+                    this.logger.error(`Failed to release idempotency key ${key}`, getErrorStack(releaseError)),
+                );
+        const markIdempotencyKeyProcessed = (key: string): Promise<void> =>
+            idempotencyStore!
+                .markProcessed(key, idempotencyTtl)
+                .catch((markError: unknown) =>
+                    this.logger.error(`Failed to mark idempotency key ${key} processed`, getErrorStack(markError)),
+                );
+
+        if (resolvedDeadLetter) {
+            await this.assertDeadLetterTopology(resolvedDeadLetter);
+        }
+
+        if (retry) {
+            await this.assertRetryTopology(queue, retry);
+        }
+
         await this.channel.consume(
             queue,
 
-            async (message: Message | null) => {
+            async (message: ConsumeMessage | null) => {
                 if (!message) {
                     return;
                 }
 
+                const idempotencyKey = resolvedIdempotency && getIdempotencyKey(queue, message, resolvedIdempotency);
+
                 try {
-                    const content = this.deserializeMessage(message.content);
+                    const claim = idempotencyKey && (await idempotencyStore!.claim(idempotencyKey, idempotencyLease));
 
-                    await onMessage(content);
-                    this.channel.ack(message);
+                    if (claim === IdempotencyClaim.PROCESSED) {
+                        this.debug(`Skipping duplicate message ${idempotencyKey}`);
+                        this.channel.ack(message);
+
+                        return;
+                    }
+
+                    // The first delivery may still fail, so the duplicate must not be dropped yet
+                    if (claim === IdempotencyClaim.PROCESSING) {
+                        this.debug(`Requeuing duplicate message ${idempotencyKey} still being processed`);
+                        settleMessage(this.channel, message, MessageDisposition.REQUEUE);
+
+                        return;
+                    }
+
+                    const content = this.decodeMessage(message, resolvedSerializer);
+
+                    await this.validateContract(queue, message, () => content, contract);
+
+                    const disposition = (await onMessage(content, message)) ?? MessageDisposition.ACK;
+
+                    if (idempotencyKey && disposition === MessageDisposition.ACK) {
+                        await markIdempotencyKeyProcessed(idempotencyKey);
+                    } else if (idempotencyKey) {
+                        await releaseIdempotencyKey(idempotencyKey);
+                    }
+
+                    settleMessage(this.channel, message, disposition);
                 } catch (error: unknown) {
+                    if (idempotencyKey) {
+                        await releaseIdempotencyKey(idempotencyKey);
+                    }
+
+                    // Already routed to the invalid-message queue
+                    if (error instanceof ContractViolationError && error.invalidMessageQueue) {
+                        this.channel.ack(message);
+
+                        return;
+                    }
+
                     this.logger.error(`Error processing message from ${queue}`, getErrorStack(error));
-                    this.channel.nack(message, false, false); // Don't requeue
+
+                    const disposition = await this.resolveErrorDisposition(errorHandler, error, message);
+
+                    if (!disposition && retry && !isValidationError(error) && !isGuardRejection(error)) {
+                        try {
+                            await this.retryMessage(queue, message, retry, error);
+                            this.channel.ack(message);
+
+                            return;
+                        } catch (retryError: unknown) {
+                            this.logger.error(`Failed to retry message from ${queue}`, getErrorStack(retryError));
+                        }
+                    }
+
+                    if ((disposition ?? MessageDisposition.NACK) === MessageDisposition.NACK && resolvedDeadLetter) {
+                        try {
+                            await this.deadLetterMessage(message, resolvedDeadLetter, error, handlerName);
+                            this.channel.ack(message);
+
+                            return;
+                        } catch (deadLetterError: unknown) {
+                            this.logger.error(
+                                `Failed to dead-letter message from ${queue}`,
+                                getErrorStack(deadLetterError),
+                            );
+                        }
+                    }
+
+                    settleMessage(this.channel, message, disposition ?? MessageDisposition.NACK);
                 }
             },
             {
                 noAck: false,
-                ...options,
+                ...consumeOptions,
             },
         );
 
@@ -364,30 +1000,142 @@ export class RabbitMQService implements OnModuleDestroy {
     }
 
     /**
-     * Initializes the RabbitMQ channel.
-     * Must be called before using any other methods.
+     * Validates a consumed message against its contract: the given one, else the one registered
+     * for the queue, else for the message's exchange and routing key.
+     * Invalid messages are copied to the invalid-message queue of the contract or module, if any,
+     * with the reasons in the `x-contract-errors` header. Used by `consume()` and discovered RPC handlers.
      *
+     * @param {string} queue - The queue the message was consumed from
+     * @param {ConsumeMessage} message - The consumed message
+     * @param {() => unknown} getPayload - Returns the decoded payload; only called when there is a contract
+     * @param {MessageContractDefinition} [contract] - The contract of the consumer, if it declares one
      * @returns {Promise<void>}
-     */
-    async initialize(): Promise<void> {
-        this.info(`Initializing RabbitMQ channel for connection: ${this.connectionName}`);
-
-        this.channel = this.connectionManager.createChannel({
-            json: false,
-            setup: async (channel: ConfirmChannel) => {
-                await channel.prefetch(1);
-                this.info(`Channel setup complete for: ${this.connectionName}`);
-            },
-        });
-
-        await this.channel.waitForConnect();
-        this.info(`RabbitMQ channel connected for: ${this.connectionName}`);
-    }
-
-    /**
-     * Checks if the connection is currently connected.
-     *
-     * @returns {boolean} True if connected, false otherwise
+     * @throws {ContractViolationError} If the payload does not match; `invalidMessageQueue` is set when the
+     * message was routed there and only needs acknowledging
+     *
+     * @example
+     * ```typescript
+     * await rabbitMQ.validateContract('orders', message, () => payload);
+     * ```
+     */
+    async validateContract(
+        queue: string,
+        message: ConsumeMessage,
+        getPayload: () => unknown,
+        contract?: MessageContractDefinition,
+    ): Promise<void> {
+        const resolvedContract =
+            contract ??
+            this.contracts.find({ exchange: message.fields.exchange, queue, routingKey: message.fields.routingKey });
+
+        if (!resolvedContract) {
+            return;
+        }
+
+        try {
+            await this.contracts.assertValid(resolvedContract, getPayload());
+        } catch (error: unknown) {
+            const invalidMessageQueue =
+                resolvedContract.invalidMessageQueue ?? this.options.contracts?.invalidMessageQueue;
+
+            if (!(error instanceof ContractViolationError) || !invalidMessageQueue) {
+                throw error;
+            }
+
+            await this.routeInvalidMessage(queue, message, invalidMessageQueue, error);
+
+            throw new ContractViolationError(error.schemaId, error.errors, invalidMessageQueue);
+        }
+    }
+
+    /**
+     * Returns the store deduplicating a consumer: its own, the module default,
+     * or an in-memory store shared by the connection.
+     *
+     * @private
+     */
+    private getIdempotencyStore(idempotency: IdempotencyOptions): IdempotencyStore {
+        const store = idempotency.store ?? this.options.idempotencyStore;
+
+        if (store) {
+            return store;
+        }
+
+        this.defaultIdempotencyStore ??= new InMemoryIdempotencyStore();
+
+        return this.defaultIdempotencyStore;
+    }
+
+    /**
+     * Records a message returned by the broker for the mandatory publish awaiting it
+     * and notifies the module-level `onReturn` hook. The return is matched to the oldest
+     * pending publish of the same content to the same exchange and routing key; identical
+     * messages are routed alike, so which of them is picked does not matter.
+     *
+     * @private
+     */
+    private handleReturn(message: Message): void {
+        const { exchange, routingKey } = message.fields;
+
+        for (const pending of this.pendingReturns) {
+            if (
+                !pending.returned &&
+                pending.exchange === exchange &&
+                pending.routingKey === routingKey &&
+                pending.content.equals(message.content)
+            ) {
+                pending.returned = message;
+                break;
+            }
+        }
+
+        this.warn(`Message to ${message.fields.exchange}/${message.fields.routingKey} was returned as unroutable`);
+
+        try {
+            this.options.onReturn?.(message);
+        } catch (error: unknown) {
+            this.logger.error('onReturn hook failed', getErrorStack(error));
+        }
+    }
+
+    /**
+     * Initializes the RabbitMQ channel, and starts the outbox relay when the `outbox` option is set.
+     * Must be called before using any other methods.
+     *
+     * @returns {Promise<void>}
+     */
+    async initialize(): Promise<void> {
+        this.info(`Initializing RabbitMQ channel for connection: ${this.connectionName}`);
+
+        this.channel = this.connectionManager.createChannel({
+            json: false,
+            setup: async (channel: ConfirmChannel) => {
+                channel.on('return', (message: Message) => this.handleReturn(message));
+                await channel.prefetch(1);
+                this.info(`Channel setup complete for: ${this.connectionName}`);
+            },
+        });
+
+        await this.channel.waitForConnect();
+        this.info(`RabbitMQ channel connected for: ${this.connectionName}`);
+
+        const relay = this.options.outbox?.relay ?? true;
+
+        if (this.options.outbox && relay !== false) {
+            this.outboxRelay = new OutboxRelay(
+                this,
+                this.options.outbox.store,
+                relay === true ? {} : relay,
+                this.logLevel,
+            );
+            this.outboxRelay.start();
+        }
+    }
+
+    /**
+     * Checks if the connection is currently connected.
+     *
+     * @returns {boolean} True if connected, false otherwise
      *
      * @example
      * ```typescript
@@ -409,7 +1157,9 @@ export class RabbitMQService implements OnModuleDestroy {
      * @param {unknown} message - The request message payload
      * @param {RpcOptions} [options={}] - RPC options including timeout and publish options
      * @returns {Promise<T>} The response from the RPC handler
-     * @throws {Error} If the request times out or sending fails
+     * @throws {RpcRemoteError} If the handler failed, unless the error class is registered in `rpcExceptions`
+     * @throws {AbortError} If `options.signal` is aborted before the reply arrives
+     * @throws {Error} If the request times out, its inherited deadline has passed or sending fails
      *
      * @example
      * ```typescript
@@ -432,60 +1182,897 @@ export class RabbitMQService implements OnModuleDestroy {
      * ```
      */
     async request<T = unknown>(queue: string, message: unknown, options: RpcOptions = {}): Promise<T> {
-        const { publishOptions = {}, timeout = 30000 } = options;
+        const { publishCancellation = false, publishOptions = {}, signal, timeout = 30000 } = options;
         const correlationId = randomUUID();
 
-        const replyQueue = await this.getReplyQueue();
+        if (signal?.aborted) {
+            throw new AbortError('RPC request aborted', signal.reason);
+        }
+
+        // Nested requests made by an RPC handler never outlive its caller
+        const now = Date.now();
+        const deadline = Math.min(now + timeout, getCurrentRpcDeadline() ?? Infinity);
+        const budget = deadline - now;
+
+        if (budget <= 0) {
+            throw new Error('RPC deadline exceeded');
+        }
+
+        const { rpcReconnectPolicy = RpcReconnectPolicy.FAIL } = this.options;
 
         return new Promise<T>((resolve, reject) => {
+            const settle = (): void => {
+                clearTimeout(timeoutId);
+                signal?.removeEventListener('abort', onAbort);
+                this.pendingRpcRequests.delete(correlationId);
+            };
+
+            const onAbort = (): void => {
+                settle();
+                this.debug(`RPC request aborted (correlationId=${correlationId})`);
+                reject(new AbortError('RPC request aborted', signal?.reason));
+
+                if (publishCancellation) {
+                    void this.publishRpcCancellation(correlationId);
+                }
+            };
+
             const timeoutId = setTimeout(() => {
-                const callbacks = this.rpcQueues.get(replyQueue);
+                settle();
+                this.logger.error(`RPC timeout after ${budget}ms (correlationId=${correlationId})`);
+                reject(new Error(`RPC timeout after ${budget}ms`));
+            }, budget);
+
+            const send = (): void => {
+                this.sendRpcRequest('', queue, message, {
+                    ...publishOptions,
+                    expiration: publishOptions.expiration ?? Math.max(deadline - Date.now(), 1),
+                    headers: { ...publishOptions.headers, [RPC_DEADLINE_HEADER]: deadline },
+                    correlationId,
+                })
+                    .then(() => (pending.sent = true))
+                    .catch((error: unknown) => {
+                        settle();
+                        this.logger.error(
+                            `[RPC] Send failed: correlationId=${correlationId}, queue=${queue}, error=${String((error as Error)?.message ?? error)}`,
+                            (error as Error)?.stack,
+                        );
+                        reject(error instanceof Error ? error : new Error(String(error)));
+                    });
+            };
+
+            const pending: PendingRpcRequest = {
+                onConnectionLost: () => {
+                    if (rpcReconnectPolicy === RpcReconnectPolicy.RETRY) {
+                        this.debug(`Re-sending RPC request (correlationId=${correlationId})`);
+                        send();
+
+                        return;
+                    }
 
-                this.logger.error(`RPC timeout after ${timeout}ms (correlationId=${correlationId})`);
-                callbacks?.delete(correlationId);
-                reject(new Error(`RPC timeout after ${timeout}ms`));
-            }, timeout);
+                    settle();
+                    reject(new Error('RPC channel reconnected before the reply arrived'));
+                },
+                onDecodeError: (error: Error) => {
+                    settle();
+                    reject(error);
+                },
+                onReply: (response: unknown, reply: Message) => {
+                    settle();
 
-            // Store callback
-            if (!this.rpcQueues.has(replyQueue)) {
-                this.rpcQueues.set(replyQueue, new Map());
+                    if (reply.properties.headers?.[RPC_ERROR_HEADER]) {
+                        reject(this.createRpcError(response as RpcErrorReply));
+
+                        return;
+                    }
+
+                    resolve(response as T);
+                },
+                sent: false,
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.pendingRpcRequests.set(correlationId, pending);
+            send();
+        });
+    }
+
+    /**
+     * Performs a streaming RPC request. The handler streams its result by returning an
+     * async iterable (e.g. an async generator) or an `Observable`; each value arrives as a
+     * separate reply, and the stream ends when the handler completes. A handler returning
+     * a plain value yields it once. The request is sent when iteration starts; wrap the
+     * stream with RxJS `from()` to consume it as an `Observable`.
+     *
+     * @template T - The type of the streamed values
+     * @param {string} queue - The queue name to send the request to
+     * @param {unknown} message - The request message payload
+     * @param {RpcStreamOptions} [options={}] - Timeout between replies, buffer size and publish options
+     * @returns {AsyncGenerator<T, void, undefined>} The streamed values
+     * @throws {RpcRemoteError} If the handler fails, including after it streamed some values
+     * @throws {AbortError} If `options.signal` is aborted before the stream ends
+     * @throws {Error} If a reply does not arrive in time, the buffer overflows or sending fails
+     *
+     * @example
+     * ```typescript
+     * // Handler
+     * @RabbitRPC({ queue: 'reports.rows' })
+     * async *rows(@RabbitPayload() query: ReportQuery) {
+     *   for await (const row of this.reports.cursor(query)) {
+     *     yield row;
+     *   }
+     * }
+     *
+     * // Caller
+     * for await (const row of rabbitMQ.requestStream<Row>('reports.rows', { month: '2024-01' })) {
+     *   await writer.write(row);
+     * }
+     * ```
+     */
+    async *requestStream<T = unknown>(
+        queue: string,
+        message: unknown,
+        options: RpcStreamOptions = {},
+    ): AsyncGenerator<T, void, undefined> {
+        const {
+            maxBufferedReplies = DEFAULT_RPC_STREAM_MAX_BUFFERED_REPLIES,
+            publishCancellation = false,
+            publishOptions = {},
+            signal,
+            timeout = 30000,
+        } = options;
+        const correlationId = randomUUID();
+        const deadline = getCurrentRpcDeadline();
+
+        if (signal?.aborted) {
+            throw new AbortError('RPC stream aborted', signal.reason);
+        }
+
+        if (deadline !== undefined && deadline <= Date.now()) {
+            throw new Error('RPC deadline exceeded');
+        }
+
+        const frames: Array<{ done?: boolean; error?: Error; value?: T }> = [];
+        let creditQueue: string | undefined;
+        let wake: (() => void) | undefined;
+        let ended = false;
+
+        const push = (frame: { done?: boolean; error?: Error; value?: T }): void => {
+            frames.push(frame);
+            wake?.();
+        };
+
+        const onAbort = (): void => push({ error: new AbortError('RPC stream aborted', signal?.reason) });
+
+        const pending: PendingRpcRequest = {
+            // Re-sending would repeat the replies already received
+            onConnectionLost: () => push({ error: new Error('RPC channel reconnected before the stream ended') }),
+            onDecodeError: (error: Error) => {
+                this.pendingRpcRequests.delete(correlationId);
+                push({ error });
+            },
+            onReply: (response: unknown, reply: Message) => {
+                const headers = reply.properties.headers ?? {};
+
+                creditQueue ??= headers[RPC_STREAM_CREDIT_QUEUE_HEADER];
+
+                if (headers[RPC_ERROR_HEADER]) {
+                    push({ done: true, error: this.createRpcError(response as RpcErrorReply) });
+                } else if (headers[RPC_STREAM_FRAME_HEADER] === RpcStreamFrame.END) {
+                    push({ done: true });
+                } else if (headers[RPC_STREAM_FRAME_HEADER] !== RpcStreamFrame.CHUNK) {
+                    // The handler replied with a single value
+                    push({ value: response as T });
+                    push({ done: true });
+                } else if (frames.length >= maxBufferedReplies) {
+                    // Only handlers without flow control send more replies than they were granted
+                    this.pendingRpcRequests.delete(correlationId);
+                    frames.splice(0, frames.length);
+                    push({ error: new Error(`RPC stream buffer exceeded ${maxBufferedReplies} replies`) });
+                } else {
+                    push({ value: response as T });
+                }
+            },
+            sent: false,
+        };
+
+        this.pendingRpcRequests.set(correlationId, pending);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
+            await this.sendRpcRequest('', queue, message, {
+                ...publishOptions,
+                expiration: publishOptions.expiration ?? timeout,
+                headers: {
+                    ...publishOptions.headers,
+                    [RPC_STREAM_HEADER]: maxBufferedReplies,
+                    ...(deadline !== undefined && { [RPC_DEADLINE_HEADER]: deadline }),
+                },
+                correlationId,
+            });
+            pending.sent = true;
+
+            while (true) {
+                if (frames.length === 0) {
+                    await new Promise<void>((resolve, reject) => {
+                        const timeoutId = setTimeout(() => {
+                            wake = undefined;
+                            reject(new Error(`RPC stream timeout after ${timeout}ms`));
+                        }, timeout);
+
+                        wake = () => {
+                            clearTimeout(timeoutId);
+                            wake = undefined;
+                            resolve();
+                        };
+                    });
+                }
+
+                const frame = frames.shift()!;
+
+                ended = Boolean(frame.done);
+
+                if (frame.error) {
+                    throw frame.error;
+                }
+
+                if (frame.done) {
+                    return;
+                }
+
+                yield frame.value as T;
+
+                // The consumer is ready for the next value
+                if (creditQueue) {
+                    void this.grantRpcStreamCredit(creditQueue, correlationId, 1);
+                }
+            }
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+            this.pendingRpcRequests.delete(correlationId);
+
+            if (!ended) {
+                this.debug(`RPC stream closed before it ended (correlationId=${correlationId})`);
+
+                if (creditQueue) {
+                    void this.grantRpcStreamCredit(creditQueue, correlationId, 0);
+                }
+
+                if (publishCancellation) {
+                    void this.publishRpcCancellation(correlationId);
+                }
             }
+        }
+    }
 
-            const callbackMap = this.rpcQueues.get(replyQueue)!;
+    /**
+     * Publishes one request to an exchange and collects the replies of every handler it
+     * reaches within the window (scatter-gather). Replies arrive on the shared reply queue;
+     * failed responders are included with their `error` instead of failing the whole call.
+     *
+     * @template T - The expected reply type
+     * @param {string} exchange - The exchange the responders' queues are bound to
+     * @param {string} routingKey - The routing key to publish with
+     * @param {unknown} message - The request message payload
+     * @param {ScatterOptions} [options={}] - The collection window and reply limits
+     * @returns {Promise<ScatterResponse<T>[]>} The replies in arrival order, with responder metadata
+     * @throws {InsufficientResponsesError} If fewer than `minResponses` replies arrived
+     * @throws {Error} If the inherited deadline has passed or publishing fails
+     *
+     * @example
+     * ```typescript
+     * const quotes = await rabbitMQ.scatter<Quote>('pricing', 'quote.request', order, {
+     *   timeout: 2000,
+     *   minResponses: 1,
+     * });
+     *
+     * const best = quotes
+     *   .filter((quote) => !quote.error)
+     *   .sort((a, b) => a.value!.price - b.value!.price)[0];
+     * console.log(`Best quote from ${best.responder}`);
+     * ```
+     */
+    async scatter<T = unknown>(
+        exchange: string,
+        routingKey: string,
+        message: unknown,
+        options: ScatterOptions = {},
+    ): Promise<ScatterResponse<T>[]> {
+        const {
+            maxResponses = Infinity,
+            minResponses = 0,
+            publishOptions = {},
+            timeout = DEFAULT_SCATTER_TIMEOUT,
+        } = options;
+        const correlationId = randomUUID();
+        const now = Date.now();
+        const deadline = Math.min(now + timeout, getCurrentRpcDeadline() ?? Infinity);
+        const window = deadline - now;
 
-            callbackMap.set(correlationId, (response: unknown) => {
+        if (window <= 0) {
+            throw new Error('RPC deadline exceeded');
+        }
+
+        const responses: ScatterResponse<T>[] = [];
+
+        return new Promise<ScatterResponse<T>[]>((resolve, reject) => {
+            const finish = (): void => {
                 clearTimeout(timeoutId);
-                resolve(response as T);
-            });
+                this.pendingRpcRequests.delete(correlationId);
+
+                if (responses.length < minResponses) {
+                    reject(new InsufficientResponsesError(responses, minResponses));
+
+                    return;
+                }
+
+                resolve(responses);
+            };
+
+            const timeoutId = setTimeout(finish, window);
+
+            const collect = (reply: Message, outcome: Pick<ScatterResponse<T>, 'error' | 'value'>): void => {
+                responses.push({
+                    elapsed: Date.now() - now,
+                    responder: reply.properties.headers?.[RPC_RESPONDER_HEADER] as string | undefined,
+                    ...outcome,
+                });
 
-            // Send request
-            this.sendToQueue(queue, message, {
+                if (responses.length >= maxResponses) {
+                    finish();
+                }
+            };
+
+            const pending: PendingRpcRequest = {
+                // Later replies went to the lost channel; settle with those collected so far
+                onConnectionLost: finish,
+                // An undecodable reply counts as a failed responder
+                onDecodeError: (error: Error, reply: Message) => collect(reply, { error }),
+                onReply: (response: unknown, reply: Message) =>
+                    collect(
+                        reply,
+                        reply.properties.headers?.[RPC_ERROR_HEADER]
+                            ? { error: this.createRpcError(response as RpcErrorReply) }
+                            : { value: response as T },
+                    ),
+                sent: false,
+            };
+
+            this.pendingRpcRequests.set(correlationId, pending);
+            this.sendRpcRequest(exchange, routingKey, message, {
                 ...publishOptions,
-                replyTo: replyQueue,
+                expiration: publishOptions.expiration ?? window,
+                headers: { ...publishOptions.headers, [RPC_DEADLINE_HEADER]: deadline },
                 correlationId,
             })
-                .then(() => {
-                    // Request sent successfully
-                })
+                .then(() => (pending.sent = true))
                 .catch((error: unknown) => {
                     clearTimeout(timeoutId);
-                    callbackMap.delete(correlationId);
-                    this.logger.error(
-                        `[RPC] Send failed: correlationId=${correlationId}, queue=${queue}, error=${String((error as Error)?.message ?? error)}`,
-                        (error as Error)?.stack,
-                    );
+                    this.pendingRpcRequests.delete(correlationId);
                     reject(error instanceof Error ? error : new Error(String(error)));
                 });
         });
     }
 
+    /**
+     * Starts listening for RPC cancellations published by callers, aborting the signal
+     * of the matching request handled on this connection. The listener is re-created
+     * on every reconnect. Called by the module when the `rpcCancellation` option is set.
+     *
+     * @returns {Promise<void>}
+     */
+    async listenForRpcCancellations(): Promise<void> {
+        this.cancellationListener ??= this.assertRpcCancellationExchange()
+            .then(() =>
+                this.addChannelSetup(async (channel: ConfirmChannel) => {
+                    const { queue } = await channel.assertQueue('', { autoDelete: true, exclusive: true });
+
+                    await channel.bindQueue(queue, RPC_CANCELLATION_EXCHANGE, '');
+                    await channel.consume(
+                        queue,
+                        (message: ConsumeMessage | null) => {
+                            const correlationId = message?.properties.correlationId;
+
+                            if (correlationId && this.rpcRequestControllers.has(correlationId)) {
+                                this.debug(`RPC request cancelled by the caller (correlationId=${correlationId})`);
+                                this.rpcRequestControllers
+                                    .get(correlationId)!
+                                    .abort(new AbortError('RPC request cancelled by the caller'));
+                            }
+                        },
+                        { noAck: true },
+                    );
+                }),
+            )
+            .catch((error: unknown) => {
+                this.cancellationListener = undefined;
+                throw error;
+            });
+
+        return this.cancellationListener;
+    }
+
+    /**
+     * Adds a channel setup, re-run on every reconnect. A setup that fails is removed
+     * again, so that it is not re-run on reconnect next to the one added by a retry.
+     *
+     * @private
+     */
+    private async addChannelSetup(setup: (channel: ConfirmChannel) => Promise<void>): Promise<void> {
+        try {
+            await this.channel.addSetup(setup);
+        } catch (error: unknown) {
+            await this.channel.removeSetup(setup);
+            throw error;
+        }
+    }
+
+    /**
+     * Asserts the RPC cancellation exchange once, and again on every reconnect.
+     *
+     * @private
+     */
+    private assertRpcCancellationExchange(): Promise<void> {
+        this.cancellationExchange ??= this.addChannelSetup(async (channel: ConfirmChannel) => {
+            await channel.assertExchange(RPC_CANCELLATION_EXCHANGE, 'fanout', { durable: true });
+        }).catch((error: unknown) => {
+            this.cancellationExchange = undefined;
+            throw error;
+        });
+
+        return this.cancellationExchange;
+    }
+
+    /**
+     * Publishes the cancellation of an RPC request to the instances handling RPC requests.
+     *
+     * @private
+     */
+    private async publishRpcCancellation(correlationId: string): Promise<void> {
+        try {
+            await this.assertRpcCancellationExchange();
+            await this.channel.publish(RPC_CANCELLATION_EXCHANGE, '', Buffer.alloc(0), {
+                correlationId,
+                persistent: false,
+            });
+        } catch (error: unknown) {
+            this.logger.error(
+                `Failed to publish RPC cancellation (correlationId=${correlationId})`,
+                getErrorStack(error),
+            );
+        }
+    }
+
+    /**
+     * Grants the handler of a streamed RPC request credit for more replies;
+     * a credit of 0 tells it that the stream is no longer consumed.
+     *
+     * @private
+     */
+    private async grantRpcStreamCredit(queue: string, correlationId: string, credit: number): Promise<void> {
+        try {
+            await this.channel.sendToQueue(queue, Buffer.alloc(0), {
+                correlationId,
+                headers: { [RPC_STREAM_CREDIT_HEADER]: credit },
+                persistent: false,
+            });
+        } catch (error: unknown) {
+            this.logger.error(
+                `Failed to grant RPC stream credit (correlationId=${correlationId})`,
+                getErrorStack(error),
+            );
+        }
+    }
+
+    /**
+     * Opens the flow control of a reply streamed to a `requestStream()` caller: a queue the
+     * caller grants credit on, one per reply it consumed, starting with `credit` replies.
+     * `close()` must be called once the stream has been sent.
+     * @internal
+     *
+     * @param {number} credit - The replies the handler may send before the caller grants more
+     * @returns {Promise<RpcStreamCredit>} The credit queue and the means to wait for credit
+     */
+    async openRpcStreamCredit(credit: number): Promise<RpcStreamCredit> {
+        let closed = false;
+        let wake: (() => void) | undefined;
+        const { queue } = await this.channel.assertQueue('', { autoDelete: true, exclusive: true });
+        const { consumerTag } = await this.channel.consume(
+            queue,
+            (message: ConsumeMessage | null) => {
+                const granted = Number(message?.properties.headers?.[RPC_STREAM_CREDIT_HEADER]);
+
+                if (granted > 0) {
+                    credit += granted;
+                } else {
+                    closed = true;
+                }
+
+                wake?.();
+            },
+            { noAck: true },
+        );
+
+        const waitForCredit = async (signal: AbortSignal, deadline?: number): Promise<boolean> => {
+            while (credit === 0 && !closed && !signal.aborted) {
+                if (deadline !== undefined && deadline <= Date.now()) {
+                    return false;
+                }
+
+                await new Promise<void>((resolve) => {
+                    let timeoutId: NodeJS.Timeout | undefined;
+                    const done = (): void => {
+                        clearTimeout(timeoutId);
+                        signal.removeEventListener('abort', done);
+                        wake = undefined;
+                        resolve();
+                    };
+
+                    if (deadline !== undefined) {
+                        timeoutId = setTimeout(done, deadline - Date.now());
+                    }
+
+                    wake = done;
+                    signal.addEventListener('abort', done, { once: true });
+                });
+            }
+
+            if (closed || signal.aborted) {
+                return false;
+            }
+
+            credit -= 1;
+
+            return true;
+        };
+
+        const close = async (): Promise<void> => {
+            closed = true;
+            wake?.();
+
+            try {
+                // The exclusive queue is deleted with its only consumer
+                await this.channel.cancel(consumerTag);
+            } catch (error: unknown) {
+                this.logger.error(`Failed to close RPC stream credit queue ${queue}`, getErrorStack(error));
+            }
+        };
+
+        return { close, queue, waitForCredit };
+    }
+
+    /**
+     * Creates the abort signal of an RPC request being handled, aborted when its caller
+     * cancels it. `release()` must be called once the request has been handled.
+     * @internal
+     *
+     * @param {string | undefined} correlationId - The correlation id of the request
+     * @returns {{ release: () => void; signal: AbortSignal }} The signal and its release function
+     */
+    trackRpcRequest(correlationId: string | undefined): { release: () => void; signal: AbortSignal } {
+        const controller = new AbortController();
+
+        if (!correlationId) {
+            return { release: () => undefined, signal: controller.signal };
+        }
+
+        this.rpcRequestControllers.set(correlationId, controller);
+
+        return {
+            release: () => this.rpcRequestControllers.delete(correlationId),
+            signal: controller.signal,
+        };
+    }
+
+    /**
+     * Turns an RPC error reply into the error `request()` rejects with:
+     * an instance of the registered exception class of the same name, or an `RpcRemoteError`.
+     *
+     * @private
+     */
+    private createRpcError(reply: RpcErrorReply): Error {
+        const remoteError = RpcRemoteError.fromReply(reply);
+        const ExceptionClass = this.options.rpcExceptions?.find(
+            (exceptionClass) => exceptionClass.name === remoteError.remoteName,
+        );
+
+        if (!ExceptionClass) {
+            return remoteError;
+        }
+
+        const error = new ExceptionClass(remoteError.message);
+
+        if (remoteError.code !== undefined) {
+            Object.assign(error, { code: remoteError.code });
+        }
+
+        if (remoteError.details !== undefined) {
+            Object.assign(error, { details: remoteError.details });
+        }
+
+        return error;
+    }
+
+    /**
+     * Replays messages from a dead-letter queue to their original destination.
+     * Messages are taken one by one with `get`; the destination comes from the
+     * `x-original-*` headers or the `x-death` header unless a target is given.
+     * Replayed messages are removed from the DLQ, all others are put back once the replay ends.
+     *
+     * @param {string} queue - The dead-letter queue to drain
+     * @param {ReplayDeadLettersOptions} [options] - Limit, filter, transform, target and dry-run options
+     * @returns {Promise<ReplayDeadLettersResult>} A summary of the replay
+     *
+     * @example
+     * ```typescript
+     * // See what would be replayed
+     * const preview = await rabbitMQ.replayDeadLetters('orders.dlq', { dryRun: true });
+     *
+     * // Replay the first 50 messages to a dedicated queue
+     * const report = await rabbitMQ.replayDeadLetters('orders.dlq', {
+     *   limit: 50,
+     *   targetExchange: '',
+     *   targetRoutingKey: 'orders.replay',
+     * });
+     * console.log(`${report.replayed} replayed, ${report.failed} failed`);
+     * ```
+     */
+    async replayDeadLetters(queue: string, options: ReplayDeadLettersOptions = {}): Promise<ReplayDeadLettersResult> {
+        const dryRun = options.dryRun ?? false;
+        const limit = options.limit ?? Infinity;
+        const result: ReplayDeadLettersResult = {
+            dryRun,
+            entries: [],
+            failed: 0,
+            inspected: 0,
+            replayed: 0,
+            skipped: 0,
+        };
+        // Held unacknowledged until the end, so `get` does not return them again
+        const kept: GetMessage[] = [];
+
+        try {
+            while (result.inspected < limit) {
+                const message = await this.channel.get(queue, { noAck: false });
+
+                if (!message) {
+                    break;
+                }
+
+                const entry = await this.replayDeadLetter(message, options);
+
+                result.inspected++;
+                result[entry.status]++;
+                result.entries.push(entry);
+
+                if (entry.status === 'replayed' && !dryRun) {
+                    this.channel.ack(message);
+                } else {
+                    kept.push(message);
+                }
+            }
+        } finally {
+            for (const message of kept) {
+                this.channel.nack(message, false, true);
+            }
+        }
+
+        this.info(
+            `Replayed ${result.replayed} of ${result.inspected} messages from ${queue}${dryRun ? ' (dry run)' : ''}`,
+        );
+
+        return result;
+    }
+
+    /**
+     * Filters, transforms and republishes a single dead-lettered message.
+     *
+     * @private
+     */
+    private async replayDeadLetter(
+        message: GetMessage,
+        options: ReplayDeadLettersOptions,
+    ): Promise<DeadLetterReplayEntry> {
+        const messageId: string | undefined = message.properties.messageId;
+        const origin = getDeadLetterOrigin(message);
+        const exchange = options.targetExchange ?? origin?.exchange;
+        const routingKey = options.targetRoutingKey ?? origin?.routingKey;
+
+        try {
+            const payload = this.serializers.deserialize(message);
+
+            if (options.filter && !(await options.filter(payload, message))) {
+                return { messageId, status: 'skipped' };
+            }
+
+            if (exchange === undefined || routingKey === undefined) {
+                return { error: 'Original destination unknown', messageId, status: 'failed' };
+            }
+
+            if (!options.dryRun) {
+                const replayOptions: Options.Publish = {
+                    ...message.properties,
+                    expiration: undefined,
+                    headers: getReplayHeaders(message),
+                    userId: undefined,
+                };
+                // Transformed payloads are encoded afresh, dropping the original content encoding
+                const { content, options: publishOptions } = options.transform
+                    ? await this.encodeMessage(await options.transform(payload, message), {
+                          ...replayOptions,
+                          contentEncoding: undefined,
+                      })
+                    : { content: message.content, options: replayOptions };
+
+                await this.channel.publish(exchange, routingKey, content, publishOptions);
+            }
+
+            return { exchange, messageId, routingKey, status: 'replayed' };
+        } catch (error: unknown) {
+            return { error: getErrorMessage(error), exchange, messageId, routingKey, status: 'failed' };
+        }
+    }
+
+    /**
+     * Asks a consumer's error handler for the disposition of a failed message.
+     * Falls back to the disposition set on the context. Returns undefined when
+     * there is no handler or it decides nothing, and rejects without requeue if it throws.
+     *
+     * @private
+     */
+    private async resolveErrorDisposition(
+        errorHandler: ConsumeOptions['errorHandler'],
+        error: unknown,
+        message: ConsumeMessage,
+    ): Promise<MessageDisposition | undefined> {
+        if (!errorHandler) {
+            return undefined;
+        }
+
+        const context = new RabbitMQContext(message, this);
+
+        try {
+            return (await errorHandler(error, message, context)) ?? context.getDisposition();
+        } catch (handlerError: unknown) {
+            this.logger.error('Consumer error handler failed', getErrorStack(handlerError));
+
+            return MessageDisposition.NACK;
+        }
+    }
+
+    /**
+     * Republishes a failed message to its dead-letter exchange with failure headers.
+     * Used instead of a plain nack, which cannot add headers.
+     *
+     * @private
+     */
+    private async deadLetterMessage(
+        message: ConsumeMessage,
+        deadLetter: ResolvedDeadLetterOptions,
+        error: unknown,
+        handlerName?: string,
+    ): Promise<void> {
+        await this.channel.publish(deadLetter.exchange, deadLetter.routingKey, message.content, {
+            ...message.properties,
+            expiration: undefined,
+            headers: createDeadLetterHeaders(message, error, handlerName),
+            userId: undefined,
+        });
+        this.debug(`Dead-lettered message to ${deadLetter.exchange}/${deadLetter.routingKey}`);
+    }
+
+    /**
+     * Copies a message that does not match its contract to the invalid-message queue,
+     * keeping its content and properties and recording why it is invalid.
+     *
+     * @private
+     */
+    private async routeInvalidMessage(
+        queue: string,
+        message: ConsumeMessage,
+        invalidMessageQueue: string,
+        error: ContractViolationError,
+    ): Promise<void> {
+        await this.channel.assertQueue(invalidMessageQueue, { durable: true });
+        await this.channel.sendToQueue(invalidMessageQueue, message.content, {
+            ...message.properties,
+            expiration: undefined,
+            headers: {
+                ...message.properties.headers,
+                [CONTRACT_ERRORS_HEADER]: error.errors,
+                [CONTRACT_QUEUE_HEADER]: queue,
+                [ORIGINAL_EXCHANGE_HEADER]: message.fields.exchange,
+                [ORIGINAL_ROUTING_KEY_HEADER]: message.fields.routingKey,
+            },
+            userId: undefined,
+        });
+        this.warn(`Routed message from ${queue} not matching ${error.schemaId} to ${invalidMessageQueue}`);
+    }
+
+    /**
+     * Republishes a failed message to the delay queue of its next attempt,
+     * or to the parking queue once its attempts are exhausted.
+     * The original content and properties are kept; attempt count and error are added as headers.
+     *
+     * @private
+     */
+    private async retryMessage(
+        queue: string,
+        message: ConsumeMessage,
+        retry: RetryOptions,
+        error: unknown,
+    ): Promise<void> {
+        const attempt = getRetryAttempt(message) + 1;
+        const { headers, ...properties } = message.properties;
+        const options: Options.Publish = {
+            ...properties,
+            expiration: undefined,
+            headers: { ...headers, [RETRY_ATTEMPT_HEADER]: attempt, [RETRY_ERROR_HEADER]: getErrorMessage(error) },
+            userId: undefined,
+        };
+
+        if (attempt >= getRetryMaxAttempts(retry)) {
+            const parkingQueue = getParkingQueueName(queue, retry);
+
+            await this.channel.sendToQueue(parkingQueue, message.content, options);
+            this.warn(`Parked message from ${queue} in ${parkingQueue} after ${attempt} attempts`);
+
+            return;
+        }
+
+        const delay = getRetryDelay(retry, attempt);
+
+        await this.channel.sendToQueue(getRetryQueueName(queue, delay), message.content, {
+            ...options,
+            expiration: String(applyRetryJitter(delay, retry.jitter)),
+        });
+        this.debug(`Scheduled retry ${attempt} of message from ${queue} in ${delay}ms`);
+    }
+
+    /**
+     * Sends a message and, if it is mandatory, fails when the broker returns it.
+     * The broker sends `basic.return` before confirming the message, so the return
+     * has been recorded by the time the send resolves.
+     *
+     * @private
+     */
+    private async sendWithReturnTracking(
+        exchange: string,
+        routingKey: string,
+        content: Buffer,
+        options: Options.Publish,
+        send: (options: Options.Publish) => Promise<unknown>,
+    ): Promise<void> {
+        if (!options.mandatory) {
+            await send(options);
+
+            return;
+        }
+
+        const pending: PendingReturn = { content, exchange, routingKey };
+
+        this.pendingReturns.add(pending);
+
+        try {
+            await send(options);
+
+            if (pending.returned) {
+                throw UnroutableMessageError.fromReturnedMessage(pending.returned);
+            }
+        } finally {
+            this.pendingReturns.delete(pending);
+        }
+    }
+
     /**
      * Sends a message directly to a queue (bypassing exchanges).
      *
      * @param {string} queue - The queue name to send to
-     * @param {unknown} message - The message payload (will be JSON serialized)
+     * @param {unknown} message - The message payload, encoded by the serializer its `contentType` picks (JSON by default)
      * @param {Options.Publish} [options] - Send options
-     * @returns {Promise<boolean>} True if the message was sent successfully
+     * @returns {Promise<boolean>} True once the broker confirmed the message
+     * @throws {ContractViolationError} If the payload does not match the contract of the queue
+     * @throws {UnroutableMessageError} If sent with `mandatory: true` and the queue does not exist
      * @throws {Error} If sending fails
      *
      * @example
@@ -503,13 +2090,16 @@ export class RabbitMQService implements OnModuleDestroy {
         this.debug(`Sending message to queue ${queue}`);
 
         try {
-            const content = this.serializeMessage(message);
+            const contractOptions = await this.applyContract('', queue, message, options);
+            const { content, options: encodedOptions } = await this.encodeMessage(message, contractOptions);
             const sendOptions: Options.Publish = {
                 persistent: true,
-                ...options,
+                ...encodedOptions,
             };
 
-            await this.channel.sendToQueue(queue, content, sendOptions);
+            await this.sendWithReturnTracking('', queue, content, sendOptions, (trackedOptions) =>
+                this.channel.sendToQueue(queue, content, trackedOptions),
+            );
 
             this.debug(`Successfully sent message to queue ${queue}`);
 
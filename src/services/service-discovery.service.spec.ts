@@ -7,6 +7,7 @@ import { ServiceDiscoveryService } from './service-discovery.service';
 
 import type { RabbitMQService } from './rabbitmq.service';
 import type { ServiceDiscoveryOptions, ServiceInfo } from '../interfaces/service-discovery.interface';
+import type { ConsumeMessage } from 'amqplib';
 
 describe('ServiceDiscoveryService', () => {
     let service: ServiceDiscoveryService;
@@ -293,11 +294,14 @@ describe('ServiceDiscoveryService', () => {
                 serviceId: 'new-service-id',
             };
 
-            await callback({
-                type: ServiceDiscoveryEventType.SERVICE_REGISTERED,
-                service: newService,
-                timestamp: new Date(),
-            });
+            await callback(
+                {
+                    type: ServiceDiscoveryEventType.SERVICE_REGISTERED,
+                    service: newService,
+                    timestamp: new Date(),
+                },
+                {} as ConsumeMessage,
+            );
 
             const services = service.getAllServices();
             const found = services.find((s) => s.serviceId === 'new-service-id');
@@ -322,11 +326,14 @@ describe('ServiceDiscoveryService', () => {
                 serviceId: 'service-to-remove',
             };
 
-            await callback({
-                type: ServiceDiscoveryEventType.SERVICE_REGISTERED,
-                service: newService,
-                timestamp: new Date(),
-            });
+            await callback(
+                {
+                    type: ServiceDiscoveryEventType.SERVICE_REGISTERED,
+                    service: newService,
+                    timestamp: new Date(),
+                },
+                {} as ConsumeMessage,
+            );
 
             // Verify it's added
             let services = service.getAllServices();
@@ -335,11 +342,14 @@ describe('ServiceDiscoveryService', () => {
             expect(found).toBeDefined();
 
             // Now deregister it
-            await callback({
-                type: ServiceDiscoveryEventType.SERVICE_DEREGISTERED,
-                service: newService,
-                timestamp: new Date(),
-            });
+            await callback(
+                {
+                    type: ServiceDiscoveryEventType.SERVICE_DEREGISTERED,
+                    service: newService,
+                    timestamp: new Date(),
+                },
+                {} as ConsumeMessage,
+            );
 
             services = service.getAllServices();
             found = services.find((s) => s.serviceId === 'service-to-remove');
@@ -363,22 +373,28 @@ describe('ServiceDiscoveryService', () => {
                 serviceId: 'heartbeat-service',
             };
 
-            await callback({
-                type: ServiceDiscoveryEventType.SERVICE_REGISTERED,
-                service: newService,
-                timestamp: new Date(),
-            });
+            await callback(
+                {
+                    type: ServiceDiscoveryEventType.SERVICE_REGISTERED,
+                    service: newService,
+                    timestamp: new Date(),
+                },
+                {} as ConsumeMessage,
+            );
 
             // Wait a bit to ensure timestamp difference
             await new Promise((resolve) => setTimeout(resolve, 10));
 
             const updatedService = { ...newService, lastHeartbeat: new Date() };
 
-            await callback({
-                type: ServiceDiscoveryEventType.SERVICE_HEARTBEAT,
-                service: updatedService,
-                timestamp: new Date(),
-            });
+            await callback(
+                {
+                    type: ServiceDiscoveryEventType.SERVICE_HEARTBEAT,
+                    service: updatedService,
+                    timestamp: new Date(),
+                },
+                {} as ConsumeMessage,
+            );
 
             const services = service.getAllServices();
             const updated = services.find((s) => s.serviceId === 'heartbeat-service');
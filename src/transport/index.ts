@@ -0,0 +1,7 @@
+export * from './rabbitmq-client.proxy';
+
+export * from './rabbitmq-clients.module';
+
+export * from './rabbitmq-server.context';
+
+export * from './rabbitmq.server';
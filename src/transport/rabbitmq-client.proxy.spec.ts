@@ -0,0 +1,96 @@
+import { lastValueFrom } from 'rxjs';
+
+import { RabbitMQClientProxy } from './rabbitmq-client.proxy';
+
+import { RpcRemoteError } from '../errors/rpc-remote.error';
+
+describe('RabbitMQClientProxy', () => {
+    let rabbitService: any;
+
+    beforeEach(() => {
+        rabbitService = {
+            getChannel: jest.fn().mockReturnValue({ waitForConnect: jest.fn().mockResolvedValue(undefined) }),
+            getConnectionManager: jest.fn().mockReturnValue({ on: jest.fn() }),
+            publish: jest.fn().mockResolvedValue(true),
+            request: jest.fn().mockResolvedValue({ total: 5 }),
+            sendToQueue: jest.fn().mockResolvedValue(true),
+        };
+    });
+
+    it('should send requests to the queue with their pattern header', async () => {
+        const client = new RabbitMQClientProxy(rabbitService, {
+            publishOptions: { headers: { tenant: 'acme' }, priority: 5 },
+            queue: 'billing',
+            timeout: 1000,
+        });
+
+        await expect(lastValueFrom(client.send({ cmd: 'sum' }, { a: 2, b: 3 }))).resolves.toEqual({ total: 5 });
+
+        expect(rabbitService.request).toHaveBeenCalledWith(
+            'billing',
+            { a: 2, b: 3 },
+            {
+                publishOptions: { headers: { tenant: 'acme', 'x-pattern': '{"cmd":"sum"}' }, priority: 5 },
+                signal: expect.any(AbortSignal),
+                timeout: 1000,
+            },
+        );
+    });
+
+    it('should error with the failure of the request', async () => {
+        const error = new RpcRemoteError('RpcException', 'Invalid amount');
+        const client = new RabbitMQClientProxy(rabbitService, { queue: 'billing' });
+
+        rabbitService.request.mockRejectedValue(error);
+
+        await expect(lastValueFrom(client.send('sum', {}))).rejects.toBe(error);
+        await expect(lastValueFrom(new RabbitMQClientProxy(rabbitService).send('sum', {}))).rejects.toThrow(
+            'RabbitMQClientProxy needs a `queue` to send requests to',
+        );
+    });
+
+    it('should abort the request when the subscriber unsubscribes', async () => {
+        const client = new RabbitMQClientProxy(rabbitService, { queue: 'billing' });
+
+        rabbitService.request.mockReturnValue(new Promise(() => undefined));
+
+        const subscription = client.send('sum', {}).subscribe();
+
+        await new Promise((resolve) => setImmediate(resolve));
+        subscription.unsubscribe();
+
+        expect(rabbitService.request.mock.calls[0][2].signal.aborted).toBe(true);
+    });
+
+    it('should register listeners on the connection manager', () => {
+        const listener = jest.fn();
+
+        new RabbitMQClientProxy(rabbitService).on('disconnect', listener);
+
+        expect(rabbitService.getConnectionManager().on).toHaveBeenCalledWith('disconnect', listener);
+    });
+
+    it('should emit events to the exchange, or else to the queue', async () => {
+        const exchangeClient = new RabbitMQClientProxy(rabbitService, { exchange: 'orders', queue: 'billing' });
+        const queueClient = new RabbitMQClientProxy(rabbitService, { queue: 'billing' });
+
+        await expect(lastValueFrom(exchangeClient.emit('order.placed', { id: 1 }))).resolves.toBe(true);
+        await lastValueFrom(queueClient.emit('order.placed', { id: 2 }));
+
+        expect(rabbitService.publish).toHaveBeenCalledWith(
+            'orders',
+            'order.placed',
+            { id: 1 },
+            {
+                headers: { 'x-pattern': 'order.placed' },
+            },
+        );
+        expect(rabbitService.sendToQueue).toHaveBeenCalledWith(
+            'billing',
+            { id: 2 },
+            {
+                headers: { 'x-pattern': 'order.placed' },
+            },
+        );
+    });
+});
@@ -0,0 +1,152 @@
+import { ClientProxy, ReadPacket, WritePacket } from '@nestjs/microservices';
+
+import { AmqpConnectionManager } from 'amqp-connection-manager';
+
+import { PATTERN_HEADER } from '../constants';
+import { RabbitMQClientOptions } from '../interfaces/rabbitmq-client.interface';
+import { PublishOptions } from '../interfaces/rabbitmq-options.interface';
+import { RabbitMQConnectionEvents } from '../interfaces/rabbitmq-server.interface';
+import { RabbitMQService } from '../services/rabbitmq.service';
+
+/**
+ * Nest `ClientProxy` backed by {@link RabbitMQService}, so code written against `ClientProxy`
+ * gets this library's connection, reconnects, serializers and contracts without rewrites.
+ * `send()` maps onto `request()` and `emit()` onto `publish()`, or `sendToQueue()` without an exchange;
+ * messages carry their pattern in the `x-pattern` header, which `RabbitMQServer` dispatches by.
+ * Register clients with `RabbitMQClientsModule`.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class CheckoutService {
+ *   constructor(@Inject('BILLING') private readonly billing: ClientProxy) {}
+ *
+ *   charge(order: Order): Observable<Invoice> {
+ *     return this.billing.send<Invoice>('invoice.create', order);
+ *   }
+ *
+ *   placed(order: Order): Observable<boolean> {
+ *     return this.billing.emit('order.placed', order);
+ *   }
+ * }
+ * ```
+ */
+export class RabbitMQClientProxy extends ClientProxy {
+    /**
+     * Creates an instance of RabbitMQClientProxy.
+     *
+     * @param {RabbitMQService} rabbitService - The connection messages are sent through
+     * @param {Omit<RabbitMQClientOptions, 'connectionName' | 'name'>} options - Where requests and events are sent
+     */
+    constructor(
+        private readonly rabbitService: RabbitMQService,
+        private readonly options: Omit<RabbitMQClientOptions, 'connectionName' | 'name'> = {},
+    ) {
+        super();
+    }
+
+    /**
+     * Resolves once the channel is connected. The connection itself is managed by `RabbitMQModule`.
+     *
+     * @returns {Promise<AmqpConnectionManager>} The connection manager
+     */
+    async connect(): Promise<AmqpConnectionManager> {
+        await this.rabbitService.getChannel().waitForConnect();
+
+        return this.rabbitService.getConnectionManager();
+    }
+
+    /**
+     * Does nothing: the connection is shared and closed by `RabbitMQModule`.
+     */
+    close(): void {}
+
+    /**
+     * Registers a listener for an event of the connection manager, e.g. `'disconnect'`.
+     *
+     * @param {K} event - The connection manager event
+     * @param {RabbitMQConnectionEvents[K]} callback - The listener
+     */
+    on<K extends keyof RabbitMQConnectionEvents>(event: K, callback: RabbitMQConnectionEvents[K]): void {
+        this.rabbitService.getConnectionManager().on(event, callback);
+    }
+
+    /**
+     * Returns the connection manager of the client.
+     *
+     * @returns {T} The `AmqpConnectionManager`
+     */
+    unwrap<T>(): T {
+        return this.rabbitService.getConnectionManager() as T;
+    }
+
+    /**
+     * Publishes an event: to the exchange with the pattern as routing key, or else to the queue.
+     *
+     * @protected
+     */
+    protected async dispatchEvent<T = any>(packet: ReadPacket): Promise<T> {
+        const pattern = this.normalizePattern(packet.pattern);
+        const options = this.getPublishOptions(pattern);
+
+        if (this.options.exchange !== undefined) {
+            return (await this.rabbitService.publish(this.options.exchange, pattern, packet.data, options)) as T;
+        }
+
+        return (await this.rabbitService.sendToQueue(this.getQueue(), packet.data, options)) as T;
+    }
+
+    /**
+     * Sends a request and reports its reply to `callback`; unsubscribing aborts the request.
+     *
+     * @protected
+     */
+    protected publish(packet: ReadPacket, callback: (packet: WritePacket) => void): () => void {
+        const controller = new AbortController();
+
+        Promise.resolve()
+            .then(() =>
+                this.rabbitService.request(this.getQueue(), packet.data, {
+                    publishOptions: this.getPublishOptions(this.normalizePattern(packet.pattern)),
+                    signal: controller.signal,
+                    timeout: this.options.timeout,
+                }),
+            )
+            .then(
+                (response) => callback({ isDisposed: true, response }),
+                (error: unknown) => {
+                    // Nobody is listening once the subscriber aborted the request
+                    if (!controller.signal.aborted) {
+                        callback({ err: error, isDisposed: true });
+                    }
+                },
+            );
+
+        return () => controller.abort();
+    }
+
+    /**
+     * Returns the publish options of a message, with its pattern in the `x-pattern` header.
+     *
+     * @private
+     */
+    private getPublishOptions(pattern: string): PublishOptions {
+        const { publishOptions } = this.options;
+
+        return { ...publishOptions, headers: { ...publishOptions?.headers, [PATTERN_HEADER]: pattern } };
+    }
+
+    /**
+     * Returns the queue of the client.
+     *
+     * @private
+     * @throws {Error} If the client has no `queue`
+     */
+    private getQueue(): string {
+        if (!this.options.queue) {
+            throw new Error('RabbitMQClientProxy needs a `queue` to send requests to');
+        }
+
+        return this.options.queue;
+    }
+}
@@ -0,0 +1,18 @@
+import { RabbitMQClientProxy } from './rabbitmq-client.proxy';
+import { RabbitMQClientsModule } from './rabbitmq-clients.module';
+
+describe('RabbitMQClientsModule', () => {
+    it('should provide a client proxy per client, on its connection', () => {
+        const module = RabbitMQClientsModule.register([
+            { name: 'BILLING', queue: 'billing' },
+            { connectionName: 'events', exchange: 'orders', name: 'ORDERS' },
+        ]);
+        const [billing, orders]: any[] = module.providers!;
+
+        expect(module.module).toBe(RabbitMQClientsModule);
+        expect(module.exports).toEqual(module.providers);
+        expect(billing).toMatchObject({ inject: ['RABBITMQ_SERVICE_default'], provide: 'BILLING' });
+        expect(orders).toMatchObject({ inject: ['RABBITMQ_SERVICE_events'], provide: 'ORDERS' });
+        expect(billing.useFactory({})).toBeInstanceOf(RabbitMQClientProxy);
+    });
+});
@@ -0,0 +1,43 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+
+import { RabbitMQClientProxy } from './rabbitmq-client.proxy';
+
+import { DEFAULT_CONNECTION_NAME, RABBITMQ_SERVICE } from '../constants';
+import { RabbitMQClientOptions } from '../interfaces/rabbitmq-client.interface';
+import { RabbitMQService } from '../services/rabbitmq.service';
+
+/**
+ * Registers {@link RabbitMQClientProxy} clients, injectable as Nest `ClientProxy`s by name.
+ * Clients send through a connection of `RabbitMQModule`, which must be imported as well.
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     RabbitMQModule.forRoot({ uri: 'amqp://localhost' }),
+ *     RabbitMQClientsModule.register([{ name: 'BILLING', queue: 'billing', exchange: 'orders' }]),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({})
+export class RabbitMQClientsModule {
+    /**
+     * Register clients with static options
+     * @param clients - The clients and where they send
+     */
+    static register(clients: RabbitMQClientOptions[]): DynamicModule {
+        const providers: Provider[] = clients.map(({ connectionName = DEFAULT_CONNECTION_NAME, name, ...options }) => ({
+            inject: [`${RABBITMQ_SERVICE}_${connectionName}`],
+            provide: name,
+            useFactory: (rabbitService: RabbitMQService) => new RabbitMQClientProxy(rabbitService, options),
+        }));
+
+        return {
+            providers,
+            exports: providers,
+            module: RabbitMQClientsModule,
+        };
+    }
+}
@@ -0,0 +1,39 @@
+import { BaseRpcContext } from '@nestjs/microservices';
+
+import type { ConsumeMessage } from 'amqplib';
+
+/**
+ * Arguments of a {@link RabbitMQServerContext}: the consumed message and the pattern it was handled by.
+ */
+export type RabbitMQServerContextArgs = [ConsumeMessage, string];
+
+/**
+ * Context of `@MessagePattern()` and `@EventPattern()` handlers of a `RabbitMQServer`, injected with `@Ctx()`.
+ *
+ * @example
+ * ```typescript
+ * @MessagePattern('order.get')
+ * getOrder(@Payload() id: string, @Ctx() context: RabbitMQServerContext) {
+ *   const tenant = context.getMessage().properties.headers?.['x-tenant'];
+ * }
+ * ```
+ */
+export class RabbitMQServerContext extends BaseRpcContext<RabbitMQServerContextArgs> {
+    /**
+     * Returns the raw AMQP message being handled.
+     *
+     * @returns {ConsumeMessage} The consumed message
+     */
+    getMessage(): ConsumeMessage {
+        return this.args[0];
+    }
+
+    /**
+     * Returns the pattern of the message: its `x-pattern` header, or else its routing key.
+     *
+     * @returns {string} The pattern
+     */
+    getPattern(): string {
+        return this.args[1];
+    }
+}
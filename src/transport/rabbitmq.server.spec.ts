@@ -0,0 +1,169 @@
+import { throwError } from 'rxjs';
+
+import { RabbitMQServerContext } from './rabbitmq-server.context';
+import { RabbitMQServer } from './rabbitmq.server';
+
+import { RabbitMQService } from '../services/rabbitmq.service';
+
+import type { AmqpConnectionManager } from 'amqp-connection-manager';
+
+describe('RabbitMQServer', () => {
+    let mockChannel: any;
+    let mockConnectionManager: any;
+    let service: RabbitMQService;
+
+    const createMessage = (
+        payload: unknown,
+        properties: Record<string, unknown> = {},
+        routingKey = 'billing',
+    ): any => ({
+        content: Buffer.from(JSON.stringify(payload)),
+        fields: { routingKey },
+        properties: { headers: {}, ...properties },
+    });
+
+    const listen = async (server: RabbitMQServer) => {
+        const callback = jest.fn();
+
+        server.listen(callback);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        return { callback, onMessage: mockChannel.consume.mock.calls[0]?.[1] };
+    };
+
+    beforeEach(async () => {
+        mockChannel = {
+            ack: jest.fn(),
+            assertQueue: jest.fn().mockResolvedValue({ queue: 'billing' }),
+            bindQueue: jest.fn().mockResolvedValue({}),
+            close: jest.fn().mockResolvedValue(undefined),
+            consume: jest.fn().mockResolvedValue({ consumerTag: 'billing' }),
+            nack: jest.fn(),
+            sendToQueue: jest.fn().mockResolvedValue(true),
+            waitForConnect: jest.fn().mockResolvedValue(undefined),
+        };
+        mockConnectionManager = {
+            close: jest.fn().mockResolvedValue(undefined),
+            createChannel: jest.fn().mockReturnValue(mockChannel),
+            on: jest.fn(),
+        };
+        service = new RabbitMQService(mockConnectionManager as AmqpConnectionManager, 'test');
+        await service.initialize();
+    });
+
+    it('should assert the queue, bind the handler patterns and start consuming', async () => {
+        const server = new RabbitMQServer({ exchange: 'orders', queue: 'billing', service });
+
+        server.addHandler('order.*', jest.fn(), true);
+        server.addHandler({ cmd: 'invoice' }, jest.fn());
+
+        const { callback } = await listen(server);
+
+        expect(callback).toHaveBeenCalledWith();
+        expect(mockChannel.assertQueue).toHaveBeenCalledWith('billing', expect.objectContaining({ durable: true }));
+        expect(mockChannel.bindQueue).toHaveBeenCalledWith('billing', 'orders', 'order.*');
+        expect(mockChannel.bindQueue).toHaveBeenCalledWith('billing', 'orders', '{"cmd":"invoice"}');
+        expect(mockChannel.consume).toHaveBeenCalledWith('billing', expect.any(Function), expect.any(Object));
+    });
+
+    it('should reply to requests with the result of the handler of their pattern header', async () => {
+        const server = new RabbitMQServer({ queue: 'billing', service });
+        const handler = jest.fn(async ({ a, b }: { a: number; b: number }, _context: RabbitMQServerContext) => a + b);
+
+        server.addHandler('sum', handler);
+
+        const { onMessage } = await listen(server);
+        const message = createMessage(
+            { a: 2, b: 3 },
+            { correlationId: 'c-1', headers: { 'x-pattern': 'sum' }, replyTo: 'reply-q' },
+        );
+
+        await onMessage(message);
+
+        expect(handler).toHaveBeenCalledWith({ a: 2, b: 3 }, expect.any(RabbitMQServerContext));
+        const [[, context]] = handler.mock.calls;
+
+        expect(context.getPattern()).toBe('sum');
+        expect(context.getMessage()).toBe(message);
+        expect(mockChannel.sendToQueue).toHaveBeenCalledWith('reply-q', Buffer.from('5'), {
+            contentType: 'application/json',
+            correlationId: 'c-1',
+            headers: { 'x-rpc-responder': 'billing' },
+            persistent: false,
+        });
+        expect(mockChannel.ack).toHaveBeenCalledWith(message);
+    });
+
+    it('should reply with an error when the handler fails', async () => {
+        const server = new RabbitMQServer({ queue: 'billing', service });
+
+        server.addHandler('sum', async () => throwError(() => ({ message: 'Invalid amount', status: 'error' })));
+
+        const { onMessage } = await listen(server);
+
+        await onMessage(createMessage({}, { headers: { 'x-pattern': 'sum' }, replyTo: 'reply-q' }));
+
+        const [, content, options] = mockChannel.sendToQueue.mock.calls[0];
+
+        expect(options.headers).toEqual({ 'x-rpc-error': true, 'x-rpc-responder': 'billing' });
+        expect(JSON.parse(content.toString())).toEqual({
+            error: {
+                details: { message: 'Invalid amount', status: 'error' },
+                message: 'Invalid amount',
+                name: 'RpcException',
+            },
+        });
+    });
+
+    it('should dispatch events by routing key, matching topic patterns', async () => {
+        const server = new RabbitMQServer({ exchange: 'orders', queue: 'billing', service });
+        const handler = jest.fn().mockResolvedValue(undefined);
+
+        server.addHandler('order.*', handler, true);
+
+        const { onMessage } = await listen(server);
+        const message = createMessage({ orderId: '42' }, { replyTo: 'reply-q' }, 'order.created');
+
+        await onMessage(message);
+
+        expect(handler).toHaveBeenCalledWith({ orderId: '42' }, expect.any(RabbitMQServerContext));
+        expect(mockChannel.sendToQueue).not.toHaveBeenCalled();
+        expect(mockChannel.ack).toHaveBeenCalledWith(message);
+    });
+
+    it('should reject events that fail or have no handler', async () => {
+        const server = new RabbitMQServer({ queue: 'billing', service });
+
+        server.addHandler('order.created', jest.fn().mockRejectedValue(new Error('Billing failed')), true);
+
+        const { onMessage } = await listen(server);
+        const failed = createMessage({}, { headers: { 'x-pattern': 'order.created' } });
+        const unhandled = createMessage({}, { headers: { 'x-pattern': 'order.shipped' } });
+
+        await onMessage(failed);
+        await onMessage(unhandled);
+
+        expect(mockChannel.nack).toHaveBeenCalledWith(failed, false, false);
+        expect(mockChannel.nack).toHaveBeenCalledWith(unhandled, false, false);
+    });
+
+    it('should attach connection listeners and leave a shared connection open on close', async () => {
+        const server = new RabbitMQServer({ queue: 'billing', service });
+        const listener = jest.fn();
+
+        expect(() => server.unwrap()).toThrow('Not initialized');
+
+        server.on('disconnect', listener);
+        await listen(server);
+        await server.close();
+
+        expect(mockConnectionManager.on).toHaveBeenCalledWith('disconnect', listener);
+        expect(mockConnectionManager.close).not.toHaveBeenCalled();
+    });
+
+    it('should fail to listen without a uri or service', async () => {
+        const { callback } = await listen(new RabbitMQServer({ queue: 'billing' }));
+
+        expect(callback).toHaveBeenCalledWith(new Error('RabbitMQServer needs a `uri` or an existing `service`'));
+    });
+});
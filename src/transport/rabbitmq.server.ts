@@ -0,0 +1,294 @@
+import { Logger } from '@nestjs/common';
+import { CustomTransportStrategy, MessageHandler, Server } from '@nestjs/microservices';
+
+import * as amqp from 'amqp-connection-manager';
+import { AmqpConnectionManager } from 'amqp-connection-manager';
+import { ConsumeMessage } from 'amqplib';
+import { lastValueFrom } from 'rxjs';
+
+import { RabbitMQServerContext } from './rabbitmq-server.context';
+
+import { DEFAULT_CONNECTION_NAME, PATTERN_HEADER, RPC_ERROR_HEADER, RPC_RESPONDER_HEADER } from '../constants';
+import { MessageDisposition, RpcErrorReply } from '../interfaces/message-handling.interface';
+import { RabbitMQConnectionEvents, RabbitMQServerOptions } from '../interfaces/rabbitmq-server.interface';
+import { RabbitMQService } from '../services/rabbitmq.service';
+import { compressContent, resolveCompressionOptions } from '../utils/compression-utils';
+import { getErrorMessage, getErrorStack } from '../utils/log-utils';
+import { createErrorReply, matchesRoutingKey } from '../utils/message-utils';
+
+/**
+ * Builds the error reply of a failed `@MessagePattern()` handler.
+ * Exception filters of Nest microservices turn errors into plain objects,
+ * e.g. `{ status: 'error', message }`, which are kept as details.
+ */
+function toErrorReply(error: unknown): RpcErrorReply {
+    if (error instanceof Error || typeof error !== 'object' || error === null) {
+        return createErrorReply(error);
+    }
+
+    const { code, message } = error as { code?: unknown; message?: unknown };
+
+    return {
+        error: {
+            code: typeof code === 'string' || typeof code === 'number' ? code : undefined,
+            details: error,
+            message: message === undefined ? 'Internal server error' : getErrorMessage(message),
+            name: 'RpcException',
+        },
+    };
+}
+
+/**
+ * NestJS microservice transport strategy on top of this library's connection management,
+ * topology and serializers, for the standard `@MessagePattern()` and `@EventPattern()` handlers.
+ * Unlike the built-in RMQ transport, handlers can be bound to a topic exchange by pattern,
+ * and the server can share a connection of `RabbitMQModule`, whose `@RabbitSubscribe()` handlers keep working alongside.
+ *
+ * Messages are consumed from `queue` through {@link RabbitMQService.consume}, so they are decoded,
+ * upcast and validated like any consumed message, and `consumeOptions` such as `retry` apply.
+ * Each message is handled by the handler of its `x-pattern` header, or else of its routing key.
+ * Requests carrying `replyTo` get the handler's result as reply, readable by `RabbitMQService.request()`;
+ * failed requests get an error reply, and failed events are settled like failed consumed messages.
+ *
+ * @example
+ * ```typescript
+ * const app = await NestFactory.create(AppModule);
+ *
+ * app.connectMicroservice({
+ *   strategy: new RabbitMQServer({
+ *     uri: 'amqp://localhost',
+ *     exchanges: [{ name: 'orders', type: 'topic' }],
+ *     exchange: 'orders',
+ *     queue: 'billing',
+ *   }),
+ * });
+ * await app.startAllMicroservices();
+ *
+ * // Or on the connection of RabbitMQModule
+ * new RabbitMQServer({ queue: 'billing', service: app.get<RabbitMQService>(`${RABBITMQ_SERVICE}_default`) });
+ * ```
+ */
+export class RabbitMQServer extends Server<RabbitMQConnectionEvents> implements CustomTransportStrategy {
+    protected readonly logger = new Logger(RabbitMQServer.name);
+    private readonly pendingEventListeners: Array<(connectionManager: AmqpConnectionManager) => void> = [];
+    private service?: RabbitMQService;
+
+    /**
+     * Creates an instance of RabbitMQServer.
+     *
+     * @param {RabbitMQServerOptions} options - The queue to consume, and the connection to use or open
+     */
+    constructor(private readonly options: RabbitMQServerOptions) {
+        super();
+    }
+
+    /**
+     * Connects, asserts the queue and its bindings, and starts consuming.
+     * Called by Nest when the microservice starts.
+     *
+     * @param {(...optionalParams: unknown[]) => any} callback - Called once listening, or with the error that prevented it
+     */
+    listen(callback: (...optionalParams: unknown[]) => any): void {
+        this.start().then(
+            () => callback(),
+            (error: unknown) => callback(error),
+        );
+    }
+
+    /**
+     * Closes the connection opened by the server. A `service` passed in the options is left open.
+     *
+     * @returns {Promise<void>}
+     */
+    async close(): Promise<void> {
+        if (!this.options.service) {
+            await this.service?.close();
+        }
+
+        this.service = undefined;
+    }
+
+    /**
+     * Registers a listener for an event of the connection manager, e.g. `'disconnect'`.
+     * Listeners registered before `listen()` are attached once connected.
+     *
+     * @param {K} event - The connection manager event
+     * @param {RabbitMQConnectionEvents[K]} callback - The listener
+     */
+    on<K extends keyof RabbitMQConnectionEvents>(event: K, callback: RabbitMQConnectionEvents[K]): void {
+        const listen = (connectionManager: AmqpConnectionManager) => connectionManager.on(event, callback);
+
+        if (this.service) {
+            listen(this.service.getConnectionManager());
+
+            return;
+        }
+
+        this.pendingEventListeners.push(listen);
+    }
+
+    /**
+     * Returns the connection manager of the server.
+     *
+     * @returns {T} The `AmqpConnectionManager`
+     * @throws {Error} If the server is not listening
+     */
+    unwrap<T>(): T {
+        if (!this.service) {
+            throw new Error(
+                'Not initialized. Please call the "listen"/"startAllMicroservices" method before accessing the server.',
+            );
+        }
+
+        return this.service.getConnectionManager() as T;
+    }
+
+    /**
+     * Opens the connection of the server and asserts the module topology, as `RabbitMQModule.forRoot()` does.
+     *
+     * @private
+     */
+    private async createService(): Promise<RabbitMQService> {
+        const { connectionName = DEFAULT_CONNECTION_NAME, connectionOptions, logLevel, uri } = this.options;
+
+        if (!uri) {
+            throw new Error('RabbitMQServer needs a `uri` or an existing `service`');
+        }
+
+        const connectionManager: AmqpConnectionManager = amqp.connect([uri], {
+            heartbeatIntervalInSeconds: connectionOptions?.heartbeatIntervalInSeconds || 5,
+            reconnectTimeInSeconds: connectionOptions?.reconnectTimeInSeconds || 10,
+        });
+        const service = new RabbitMQService(connectionManager, connectionName, logLevel ?? 'error', {
+            ...this.options,
+            uri,
+        });
+
+        await service.initialize();
+
+        for (const exchange of this.options.exchanges ?? []) {
+            await service.assertExchange(exchange.name, exchange.type, exchange.options);
+        }
+
+        for (const queue of this.options.queues ?? []) {
+            await service.assertQueue(queue.name, queue.options, queue.deadLetter);
+        }
+
+        return service;
+    }
+
+    /**
+     * Finds the handler of a pattern, falling back to handlers whose pattern matches it as a topic binding.
+     *
+     * @private
+     */
+    private findHandler(pattern: string): MessageHandler | null {
+        const handler = this.getHandlerByPattern(pattern);
+
+        if (handler || !this.options.exchange) {
+            return handler;
+        }
+
+        return [...this.messageHandlers].find(([binding]) => matchesRoutingKey(binding, pattern))?.[1] ?? null;
+    }
+
+    /**
+     * Runs the handler of a consumed message and replies to requests.
+     *
+     * @private
+     */
+    private async handleMessage(payload: unknown, message: ConsumeMessage): Promise<MessageDisposition | void> {
+        const header = message.properties.headers?.[PATTERN_HEADER];
+        const pattern = typeof header === 'string' ? header : message.fields.routingKey;
+        const handler = this.findHandler(pattern);
+        const isRequest = Boolean(message.properties.replyTo) && !handler?.isEventHandler;
+
+        if (!handler) {
+            this.logger.error(`No handler for pattern ${pattern} on queue ${this.options.queue}`);
+
+            if (!isRequest) {
+                return MessageDisposition.NACK;
+            }
+
+            await this.reply(
+                message,
+                createErrorReply(new Error('There is no matching message handler defined in the remote service.')),
+                true,
+            );
+
+            return;
+        }
+
+        const context = new RabbitMQServerContext([message, pattern]);
+        const handle = async () =>
+            lastValueFrom(this.transformToObservable(await handler(payload, context)), { defaultValue: undefined });
+
+        if (!isRequest) {
+            await handle();
+
+            return;
+        }
+
+        try {
+            await this.reply(message, await handle());
+        } catch (error: unknown) {
+            this.logger.error(`Error handling request ${pattern}`, getErrorStack(error));
+            await this.reply(message, toErrorReply(error), true);
+        }
+    }
+
+    /**
+     * Sends a reply to the caller of a request, encoded by the serializer of the request.
+     *
+     * @private
+     */
+    private async reply(message: ConsumeMessage, response: unknown, isError = false): Promise<void> {
+        const serializers = this.service!.getSerializers();
+        const serializer = serializers.get(message.properties.contentType) ?? serializers.getDefault();
+        const isBuffer = Buffer.isBuffer(response);
+        const { content, contentEncoding } = isBuffer
+            ? { content: response, contentEncoding: undefined }
+            : await compressContent(
+                  serializer.serialize(response ?? null),
+                  serializer.contentEncoding,
+                  resolveCompressionOptions(undefined, this.options.compression),
+              );
+
+        await this.service!.getChannel().sendToQueue(message.properties.replyTo, content, {
+            persistent: false,
+            correlationId: message.properties.correlationId,
+            ...(!isBuffer && { contentType: serializer.contentType }),
+            ...(contentEncoding && { contentEncoding }),
+            headers: {
+                [RPC_RESPONDER_HEADER]: this.options.queue,
+                ...(isError && { [RPC_ERROR_HEADER]: true }),
+            },
+        });
+    }
+
+    /**
+     * Connects and starts consuming the queue, binding it to the exchange by the pattern of every handler.
+     *
+     * @private
+     */
+    private async start(): Promise<void> {
+        const { consumeOptions, exchange, queue, queueOptions } = this.options;
+
+        this.service = this.options.service ?? (await this.createService());
+
+        for (const listen of this.pendingEventListeners.splice(0)) {
+            listen(this.service.getConnectionManager());
+        }
+
+        await this.service.assertQueue(queue, queueOptions, consumeOptions?.deadLetter);
+
+        if (exchange) {
+            for (const pattern of this.messageHandlers.keys()) {
+                await this.service.bindQueue(queue, exchange, pattern);
+            }
+        }
+
+        await this.service.consume(queue, (payload, message) => this.handleMessage(payload, message), consumeOptions);
+        this.logger.log(`Listening on queue ${queue}`);
+    }
+}
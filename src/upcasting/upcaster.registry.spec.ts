@@ -0,0 +1,49 @@
+import { UpcasterRegistry } from './upcaster.registry';
+
+describe('UpcasterRegistry', () => {
+    const messageOf = (type?: string, version?: unknown): any => ({
+        content: Buffer.alloc(0),
+        properties: { headers: version === undefined ? {} : { 'x-message-version': version }, type },
+    });
+
+    it('should chain upcasters from the version of the message to the latest one', () => {
+        const registry = new UpcasterRegistry([
+            { fromVersion: 2, type: 'order.created', upcast: (order) => ({ ...order, v3: true }) },
+            { fromVersion: 1, type: 'order.created', upcast: (order) => ({ ...order, v2: true }) },
+        ]);
+
+        expect(registry.upcast({ id: 1 }, messageOf('order.created'))).toEqual({ id: 1, v2: true, v3: true });
+        expect(registry.upcast({ id: 1 }, messageOf('order.created', '2'))).toEqual({ id: 1, v3: true });
+        expect(registry.upcast({ id: 1 }, messageOf('order.created', 3))).toEqual({ id: 1 });
+        expect(registry.getLatestVersion('order.created')).toBe(3);
+    });
+
+    it('should leave messages without a type or upcasters untouched', () => {
+        const payload = { id: 1 };
+        const registry = new UpcasterRegistry([{ fromVersion: 1, type: 'order.created', upcast: () => ({}) }]);
+
+        expect(registry.upcast(payload, messageOf())).toBe(payload);
+        expect(registry.upcast(payload, messageOf('order.shipped'))).toBe(payload);
+        expect(registry.getLatestVersion('order.shipped')).toBe(1);
+    });
+
+    it('should pass the message to upcasters and treat invalid versions as 1', () => {
+        const upcast = jest.fn().mockReturnValue('v2');
+        const registry = new UpcasterRegistry();
+        const message = messageOf('order.created', 'latest');
+
+        registry.register({ fromVersion: 1, type: 'order.created', upcast });
+
+        expect(registry.getVersion(message)).toBe(1);
+        expect(registry.upcast('v1', message)).toBe('v2');
+        expect(upcast).toHaveBeenCalledWith('v1', message);
+    });
+
+    it('should reject a second upcaster for the same type and version', () => {
+        const registry = new UpcasterRegistry([{ fromVersion: 1, type: 'order.created', upcast: () => ({}) }]);
+
+        expect(() => registry.register({ fromVersion: 1, type: 'order.created', upcast: () => ({}) })).toThrow(
+            'Upcaster already registered for order.created version 1',
+        );
+    });
+});
@@ -0,0 +1,103 @@
+import { DEFAULT_MESSAGE_VERSION, MESSAGE_VERSION_HEADER } from '../constants';
+
+import type { Upcaster, UpcastFunction } from '../interfaces/upcaster.interface';
+import type { Message } from 'amqplib';
+
+/**
+ * Upcasters of a connection, keyed by message `type` and the version they migrate from.
+ * Consumed payloads are migrated one version at a time, from the version in the
+ * `x-message-version` header (1 when absent) up to the latest registered for their type,
+ * before the handler sees them.
+ *
+ * @example
+ * ```typescript
+ * const upcasters = rabbitMQ.getUpcasters();
+ *
+ * upcasters.register({ type: 'order.created', fromVersion: 1, upcast: (v1) => ({ ...v1, currency: 'EUR' }) });
+ * upcasters.register({ type: 'order.created', fromVersion: 2, upcast: (v2) => ({ ...v2, total: v2.amount }) });
+ *
+ * upcasters.upcast({ amount: 5 }, message); // { amount: 5, currency: 'EUR', total: 5 } for a v1 message
+ * ```
+ */
+export class UpcasterRegistry {
+    private readonly upcasters = new Map<string, Map<number, UpcastFunction>>();
+
+    /**
+     * Creates an instance of UpcasterRegistry.
+     *
+     * @param {Upcaster[]} [upcasters=[]] - Upcasters to register
+     */
+    constructor(upcasters: Upcaster[] = []) {
+        upcasters.forEach((upcaster) => this.register(upcaster));
+    }
+
+    /**
+     * Returns the latest version of a message type, the one its payloads are upcast to.
+     *
+     * @param {string} type - The message type
+     * @returns {number} The latest version
+     */
+    getLatestVersion(type: string): number {
+        const versions = this.upcasters.get(type);
+        let version = DEFAULT_MESSAGE_VERSION;
+
+        while (versions?.has(version)) {
+            version++;
+        }
+
+        return version;
+    }
+
+    /**
+     * Returns the version of a message, from its `x-message-version` header.
+     *
+     * @param {Pick<Message, 'properties'>} message - The message
+     * @returns {number} The version; 1 when the header is absent or invalid
+     */
+    getVersion(message: Pick<Message, 'properties'>): number {
+        const version = Number(message.properties?.headers?.[MESSAGE_VERSION_HEADER]);
+
+        return Number.isInteger(version) && version > 0 ? version : DEFAULT_MESSAGE_VERSION;
+    }
+
+    /**
+     * Registers an upcaster.
+     *
+     * @param {Upcaster} upcaster - The upcaster
+     * @throws {Error} If an upcaster is already registered for the same type and version
+     */
+    register(upcaster: Upcaster): void {
+        const versions = this.upcasters.get(upcaster.type) ?? new Map<number, UpcastFunction>();
+
+        if (versions.has(upcaster.fromVersion)) {
+            throw new Error(`Upcaster already registered for ${upcaster.type} version ${upcaster.fromVersion}`);
+        }
+
+        versions.set(upcaster.fromVersion, upcaster.upcast);
+        this.upcasters.set(upcaster.type, versions);
+    }
+
+    /**
+     * Migrates a decoded payload from the version of its message to the latest version of its type.
+     * Messages without a `type` property, or without upcasters for their version, are returned as-is.
+     *
+     * @param {unknown} payload - The decoded payload
+     * @param {Pick<Message, 'content' | 'properties'>} message - The message the payload was decoded from
+     * @returns {unknown} The upcast payload
+     */
+    upcast(payload: unknown, message: Pick<Message, 'content' | 'properties'>): unknown {
+        const versions = message.properties?.type ? this.upcasters.get(message.properties.type) : undefined;
+
+        if (!versions) {
+            return payload;
+        }
+
+        let upcast = payload;
+
+        for (let version = this.getVersion(message); versions.has(version); version++) {
+            upcast = versions.get(version)!(upcast, message);
+        }
+
+        return upcast;
+    }
+}
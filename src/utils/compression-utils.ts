@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Payload compression utilities.
+ * Compresses serialized payloads with Node zlib and decompresses them by `contentEncoding`.
+ */
+
+import { promisify } from 'util';
+import { brotliCompress, brotliDecompressSync, constants, deflate, gunzipSync, gzip, inflateSync } from 'zlib';
+
+import { DEFAULT_COMPRESSION_THRESHOLD, DEFAULT_MAX_DECOMPRESSED_SIZE } from '../constants';
+import { CompressionAlgorithm, CompressionOptions } from '../interfaces/compression.interface';
+
+const brotliCompressAsync = promisify(brotliCompress);
+const deflateAsync = promisify(deflate);
+const gzipAsync = promisify(gzip);
+
+const compressors: Record<CompressionAlgorithm, (content: Buffer, level?: number) => Promise<Buffer>> = {
+    [CompressionAlgorithm.BROTLI]: (content, level) =>
+        brotliCompressAsync(
+            content,
+            level === undefined ? {} : { params: { [constants.BROTLI_PARAM_QUALITY]: level } },
+        ),
+    [CompressionAlgorithm.DEFLATE]: (content, level) => deflateAsync(content, { level }),
+    [CompressionAlgorithm.GZIP]: (content, level) => gzipAsync(content, { level }),
+};
+
+const decompressors = new Map<string, (content: Buffer, maxOutputLength: number) => Buffer>([
+    [CompressionAlgorithm.BROTLI, (content, maxOutputLength) => brotliDecompressSync(content, { maxOutputLength })],
+    [CompressionAlgorithm.DEFLATE, (content, maxOutputLength) => inflateSync(content, { maxOutputLength })],
+    [CompressionAlgorithm.GZIP, (content, maxOutputLength) => gunzipSync(content, { maxOutputLength })],
+]);
+
+/**
+ * Compresses a serialized payload, appending the algorithm to its content encoding.
+ * Payloads below the threshold, or that would not shrink, are returned unchanged.
+ *
+ * @param {Buffer} content - The serialized payload
+ * @param {string | undefined} contentEncoding - The content encoding set by the serializer or caller, if any
+ * @param {CompressionOptions} [compression] - The compression to apply; nothing is compressed when omitted
+ * @returns {Promise<{ content: Buffer; contentEncoding?: string }>} The payload to send and its content encoding
+ *
+ * @example
+ * ```typescript
+ * await compressContent(largeJson, undefined, { algorithm: CompressionAlgorithm.GZIP });
+ * // { content: <gzip bytes>, contentEncoding: 'gzip' }
+ * ```
+ */
+export async function compressContent(
+    content: Buffer,
+    contentEncoding: string | undefined,
+    compression?: CompressionOptions,
+): Promise<{ content: Buffer; contentEncoding?: string }> {
+    if (!compression || content.length < (compression.threshold ?? DEFAULT_COMPRESSION_THRESHOLD)) {
+        return { content, contentEncoding };
+    }
+
+    const compressed = await compressors[compression.algorithm](content, compression.level);
+
+    if (compressed.length >= content.length) {
+        return { content, contentEncoding };
+    }
+
+    return {
+        content: compressed,
+        contentEncoding: contentEncoding ? `${contentEncoding}, ${compression.algorithm}` : compression.algorithm,
+    };
+}
+
+/**
+ * Undoes the compressions listed last in a content encoding, in reverse order of application.
+ * Other encodings are left for the serializer.
+ *
+ * @param {Buffer} content - The message content
+ * @param {string} [contentEncoding] - The `contentEncoding` property of the message
+ * @param {number} [maxOutputLength=DEFAULT_MAX_DECOMPRESSED_SIZE] - The size in bytes each decompression may produce
+ * @returns {{ content: Buffer; contentEncoding?: string }} The decompressed content and its remaining content encoding
+ * @throws {RangeError} If the content decompresses to more than `maxOutputLength` bytes
+ * @throws {Error} If the content is not valid for its encoding
+ *
+ * @example
+ * ```typescript
+ * decompressContent(message.content, 'gzip'); // { content: <original bytes>, contentEncoding: undefined }
+ * ```
+ */
+export function decompressContent(
+    content: Buffer,
+    contentEncoding?: string,
+    maxOutputLength = DEFAULT_MAX_DECOMPRESSED_SIZE,
+): { content: Buffer; contentEncoding?: string } {
+    const encodings = (contentEncoding ?? '')
+        .split(',')
+        .map((encoding) => encoding.trim().toLowerCase())
+        .filter(Boolean);
+    let decompressed = content;
+
+    while (decompressors.has(encodings[encodings.length - 1])) {
+        decompressed = decompressors.get(encodings.pop()!)!(decompressed, maxOutputLength);
+    }
+
+    if (decompressed === content) {
+        return { content, contentEncoding };
+    }
+
+    return { content: decompressed, contentEncoding: encodings.length > 0 ? encodings.join(', ') : undefined };
+}
+
+/**
+ * Resolves the compression of a publish from its own option and the module default.
+ *
+ * @param {false | CompressionAlgorithm | CompressionOptions} [compression] - The publish option; `false` disables compression
+ * @param {CompressionAlgorithm | CompressionOptions} [defaultCompression] - The module-level option
+ * @returns {CompressionOptions | undefined} The compression to apply, or undefined for none
+ */
+export function resolveCompressionOptions(
+    compression?: false | CompressionAlgorithm | CompressionOptions,
+    defaultCompression?: CompressionAlgorithm | CompressionOptions,
+): CompressionOptions | undefined {
+    const resolved = compression ?? defaultCompression;
+
+    if (!resolved) {
+        return undefined;
+    }
+
+    return typeof resolved === 'string' ? { algorithm: resolved } : resolved;
+}
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Dead-letter topology utilities.
+ * Resolves dead-letter defaults for a queue and builds failure headers.
+ */
+
+import {
+    FAILURE_HANDLER_HEADER,
+    FAILURE_REASON_HEADER,
+    FAILURE_STACK_HEADER,
+    ORIGINAL_EXCHANGE_HEADER,
+    ORIGINAL_ROUTING_KEY_HEADER,
+    RETRY_ATTEMPT_HEADER,
+} from '../constants';
+
+import { getErrorMessage, getErrorStack } from './log-utils';
+
+import type { DeadLetterOptions } from '../interfaces/rabbitmq-options.interface';
+import type { ConsumeMessage, Message, Options } from 'amqplib';
+
+/**
+ * Dead-letter options of a queue with all defaults applied.
+ */
+export interface ResolvedDeadLetterOptions {
+    exchange: string;
+    queue: string;
+    queueOptions?: Options.AssertQueue;
+    routingKey: string;
+}
+
+/**
+ * Builds the failure headers recorded on a message republished to its dead-letter exchange.
+ * The original exchange and routing key are kept from a previous dead-lettering, if any.
+ *
+ * @param {ConsumeMessage} message - The failed message
+ * @param {unknown} error - The error the message failed with
+ * @param {string} [handlerName] - The handler that failed, e.g. `OrderConsumer.handleOrder`
+ * @returns {Record<string, unknown>} The message headers including the failure headers
+ *
+ * @example
+ * ```typescript
+ * createDeadLetterHeaders(message, new Error('Invalid order'), 'OrderConsumer.handleOrder');
+ * // { ..., 'x-failure-reason': 'Invalid order', 'x-failure-handler': 'OrderConsumer.handleOrder', ... }
+ * ```
+ */
+export function createDeadLetterHeaders(
+    message: ConsumeMessage,
+    error: unknown,
+    handlerName?: string,
+): Record<string, unknown> {
+    const headers: Record<string, unknown> = message.properties?.headers ?? {};
+
+    return {
+        ...headers,
+        [FAILURE_HANDLER_HEADER]: handlerName,
+        [FAILURE_REASON_HEADER]: getErrorMessage(error),
+        [FAILURE_STACK_HEADER]: getErrorStack(error),
+        [ORIGINAL_EXCHANGE_HEADER]: headers[ORIGINAL_EXCHANGE_HEADER] ?? message.fields.exchange,
+        [ORIGINAL_ROUTING_KEY_HEADER]: headers[ORIGINAL_ROUTING_KEY_HEADER] ?? message.fields.routingKey,
+    };
+}
+
+/**
+ * Finds where a dead-lettered message was originally published.
+ * Prefers the `x-original-*` headers set when a consumer dead-letters a message,
+ * then the most recent `x-death` entry added by the broker.
+ *
+ * @param {Message} message - The dead-lettered message
+ * @returns {{ exchange: string; routingKey: string } | undefined} The original destination, if known
+ *
+ * @example
+ * ```typescript
+ * getDeadLetterOrigin(message); // { exchange: 'events', routingKey: 'order.created' }
+ * ```
+ */
+export function getDeadLetterOrigin(message: Message): { exchange: string; routingKey: string } | undefined {
+    const headers: Record<string, any> = message.properties?.headers ?? {};
+
+    if (headers[ORIGINAL_ROUTING_KEY_HEADER] !== undefined) {
+        return {
+            exchange: String(headers[ORIGINAL_EXCHANGE_HEADER] ?? ''),
+            routingKey: String(headers[ORIGINAL_ROUTING_KEY_HEADER]),
+        };
+    }
+
+    const death = Array.isArray(headers['x-death']) ? headers['x-death'][0] : undefined;
+
+    if (!death) {
+        return undefined;
+    }
+
+    return { exchange: String(death.exchange ?? ''), routingKey: String(death['routing-keys']?.[0] ?? '') };
+}
+
+/**
+ * Returns the arguments that make a queue dead-letter into its dead-letter exchange.
+ *
+ * @param {ResolvedDeadLetterOptions} deadLetter - The resolved dead-letter options
+ * @returns {Record<string, string>} The `x-dead-letter-*` queue arguments
+ */
+export function getDeadLetterQueueArguments(deadLetter: ResolvedDeadLetterOptions): Record<string, string> {
+    return {
+        'x-dead-letter-exchange': deadLetter.exchange,
+        'x-dead-letter-routing-key': deadLetter.routingKey,
+    };
+}
+
+/**
+ * Returns the headers a dead-lettered message is replayed with.
+ * Drops `x-death` and the retry attempt count so the message starts afresh.
+ *
+ * @param {Message} message - The dead-lettered message
+ * @returns {Record<string, unknown>} The headers for the replayed message
+ */
+export function getReplayHeaders(message: Message): Record<string, unknown> {
+    const { 'x-death': _death, [RETRY_ATTEMPT_HEADER]: _attempt, ...headers } = message.properties?.headers ?? {};
+
+    return headers;
+}
+
+/**
+ * Applies the dead-letter defaults for a queue.
+ *
+ * @param {string} queue - The source queue
+ * @param {boolean | DeadLetterOptions} [deadLetter] - The configured dead-letter options
+ * @returns {ResolvedDeadLetterOptions | undefined} The resolved options, or undefined if dead-lettering is off
+ *
+ * @example
+ * ```typescript
+ * resolveDeadLetterOptions('orders', true);
+ * // { exchange: 'orders.dlx', queue: 'orders.dlq', routingKey: 'orders' }
+ * ```
+ */
+export function resolveDeadLetterOptions(
+    queue: string,
+    deadLetter?: boolean | DeadLetterOptions,
+): ResolvedDeadLetterOptions | undefined {
+    if (!deadLetter) {
+        return undefined;
+    }
+
+    const options = deadLetter === true ? {} : deadLetter;
+
+    return {
+        exchange: options.exchange ?? `${queue}.dlx`,
+        queue: options.queue ?? `${queue}.dlq`,
+        queueOptions: options.queueOptions,
+        routingKey: options.routingKey ?? queue,
+    };
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview RPC deadline utilities.
+ * Reads the deadline stamped on RPC requests and carries it through the async calls of their handlers.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { RPC_DEADLINE_HEADER } from '../constants';
+
+import type { Message } from 'amqplib';
+
+const deadlineStorage = new AsyncLocalStorage<number>();
+
+/**
+ * Returns the deadline of the RPC request being handled in the current async context.
+ * `RabbitMQService.request()` caps the deadline of nested requests with it.
+ *
+ * @returns {number | undefined} The deadline in epoch milliseconds, or undefined outside an RPC handler
+ */
+export function getCurrentRpcDeadline(): number | undefined {
+    return deadlineStorage.getStore();
+}
+
+/**
+ * Returns the milliseconds left until a deadline, never less than 0.
+ *
+ * @param {number} [deadline] - The deadline in epoch milliseconds; defaults to the current RPC deadline
+ * @returns {number | undefined} The remaining time, or undefined if there is no deadline
+ *
+ * @example
+ * ```typescript
+ * // Inside an RPC handler whose caller waits 5 seconds
+ * getRemainingRpcTime(); // e.g. 4980
+ * ```
+ */
+export function getRemainingRpcTime(deadline: number | undefined = getCurrentRpcDeadline()): number | undefined {
+    return deadline === undefined ? undefined : Math.max(deadline - Date.now(), 0);
+}
+
+/**
+ * Reads the deadline stamped on an RPC request by `RabbitMQService.request()`.
+ *
+ * @param {Message} message - The request message
+ * @returns {number | undefined} The deadline in epoch milliseconds, or undefined if the request has none
+ */
+export function getRpcDeadline(message: Message): number | undefined {
+    const header = message.properties?.headers?.[RPC_DEADLINE_HEADER];
+
+    if (header === undefined || header === null) {
+        return undefined;
+    }
+
+    const deadline = Number(header);
+
+    return Number.isFinite(deadline) ? deadline : undefined;
+}
+
+/**
+ * Runs a function with an RPC deadline, so RPC requests it makes inherit the deadline.
+ *
+ * @template T - The return type of the function
+ * @param {number | undefined} deadline - The deadline in epoch milliseconds; the function runs as is if undefined
+ * @param {() => T} fn - The function to run
+ * @returns {T} The result of the function
+ *
+ * @example
+ * ```typescript
+ * // Propagate an HTTP request's deadline to the RPC calls made while serving it
+ * await runWithRpcDeadline(Date.now() + 2000, () => this.orders.fetch(id));
+ * ```
+ */
+export function runWithRpcDeadline<T>(deadline: number | undefined, fn: () => T): T {
+    return deadline === undefined ? fn() : deadlineStorage.run(deadline, fn);
+}
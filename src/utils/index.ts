@@ -1 +1,7 @@
+export * from './compression-utils';
+export * from './dead-letter-utils';
+export * from './deadline-utils';
 export * from './log-utils';
+export * from './message-utils';
+export * from './retry-utils';
+export * from './stream-utils';
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Message settlement utilities shared by consumers.
+ * Maps handler outcomes onto AMQP acknowledgements.
+ */
+
+import { BadRequestException, ForbiddenException, HttpException } from '@nestjs/common';
+
+import { ContractViolationError } from '../errors/contract-violation.error';
+import { MessageDisposition, RpcErrorReply } from '../interfaces/message-handling.interface';
+
+import { getErrorMessage } from './log-utils';
+
+import type { IdempotencyOptions } from '../interfaces/idempotency.interface';
+import type { ConsumeMessage } from 'amqplib';
+
+/**
+ * Minimal channel surface needed to settle a message.
+ * Satisfied by both amqplib channels and `ChannelWrapper`.
+ */
+export interface SettleableChannel {
+    ack(message: ConsumeMessage, allUpTo?: boolean): void;
+    nack(message: ConsumeMessage, allUpTo?: boolean, requeue?: boolean): void;
+}
+
+/**
+ * Builds the reply body sent to an RPC caller when its request failed.
+ * A string or numeric `code` property is kept as the code;
+ * `HttpException` responses (e.g. validation messages) are included as details.
+ *
+ * @param {unknown} error - The error the request failed with
+ * @returns {RpcErrorReply} The error reply
+ *
+ * @example
+ * ```typescript
+ * createErrorReply(new Error('Not found')); // { error: { message: 'Not found', name: 'Error' } }
+ * ```
+ */
+export function createErrorReply(error: unknown): RpcErrorReply {
+    const code = (error as { code?: unknown } | null)?.code;
+
+    return {
+        error: {
+            code: typeof code === 'string' || typeof code === 'number' ? code : undefined,
+            details: error instanceof HttpException ? error.getResponse() : undefined,
+            message: getErrorMessage(error),
+            name: error instanceof Error ? error.name : 'Error',
+        },
+    };
+}
+
+/**
+ * Returns the key identifying a message for deduplication, scoped to its queue
+ * so that subscribers of the same message on different queues each process it.
+ *
+ * @param {string} queue - The queue the message was consumed from
+ * @param {ConsumeMessage} message - The consumed message
+ * @param {IdempotencyOptions} idempotency - The idempotency options
+ * @returns {string | undefined} The scoped key, or undefined if the message has none
+ *
+ * @example
+ * ```typescript
+ * getIdempotencyKey('orders', message, {}); // 'orders:<messageId>'
+ * ```
+ */
+export function getIdempotencyKey(
+    queue: string,
+    message: ConsumeMessage,
+    idempotency: IdempotencyOptions,
+): string | undefined {
+    const key = idempotency.key ? idempotency.key(message) : message.properties?.messageId;
+
+    return key === undefined || key === null || key === '' ? undefined : `${queue}:${key}`;
+}
+
+/**
+ * Determines whether an error was raised by a guard denying a handler.
+ * Nest raises `ForbiddenException` when a guard returns false.
+ *
+ * @param {unknown} error - The error thrown while handling a message
+ * @returns {boolean} True if the error signals a guard rejection
+ *
+ * @example
+ * ```typescript
+ * isGuardRejection(new ForbiddenException()); // true
+ * ```
+ */
+export function isGuardRejection(error: unknown): boolean {
+    return error instanceof ForbiddenException;
+}
+
+/**
+ * Determines whether an error was raised by a pipe rejecting a handler argument,
+ * or by a message not matching its contract.
+ * `ValidationPipe` and the built-in `Parse*Pipe`s throw `BadRequestException`.
+ *
+ * @param {unknown} error - The error thrown while handling a message
+ * @returns {boolean} True if the error signals a validation failure
+ *
+ * @example
+ * ```typescript
+ * isValidationError(new BadRequestException(['name must be a string'])); // true
+ * isValidationError(new Error('Database down')); // false
+ * ```
+ */
+export function isValidationError(error: unknown): boolean {
+    return error instanceof BadRequestException || error instanceof ContractViolationError;
+}
+
+/**
+ * Determines whether a routing key matches a binding pattern of a topic exchange,
+ * where `*` stands for exactly one word and `#` for zero or more words.
+ *
+ * @param {string} pattern - The binding pattern
+ * @param {string} routingKey - The routing key of a message
+ * @returns {boolean} True if the broker would route the message through the binding
+ *
+ * @example
+ * ```typescript
+ * matchesRoutingKey('order.*', 'order.created'); // true
+ * matchesRoutingKey('order.#', 'order'); // true
+ * matchesRoutingKey('order.*', 'order.created.eu'); // false
+ * ```
+ */
+export function matchesRoutingKey(pattern: string, routingKey: string): boolean {
+    const match = (patternWords: string[], words: string[]): boolean => {
+        if (patternWords.length === 0) {
+            return words.length === 0;
+        }
+
+        const [head, ...rest] = patternWords;
+
+        if (head === '#') {
+            return words.some((_, index) => match(rest, words.slice(index))) || match(rest, []);
+        }
+
+        return words.length > 0 && (head === '*' || head === words[0]) && match(rest, words.slice(1));
+    };
+
+    return pattern === routingKey || match(pattern.split('.'), routingKey.split('.'));
+}
+
+/**
+ * Acknowledges or rejects a consumed message according to a disposition.
+ * `REPLY` is settled like `NACK`; sending the reply is up to the caller.
+ *
+ * @param {SettleableChannel} channel - The channel the message was consumed from
+ * @param {ConsumeMessage} message - The message to settle
+ * @param {MessageDisposition} disposition - The outcome to apply
+ *
+ * @example
+ * ```typescript
+ * settleMessage(channel, message, MessageDisposition.REQUEUE); // nack with requeue
+ * ```
+ */
+export function settleMessage(
+    channel: SettleableChannel,
+    message: ConsumeMessage,
+    disposition: MessageDisposition,
+): void {
+    switch (disposition) {
+        case MessageDisposition.ACK:
+            channel.ack(message);
+            break;
+        case MessageDisposition.REQUEUE:
+            channel.nack(message, false, true);
+            break;
+        default:
+            channel.nack(message, false, false);
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Retry policy utilities.
+ * Computes backoff delays and the names of the retry topology for a queue.
+ */
+
+import { RETRY_ATTEMPT_HEADER } from '../constants';
+
+import type { RetryOptions } from '../interfaces/rabbitmq-options.interface';
+import type { ConsumeMessage } from 'amqplib';
+
+const DEFAULT_INITIAL_DELAY = 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_MULTIPLIER = 2;
+
+/**
+ * Shortens a delay by a random fraction of up to `jitter`.
+ * Jitter never lengthens a delay, so a message never outlives its delay queue's TTL.
+ *
+ * @param {number} delay - The delay in milliseconds
+ * @param {number} [jitter=0] - Maximum fraction (0-1) to subtract
+ * @returns {number} The jittered delay in milliseconds
+ *
+ * @example
+ * ```typescript
+ * applyRetryJitter(1000, 0.2); // between 800 and 1000
+ * ```
+ */
+export function applyRetryJitter(delay: number, jitter = 0): number {
+    const fraction = Math.min(Math.max(jitter, 0), 1);
+
+    return Math.round(delay * (1 - fraction * Math.random()));
+}
+
+/**
+ * Returns the queue receiving messages whose retry attempts are exhausted.
+ *
+ * @param {string} queue - The origin queue
+ * @param {RetryOptions} retry - The retry policy
+ * @returns {string} The parking queue name
+ *
+ * @example
+ * ```typescript
+ * getParkingQueueName('orders', {}); // 'orders.parking'
+ * ```
+ */
+export function getParkingQueueName(queue: string, retry: RetryOptions): string {
+    return retry.parkingQueue ?? `${queue}.parking`;
+}
+
+/**
+ * Reads how many times a message has already been retried.
+ *
+ * @param {ConsumeMessage} message - The consumed message
+ * @returns {number} The retry count, 0 for a first delivery
+ */
+export function getRetryAttempt(message: ConsumeMessage): number {
+    const attempt = Number(message.properties?.headers?.[RETRY_ATTEMPT_HEADER] ?? 0);
+
+    return Number.isFinite(attempt) ? attempt : 0;
+}
+
+/**
+ * Computes the delay before a given retry, before jitter.
+ *
+ * @param {RetryOptions} retry - The retry policy
+ * @param {number} attempt - The 1-based retry number
+ * @returns {number} The delay in milliseconds
+ *
+ * @example
+ * ```typescript
+ * getRetryDelay({ initialDelay: 1000, multiplier: 2 }, 3); // 4000
+ * ```
+ */
+export function getRetryDelay(retry: RetryOptions, attempt: number): number {
+    const initialDelay = retry.initialDelay ?? DEFAULT_INITIAL_DELAY;
+    const multiplier = retry.multiplier ?? DEFAULT_MULTIPLIER;
+    const delay = Math.round(initialDelay * Math.pow(multiplier, attempt - 1));
+
+    return retry.maxDelay === undefined ? delay : Math.min(delay, retry.maxDelay);
+}
+
+/**
+ * Lists the distinct delays a retry policy can use, one delay queue each.
+ *
+ * @param {RetryOptions} retry - The retry policy
+ * @returns {number[]} The delays in milliseconds, in retry order
+ *
+ * @example
+ * ```typescript
+ * getRetryDelays({ maxAttempts: 4, initialDelay: 1000, maxDelay: 3000 }); // [1000, 2000, 3000]
+ * ```
+ */
+export function getRetryDelays(retry: RetryOptions): number[] {
+    const delays = new Set<number>();
+
+    for (let attempt = 1; attempt < getRetryMaxAttempts(retry); attempt++) {
+        delays.add(getRetryDelay(retry, attempt));
+    }
+
+    return [...delays];
+}
+
+/**
+ * Returns the total number of delivery attempts allowed by a retry policy.
+ *
+ * @param {RetryOptions} retry - The retry policy
+ * @returns {number} The maximum attempts, including the first delivery
+ */
+export function getRetryMaxAttempts(retry: RetryOptions): number {
+    return retry.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Returns the delay queue holding messages of a queue for a given delay.
+ *
+ * @param {string} queue - The origin queue
+ * @param {number} delay - The delay in milliseconds
+ * @returns {string} The delay queue name
+ *
+ * @example
+ * ```typescript
+ * getRetryQueueName('orders', 2000); // 'orders.retry.2000'
+ * ```
+ */
+export function getRetryQueueName(queue: string, delay: number): string {
+    return `${queue}.retry.${delay}`;
+}
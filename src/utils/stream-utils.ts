@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Streaming utilities.
+ * Detects streamed handler results and adapts RxJS observables to async iterables.
+ */
+
+import type { Observable } from 'rxjs';
+
+/**
+ * Checks whether a value can be iterated with `for await`, e.g. the result of an async generator.
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is an async iterable
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+    return typeof (value as AsyncIterable<unknown> | null | undefined)?.[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Iterates the values of an observable with `for await`.
+ * The observable is subscribed on the first iteration and unsubscribed when iteration stops early.
+ * Values emitted faster than they are consumed are buffered.
+ *
+ * @template T - The value type
+ * @param {Observable<T>} observable - The observable to iterate
+ * @returns {AsyncGenerator<T, void, undefined>} The values of the observable, ending when it completes
+ *
+ * @example
+ * ```typescript
+ * for await (const value of observableToAsyncIterable(interval(100).pipe(take(3)))) {
+ *   console.log(value); // 0, 1, 2
+ * }
+ * ```
+ */
+export async function* observableToAsyncIterable<T>(observable: Observable<T>): AsyncGenerator<T, void, undefined> {
+    const values: T[] = [];
+    let completed = false;
+    let failure: { error: unknown } | undefined;
+    let wake: (() => void) | undefined;
+
+    const subscription = observable.subscribe({
+        complete: () => {
+            completed = true;
+            wake?.();
+        },
+        error: (error: unknown) => {
+            failure = { error };
+            wake?.();
+        },
+        next: (value: T) => {
+            values.push(value);
+            wake?.();
+        },
+    });
+
+    try {
+        while (true) {
+            if (values.length > 0) {
+                yield values.shift() as T;
+                continue;
+            }
+
+            if (failure) {
+                throw failure.error;
+            }
+
+            if (completed) {
+                return;
+            }
+
+            await new Promise<void>((resolve) => (wake = resolve));
+            wake = undefined;
+        }
+    } finally {
+        subscription.unsubscribe();
+    }
+}